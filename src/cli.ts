@@ -0,0 +1,347 @@
+/**
+ * Standalone CLI
+ * Runs the research tools directly (no MCP client) for scripting and debugging
+ *
+ *   research-powerpack-mcp search "kw1" "kw2" [--type news] [--country jp --language ja] [--fresh] [--json]
+ *   research-powerpack-mcp scrape <url...> [--extract "what to pull out"] [--timeout 30] [--fresh] [--json]
+ *   research-powerpack-mcp reddit <url...> [--max-comments 100] [--no-comments] [--json]
+ *   research-powerpack-mcp research --file q.md ["another question"] [--json]
+ *   research-powerpack-mcp usage [--period day|month] [--json]
+ *
+ * Markdown (or --json structured output) goes to stdout, progress to stderr.
+ * Spending is recorded in the usage ledger as client "cli" and counts against the same caps.
+ * Exit codes: 0 success, 1 tool failure or spending cap reached, 2 usage error or missing API key
+ */
+
+import { readFile } from 'node:fs/promises';
+import { extname } from 'node:path';
+import { parseArgs } from 'node:util';
+import { ZodError } from 'zod';
+
+import { handleWebSearch } from './tools/search.js';
+import { handleScrapeLinks } from './tools/scrape.js';
+import { handleGetRedditPosts } from './tools/reddit.js';
+import { handleDeepResearch } from './tools/research.js';
+import { handleUsageReport } from './tools/usage.js';
+import { BUILTIN_TOOLS } from './tools/definitions.js';
+import { runWithUsage, checkQuota } from './services/usage-ledger.js';
+import { webSearchParamsSchema } from './schemas/web-search.js';
+import { scrapeLinksParamsSchema } from './schemas/scrape-links.js';
+import { getRedditPostParamsSchema } from './schemas/get-reddit-post.js';
+import { deepResearchParamsSchema } from './schemas/deep-research.js';
+import { SERVER, parseEnv, getCapabilities, getMissingEnvMessage, type CapabilityName } from './config/index.js';
+import { classifyError, type StructuredError } from './utils/errors.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+interface CommandResult {
+  content: string;
+  structuredContent: unknown;
+  failed: boolean;
+}
+
+class UsageError extends Error {}
+
+class QuotaError extends Error {
+  constructor(readonly error: StructuredError) {
+    super(error.message);
+  }
+}
+
+export const CLI_COMMANDS = ['search', 'scrape', 'reddit', 'research', 'usage'] as const;
+type CliCommand = typeof CLI_COMMANDS[number];
+
+// MCP tool each command runs - usage is attributed to it
+const COMMAND_TOOLS: Record<Exclude<CliCommand, 'usage'>, string> = {
+  search: 'web_search',
+  scrape: 'scrape_links',
+  reddit: 'get_reddit_post',
+  research: 'deep_research',
+};
+
+const CLI_CLIENT_ID = 'cli';
+
+export function isCliCommand(arg: string | undefined): arg is CliCommand {
+  return CLI_COMMANDS.includes(arg as CliCommand);
+}
+
+const USAGE = `Usage: ${SERVER.NAME} <command> [options]
+
+Commands:
+  search <keyword...>         Web search via the configured providers (web_search)
+      --topic <text>            Generate keywords for a topic via OpenRouter
+      --type <vertical>         web (default), news, scholar, images, videos, places or shopping
+      --depth <n>               Results per keyword, 10-50 (default 10)
+      --follow-related <n>      Rounds of related searches to run, 0-3 (default 0)
+      --time-range <range>      hour, day, week, month or year
+      --date-after <YYYY-MM-DD> Only results published on or after this date
+      --date-before <YYYY-MM-DD>
+                                Only results published before this date
+      --country <code>          Market country, e.g. jp, de (Google gl)
+      --language <code>         Interface language, e.g. ja, de (Google hl)
+      --location <place>        Search from a place, e.g. "Tokyo, Japan"
+      --fresh                   Skip cached results
+  scrape <url...>             Scrape URLs via Scrape.do (scrape_links)
+      --extract <text>          AI extraction instructions (enables use_llm)
+      --timeout <seconds>       Per-URL timeout (default 30)
+      --fresh                   Skip cached pages
+  reddit <url...>             Fetch Reddit posts with comments (get_reddit_post)
+      --max-comments <n>        Comments per post (default: auto-allocated)
+      --no-comments             Posts only
+  research [question...]      Deep research via OpenRouter (deep_research)
+      --file <path>             Questions from a file: .json = deep_research params,
+                                anything else = markdown, questions separated by "---" lines
+  usage                       Spending per tool and client from the usage ledger (usage_report)
+      --period <day|month>      Breakdown period (default month)
+
+Options:
+  --json                      Print structured output as JSON instead of markdown
+  --config <path>             Settings file (.json / .yaml) - default MCP_CONFIG_FILE
+  --profile <name>            Settings profile, e.g. fast or thorough - default MCP_PROFILE
+  -h, --help                  Show this help
+
+Run without a command to start the MCP server.`;
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Print handler progress to stderr - stdout stays clean for piping
+ */
+function progressLogging() {
+  return {
+    sessionId: 'cli',
+    logger: async (_level: 'info' | 'error' | 'debug', message: string) => {
+      console.error(`… ${message}`);
+    },
+  };
+}
+
+function requireCapability(capability: CapabilityName): void {
+  if (!getCapabilities()[capability]) {
+    throw new UsageError(getMissingEnvMessage(capability).replace(/\*\*/g, '').replace(/^❌ /, ''));
+  }
+}
+
+/**
+ * Refuse the command like the MCP server would when a spending cap would be exceeded
+ */
+async function requireQuota(command: keyof typeof COMMAND_TOOLS, params: unknown): Promise<void> {
+  const tool = BUILTIN_TOOLS.find(t => t.name === COMMAND_TOOLS[command]);
+  const quotaError = await checkQuota(await tool?.usage?.(params) ?? {});
+  if (quotaError) {
+    throw new QuotaError(quotaError);
+  }
+}
+
+function parseNumber(value: string | undefined, flag: string): number | undefined {
+  if (value === undefined) return undefined;
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed)) {
+    throw new UsageError(`${flag} must be a number (got "${value}")`);
+  }
+  return parsed;
+}
+
+/**
+ * Read research questions from a file
+ * .json files hold deep_research params ({ "questions": [...] }) or a bare array;
+ * other files are markdown with one question per "---"-separated section
+ */
+async function readQuestionsFile(path: string): Promise<unknown[]> {
+  let raw: string;
+  try {
+    raw = await readFile(path, 'utf-8');
+  } catch (error) {
+    throw new UsageError(`Cannot read ${path}: ${classifyError(error).message}`);
+  }
+
+  if (extname(path).toLowerCase() === '.json') {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(raw);
+    } catch (error) {
+      throw new UsageError(`${path} is not valid JSON: ${classifyError(error).message}`);
+    }
+    const questions = Array.isArray(parsed) ? parsed : (parsed as { questions?: unknown })?.questions;
+    if (!Array.isArray(questions)) {
+      throw new UsageError(`${path} must contain a "questions" array`);
+    }
+    return questions;
+  }
+
+  return raw
+    .split(/^\s*---+\s*$/m)
+    .map(section => section.trim())
+    .filter(Boolean)
+    .map(question => ({ question }));
+}
+
+// ============================================================================
+// Commands
+// ============================================================================
+
+const CLI_OPTIONS = {
+  json: { type: 'boolean' },
+  help: { type: 'boolean', short: 'h' },
+  extract: { type: 'string' },
+  timeout: { type: 'string' },
+  'max-comments': { type: 'string' },
+  'no-comments': { type: 'boolean' },
+  type: { type: 'string' },
+  topic: { type: 'string' },
+  depth: { type: 'string' },
+  'follow-related': { type: 'string' },
+  'time-range': { type: 'string' },
+  'date-after': { type: 'string' },
+  'date-before': { type: 'string' },
+  country: { type: 'string' },
+  language: { type: 'string' },
+  location: { type: 'string' },
+  file: { type: 'string' },
+  fresh: { type: 'boolean' },
+  period: { type: 'string' },
+  // Read by index.ts before the command runs (settings file + profile)
+  config: { type: 'string' },
+  profile: { type: 'string' },
+} as const;
+
+type CliValues = ReturnType<typeof parseArgs<{ options: typeof CLI_OPTIONS }>>['values'];
+
+async function runCommand(command: CliCommand, values: CliValues, positionals: string[]): Promise<CommandResult> {
+  switch (command) {
+    case 'search': {
+      requireCapability('search');
+      const params = webSearchParamsSchema.parse({
+        keywords: positionals.length > 0 ? positionals : undefined,
+        topic: values.topic,
+        type: values.type,
+        depth: parseNumber(values.depth, '--depth'),
+        follow_related: parseNumber(values['follow-related'], '--follow-related'),
+        time_range: values['time-range'],
+        date_after: values['date-after'],
+        date_before: values['date-before'],
+        country: values.country,
+        language: values.language,
+        location: values.location,
+        fresh: values.fresh,
+      });
+      await requireQuota(command, params);
+      const { content, structuredContent } = await handleWebSearch(params, { env: parseEnv(), ...progressLogging() });
+      return { content, structuredContent, failed: structuredContent.metadata.total_results === 0 };
+    }
+
+    case 'scrape': {
+      requireCapability('scraping');
+      const env = parseEnv();
+      // Same as the MCP tool: without an OpenRouter key, scrape without AI extraction
+      const useLlm = values.extract !== undefined && getCapabilities().llmExtraction;
+      if (values.extract !== undefined && !useLlm) {
+        console.error(getMissingEnvMessage('llmExtraction').replace(/\*\*/g, ''));
+      }
+
+      const params = scrapeLinksParamsSchema.parse({
+        urls: positionals,
+        timeout: parseNumber(values.timeout, '--timeout'),
+        use_llm: useLlm,
+        what_to_extract: values.extract,
+        fresh: values.fresh,
+      });
+      await requireQuota(command, params);
+      const { content, structuredContent } = await handleScrapeLinks(params, {
+        apiKey: env.SCRAPER_API_KEY,
+        llmApiKey: useLlm ? env.RESEARCH_API_KEY : undefined,
+        ...progressLogging(),
+      });
+      return { content, structuredContent, failed: structuredContent.metadata.failed === structuredContent.metadata.total_urls };
+    }
+
+    case 'reddit': {
+      requireCapability('reddit');
+      const env = parseEnv();
+      const maxComments = parseNumber(values['max-comments'], '--max-comments');
+      const params = getRedditPostParamsSchema.parse({
+        urls: positionals,
+        max_comments: maxComments,
+        fetch_comments: !values['no-comments'],
+      });
+      await requireQuota(command, params);
+      const { content, structuredContent } = await handleGetRedditPosts(params.urls, env.REDDIT_CLIENT_ID!, env.REDDIT_CLIENT_SECRET!, params.max_comments, {
+        fetchComments: params.fetch_comments,
+        maxCommentsOverride: maxComments,
+        ...progressLogging(),
+      });
+      return { content, structuredContent, failed: structuredContent.metadata.successful === 0 };
+    }
+
+    case 'research': {
+      requireCapability('deepResearch');
+      const fromFile = values.file ? await readQuestionsFile(values.file) : [];
+      const params = deepResearchParamsSchema.parse({
+        questions: [...fromFile, ...positionals.map(question => ({ question }))],
+      });
+      await requireQuota(command, params);
+      const { content, structuredContent } = await handleDeepResearch(params, {
+        apiKey: parseEnv().RESEARCH_API_KEY,
+        ...progressLogging(),
+      });
+      return { content, structuredContent, failed: !!structuredContent.error || structuredContent.successful === 0 };
+    }
+
+    case 'usage': {
+      const period = values.period ?? 'month';
+      if (period !== 'day' && period !== 'month') {
+        throw new UsageError(`--period must be "day" or "month" (got "${period}")`);
+      }
+      const { content, structuredContent } = await handleUsageReport(period);
+      return { content, structuredContent, failed: false };
+    }
+  }
+}
+
+/**
+ * Run a CLI command and print its output
+ * NEVER throws - errors are printed to stderr
+ * @returns Process exit code
+ */
+export async function runCli(argv: string[]): Promise<number> {
+  const [command, ...rest] = argv;
+
+  if (!isCliCommand(command)) {
+    console.error(USAGE);
+    return 2;
+  }
+
+  try {
+    const { values, positionals } = parseArgs({ args: rest, options: CLI_OPTIONS, allowPositionals: true });
+    if (values.help) {
+      console.log(USAGE);
+      return 0;
+    }
+
+    const result = command === 'usage'
+      ? await runCommand(command, values, positionals)
+      : await runWithUsage({ tool: COMMAND_TOOLS[command], clientId: CLI_CLIENT_ID }, () => runCommand(command, values, positionals));
+    console.log(values.json ? JSON.stringify(result.structuredContent, null, 2) : result.content);
+    return result.failed ? 1 : 0;
+  } catch (error) {
+    if (error instanceof ZodError) {
+      console.error(`❌ Invalid arguments:\n${error.errors.map(e => `  - ${e.message}`).join('\n')}\n\nRun with --help for usage.`);
+      return 2;
+    }
+    // parseArgs throws TypeErrors with ERR_PARSE_ARGS_* codes for unknown or malformed flags
+    if (error instanceof UsageError || (error as { code?: string }).code?.startsWith('ERR_PARSE_ARGS')) {
+      console.error(`❌ ${(error as Error).message}\n\nRun with --help for usage.`);
+      return 2;
+    }
+    if (error instanceof QuotaError) {
+      console.error(`❌ ${error.error.code}: ${error.message}`);
+      return 1;
+    }
+    console.error(`❌ ${command} failed: ${classifyError(error).message}`);
+    return 1;
+  }
+}
@@ -8,11 +8,14 @@ import { REDDIT } from '../config/index.js';
 import { USER_AGENT_VERSION } from '../version.js';
 import {
   classifyError,
-  fetchWithTimeout,
+  createCancelledError,
   sleep,
   ErrorCode,
   type StructuredError,
 } from '../utils/errors.js';
+import { recordError } from '../services/error-stats.js';
+import { fetchWithTimeout } from '../services/fixtures.js';
+import { settleWithLimit } from '../utils/concurrency.js';
 
 interface Post {
   title: string;
@@ -66,10 +69,29 @@ export function calculateCommentAllocation(postCount: number): CommentAllocation
 }
 
 // ============================================================================
-// Module-Level Token Cache (shared across all RedditClient instances)
+// Module-Level Token Cache (shared across RedditClient instances, keyed by client ID)
 // ============================================================================
-let cachedToken: string | null = null;
-let cachedTokenExpiry = 0;
+const tokenCache = new Map<string, { token: string; expiry: number }>();
+
+/**
+ * Forget cached tokens (after a key reload, so rotated credentials re-authenticate)
+ */
+export function clearRedditTokenCache(): void {
+  tokenCache.clear();
+}
+
+/**
+ * Cached tokens for diagnostics - client IDs are masked, tokens never leave this module
+ */
+export function getRedditTokenCacheState(): Array<{ client_id: string; expires_at: string; valid: boolean }> {
+  const now = Date.now();
+  return [...tokenCache.entries()].map(([clientId, { expiry }]) => ({
+    client_id: clientId.length > 4 ? `${clientId.substring(0, 4)}…` : '…',
+    expires_at: new Date(expiry).toISOString(),
+    // Same 60s buffer as auth() - a token inside it is refreshed on the next call
+    valid: now < expiry - 60000,
+  }));
+}
 
 // Token cache logging only when DEBUG env is set
 const DEBUG_TOKEN_CACHE = process.env.DEBUG_REDDIT === 'true';
@@ -86,11 +108,12 @@ export class RedditClient {
    * Uses module-level token cache for sharing across instances
    * Returns null on failure instead of throwing
    */
-  private async auth(): Promise<string | null> {
+  private async auth(signal?: AbortSignal): Promise<string | null> {
     // Return module-cached token if still valid (with 60s buffer)
-    if (cachedToken && Date.now() < cachedTokenExpiry - 60000) {
+    const cached = tokenCache.get(this.clientId);
+    if (cached && Date.now() < cached.expiry - 60000) {
       if (DEBUG_TOKEN_CACHE) console.error('[RedditClient] Token cache HIT');
-      return cachedToken;
+      return cached.token;
     }
 
     if (DEBUG_TOKEN_CACHE) console.error('[RedditClient] Token cache MISS - authenticating');
@@ -98,6 +121,8 @@ export class RedditClient {
     const credentials = Buffer.from(`${this.clientId}:${this.clientSecret}`).toString('base64');
 
     for (let attempt = 0; attempt < 3; attempt++) {
+      if (signal?.aborted) return null;
+
       try {
         const res = await fetchWithTimeout('https://www.reddit.com/api/v1/access_token', {
           method: 'POST',
@@ -108,22 +133,23 @@ export class RedditClient {
           },
           body: 'grant_type=client_credentials',
           timeoutMs: 15000,
+          signal,
         });
 
         if (!res.ok) {
           const text = await res.text().catch(() => '');
           console.error(`[Reddit] Auth failed (${res.status}): ${text}`);
+          recordError('reddit', classifyError({ status: res.status, message: text }));
 
           // 401/403 are not retryable - invalidate cache
           if (res.status === 401 || res.status === 403) {
-            cachedToken = null;
-            cachedTokenExpiry = 0;
+            tokenCache.delete(this.clientId);
             return null;
           }
 
           // Retry on server errors
           if (res.status >= 500 && attempt < 2) {
-            await sleep(REDDIT.RETRY_DELAYS[attempt] || 2000);
+            await sleep(REDDIT.RETRY_DELAYS[attempt] || 2000, signal);
             continue;
           }
 
@@ -133,26 +159,31 @@ export class RedditClient {
         const data = await res.json() as { access_token?: string; expires_in?: number };
         if (!data.access_token) {
           console.error('[Reddit] Auth response missing access_token');
+          recordError('reddit', { code: ErrorCode.AUTH_ERROR, message: 'Auth response missing access_token', retryable: false });
           return null;
         }
 
-        // Update module-level cache (shared across all instances)
-        cachedToken = data.access_token;
-        cachedTokenExpiry = Date.now() + (data.expires_in || 3600) * 1000;
-        return cachedToken;
+        // Update module-level cache (shared across all instances with these credentials)
+        tokenCache.set(this.clientId, {
+          token: data.access_token,
+          expiry: Date.now() + (data.expires_in || 3600) * 1000,
+        });
+        return data.access_token;
 
       } catch (error) {
+        if (signal?.aborted) return null;
+
         const err = classifyError(error);
         console.error(`[Reddit] Auth error (attempt ${attempt + 1}): ${err.message}`);
+        recordError('reddit', err);
 
         // Invalidate cache on auth errors
         if (err.code === ErrorCode.AUTH_ERROR) {
-          cachedToken = null;
-          cachedTokenExpiry = 0;
+          tokenCache.delete(this.clientId);
         }
 
         if (attempt < 2 && err.retryable) {
-          await sleep(REDDIT.RETRY_DELAYS[attempt] || 2000);
+          await sleep(REDDIT.RETRY_DELAYS[attempt] || 2000, signal).catch(() => {});
           continue;
         }
 
@@ -172,14 +203,17 @@ export class RedditClient {
    * Get a single Reddit post with comments
    * Returns PostResult or throws Error (for use with Promise.allSettled)
    */
-  async getPost(url: string, maxComments = 100): Promise<PostResult> {
+  async getPost(url: string, maxComments = 100, signal?: AbortSignal): Promise<PostResult> {
     const parsed = this.parseUrl(url);
     if (!parsed) {
       throw new Error(`Invalid Reddit URL format: ${url}`);
     }
 
     // Auth - returns null on failure
-    const token = await this.auth();
+    const token = await this.auth(signal);
+    if (signal?.aborted) {
+      throw new Error(createCancelledError().message);
+    }
     if (!token) {
       throw new Error('Reddit authentication failed - check credentials');
     }
@@ -188,6 +222,13 @@ export class RedditClient {
     let lastError: StructuredError | null = null;
 
     for (let attempt = 0; attempt < REDDIT.RETRY_COUNT; attempt++) {
+      if (signal?.aborted) {
+        throw new Error(createCancelledError().message);
+      }
+
+      // HTTP errors are recorded where the status is known - not again when their throw is caught
+      let recorded = false;
+
       try {
         const apiUrl = `https://oauth.reddit.com/r/${parsed.sub}/comments/${parsed.id}?sort=top&limit=${limit}&depth=10&raw_json=1`;
 
@@ -197,29 +238,35 @@ export class RedditClient {
             'User-Agent': this.userAgent,
           },
           timeoutMs: 30000,
+          signal,
         });
 
         // Rate limited - always retry with backoff
         if (res.status === 429) {
+          recordError('reddit', classifyError({ status: 429 }));
           const delay = REDDIT.RETRY_DELAYS[attempt] || 32000;
           console.error(`[Reddit] Rate limited. Retry ${attempt + 1}/${REDDIT.RETRY_COUNT} after ${delay}ms`);
-          await sleep(delay);
+          await sleep(delay, signal);
           continue;
         }
 
         // 404 - Post doesn't exist
         if (res.status === 404) {
+          recordError('reddit', classifyError({ status: 404 }));
+          recorded = true;
           throw new Error(`Post not found: ${url}`);
         }
 
         // Other errors
         if (!res.ok) {
           lastError = classifyError({ status: res.status });
+          recordError('reddit', lastError);
+          recorded = true;
 
           if (lastError.retryable && attempt < REDDIT.RETRY_COUNT - 1) {
             const delay = REDDIT.RETRY_DELAYS[attempt] || 2000;
             console.error(`[Reddit] API error ${res.status}. Retry ${attempt + 1}/${REDDIT.RETRY_COUNT}`);
-            await sleep(delay);
+            await sleep(delay, signal);
             continue;
           }
 
@@ -260,7 +307,15 @@ export class RedditClient {
         return { post, comments, allocatedComments: maxComments, actualComments: post.commentCount };
 
       } catch (error) {
+        // Aborted fetch or backoff - stop without retrying
+        if (signal?.aborted) {
+          throw new Error(createCancelledError().message);
+        }
+
         lastError = classifyError(error);
+        if (!recorded) {
+          recordError('reddit', lastError);
+        }
 
         // Don't retry non-retryable errors
         if (!lastError.retryable) {
@@ -270,7 +325,7 @@ export class RedditClient {
         if (attempt < REDDIT.RETRY_COUNT - 1) {
           const delay = REDDIT.RETRY_DELAYS[attempt] || 2000;
           console.error(`[Reddit] ${lastError.code}: ${lastError.message}. Retry ${attempt + 1}/${REDDIT.RETRY_COUNT}`);
-          await sleep(delay);
+          await sleep(delay, signal).catch(() => {});
         }
       }
     }
@@ -314,21 +369,23 @@ export class RedditClient {
     return result;
   }
 
-  async getPosts(urls: string[], maxComments = 100): Promise<Map<string, PostResult | Error>> {
+  async getPosts(urls: string[], maxComments = 100, signal?: AbortSignal): Promise<Map<string, PostResult | Error>> {
     if (urls.length <= REDDIT.BATCH_SIZE) {
-      const results = await Promise.all(
-        urls.map(u => this.getPost(u, maxComments).catch(e => e as Error))
-      );
-      return new Map(urls.map((u, i) => [u, results[i]]));
+      const results = await settleWithLimit(urls, REDDIT.MAX_CONCURRENT, u => this.getPost(u, maxComments, signal));
+      return new Map(urls.map((u, i) => {
+        const result = results[i]!;
+        return [u, result.status === 'fulfilled' ? result.value : result.reason as Error];
+      }));
     }
-    return (await this.batchGetPosts(urls, maxComments)).results;
+    return (await this.batchGetPosts(urls, maxComments, true, undefined, signal)).results;
   }
 
   async batchGetPosts(
     urls: string[],
     maxCommentsOverride?: number,
     fetchComments = true,
-    onBatchComplete?: (batchNum: number, totalBatches: number, processed: number) => void
+    onBatchComplete?: (batchNum: number, totalBatches: number, processed: number) => void,
+    signal?: AbortSignal
   ): Promise<BatchPostResult> {
     const totalBatches = Math.ceil(urls.length / REDDIT.BATCH_SIZE);
     const allResults = new Map<string, PostResult | Error>();
@@ -343,11 +400,19 @@ export class RedditClient {
       const startIdx = batchNum * REDDIT.BATCH_SIZE;
       const batchUrls = urls.slice(startIdx, startIdx + REDDIT.BATCH_SIZE);
 
+      // Cancelled - don't start the remaining batches
+      if (signal?.aborted) {
+        console.error(`[Reddit] Cancelled before batch ${batchNum + 1}/${totalBatches}`);
+        for (const url of urls.slice(startIdx)) {
+          allResults.set(url, new Error(createCancelledError().message));
+        }
+        break;
+      }
+
       console.error(`[Reddit] Batch ${batchNum + 1}/${totalBatches} (${batchUrls.length} posts)`);
 
-      const batchResults = await Promise.allSettled(
-        batchUrls.map(url => this.getPost(url, commentsPerPost))
-      );
+      // At most MAX_CONCURRENT requests in flight - settleWithLimit never throws
+      const batchResults = await settleWithLimit(batchUrls, REDDIT.MAX_CONCURRENT, url => this.getPost(url, commentsPerPost, signal));
 
       for (let i = 0; i < batchResults.length; i++) {
         const result = batchResults[i];
@@ -373,7 +438,7 @@ export class RedditClient {
 
       // Small delay between batches
       if (batchNum < totalBatches - 1) {
-        await sleep(500);
+        await sleep(500, signal).catch(() => {});
       }
     }
 
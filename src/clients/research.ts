@@ -5,13 +5,17 @@
  */
 
 import OpenAI from 'openai';
-import { RESEARCH } from '../config/index.js';
+import { RESEARCH, parseEnv } from '../config/index.js';
 import {
   classifyError,
+  createCancelledError,
   sleep,
   ErrorCode,
   type StructuredError,
 } from '../utils/errors.js';
+import { recordError } from '../services/error-stats.js';
+import { reserveQuota, type QuotaReservation } from '../services/usage-ledger.js';
+import { openAIFetch } from '../services/fixtures.js';
 
 interface ResearchParams {
   question: string;
@@ -23,6 +27,23 @@ interface ResearchParams {
   responseFormat?: { type: 'json_object' | 'text' };
 }
 
+type ResearchMessages = Array<{ role: 'system' | 'user'; content: string }>;
+
+interface ResearchOptions {
+  temperature: number;
+  reasoningEffort: 'low' | 'medium' | 'high';
+  maxTokens: number;
+  maxSearchResults: number;
+  responseFormat?: { type: 'json_object' | 'text' };
+}
+
+interface ResearchControl {
+  // Aborts the in-flight completion and pending retries (MCP cancellation)
+  signal?: AbortSignal;
+  // Retry and model-fallback notices for progress reporting
+  onStatus?: (message: string) => void;
+}
+
 export interface ResearchResponse {
   id: string;
   model: string;
@@ -45,14 +66,6 @@ export interface ResearchResponse {
   error?: StructuredError;
 }
 
-// Research-specific retry configuration
-// Research requests can be long-running, so we use longer delays
-const RESEARCH_RETRY_CONFIG = {
-  maxRetries: 3, // 3 retries for robustness on transient failures
-  baseDelayMs: 5000, // Longer base delay
-  maxDelayMs: 60000,
-} as const;
-
 // Retryable status codes for research API
 const RETRYABLE_RESEARCH_CODES = new Set([429, 500, 502, 503, 504]);
 
@@ -71,19 +84,32 @@ function isGeminiStyleModel(model: string): boolean {
   return GEMINI_STYLE_MODELS.has(model) || model.startsWith('google/gemini');
 }
 
+/**
+ * Invoke a status hook - NEVER throws
+ */
+function notify(control: ResearchControl, message: string): void {
+  try {
+    control.onStatus?.(message);
+  } catch (hookError) {
+    console.error(`[Research] Status hook error:`, hookError);
+  }
+}
+
 export class ResearchClient {
   private client: OpenAI;
 
-  constructor() {
-    if (!RESEARCH.API_KEY) {
+  constructor(apiKey?: string) {
+    const key = apiKey || parseEnv().RESEARCH_API_KEY;
+    if (!key) {
       throw new Error('OPENROUTER_API_KEY is required for research');
     }
 
     this.client = new OpenAI({
       baseURL: RESEARCH.BASE_URL,
-      apiKey: RESEARCH.API_KEY,
+      apiKey: key,
       timeout: RESEARCH.TIMEOUT_MS,
       maxRetries: 0, // We handle retries ourselves
+      fetch: openAIFetch,
     });
   }
 
@@ -123,9 +149,9 @@ export class ResearchClient {
    * Calculate backoff for research retries
    */
   private calculateBackoff(attempt: number): number {
-    const exponentialDelay = RESEARCH_RETRY_CONFIG.baseDelayMs * Math.pow(2, attempt);
+    const exponentialDelay = RESEARCH.RETRY_BASE_DELAY_MS * Math.pow(2, attempt);
     const jitter = Math.random() * 0.3 * exponentialDelay;
-    return Math.min(exponentialDelay + jitter, RESEARCH_RETRY_CONFIG.maxDelayMs);
+    return Math.min(exponentialDelay + jitter, RESEARCH.RETRY_MAX_DELAY_MS);
   }
 
   /**
@@ -134,14 +160,8 @@ export class ResearchClient {
    */
   private buildRequestPayload(
     model: string,
-    messages: Array<{ role: 'system' | 'user'; content: string }>,
-    options: {
-      temperature: number;
-      reasoningEffort: 'low' | 'medium' | 'high';
-      maxTokens: number;
-      maxSearchResults: number;
-      responseFormat?: { type: 'json_object' | 'text' };
-    }
+    messages: ResearchMessages,
+    options: ResearchOptions
   ): Record<string, unknown> {
     const { temperature, reasoningEffort, maxTokens, maxSearchResults, responseFormat } = options;
 
@@ -190,26 +210,29 @@ export class ResearchClient {
    */
   private async executeResearch(
     model: string,
-    messages: Array<{ role: 'system' | 'user'; content: string }>,
-    options: {
-      temperature: number;
-      reasoningEffort: 'low' | 'medium' | 'high';
-      maxTokens: number;
-      maxSearchResults: number;
-      responseFormat?: { type: 'json_object' | 'text' };
-    }
+    messages: ResearchMessages,
+    options: ResearchOptions,
+    reservation: QuotaReservation,
+    control: ResearchControl = {}
   ): Promise<ResearchResponse> {
     const requestPayload = this.buildRequestPayload(model, messages, options);
     let lastError: StructuredError | undefined;
 
     // Retry loop for this model
-    for (let attempt = 0; attempt <= RESEARCH_RETRY_CONFIG.maxRetries; attempt++) {
+    for (let attempt = 0; attempt <= RESEARCH.MAX_RETRIES; attempt++) {
+      if (control.signal?.aborted) {
+        lastError = createCancelledError();
+        break;
+      }
+
       try {
         if (attempt > 0) {
-          console.error(`[Research] Retry attempt ${attempt}/${RESEARCH_RETRY_CONFIG.maxRetries} for ${model}`);
+          console.error(`[Research] Retry attempt ${attempt}/${RESEARCH.MAX_RETRIES} for ${model}`);
+          notify(control, `Retry ${attempt}/${RESEARCH.MAX_RETRIES} with ${model}`);
         }
 
-        const response = await this.client.chat.completions.create(requestPayload as any);
+        const response = await this.client.chat.completions.create(requestPayload as any, { signal: control.signal });
+        reservation.record({ openrouter: response.usage?.total_tokens });
         const choice = response.choices?.[0];
         const message = choice?.message as any;
 
@@ -220,11 +243,12 @@ export class ResearchClient {
             message: 'Research API returned empty response',
             retryable: true,
           };
+          recordError('research', lastError);
 
-          if (attempt < RESEARCH_RETRY_CONFIG.maxRetries) {
+          if (attempt < RESEARCH.MAX_RETRIES) {
             const delayMs = this.calculateBackoff(attempt);
             console.error(`[Research] Empty response, retrying in ${delayMs}ms...`);
-            await sleep(delayMs);
+            await sleep(delayMs, control.signal);
             continue;
           }
         }
@@ -251,7 +275,14 @@ export class ResearchClient {
         };
 
       } catch (error: unknown) {
+        // Aborted completion or backoff - stop without retrying
+        if (control.signal?.aborted) {
+          lastError = createCancelledError();
+          break;
+        }
+
         lastError = classifyError(error);
+        recordError('research', lastError);
 
         const err = error as { status?: number; message?: string };
         console.error(`[Research] Error with ${model} (attempt ${attempt + 1}): ${lastError.message}`, {
@@ -259,10 +290,10 @@ export class ResearchClient {
         });
 
         // Check if we should retry
-        if (this.isRetryableError(error) && attempt < RESEARCH_RETRY_CONFIG.maxRetries) {
+        if (this.isRetryableError(error) && attempt < RESEARCH.MAX_RETRIES) {
           const delayMs = this.calculateBackoff(attempt);
           console.error(`[Research] Retrying in ${delayMs}ms...`);
-          await sleep(delayMs);
+          await sleep(delayMs, control.signal).catch(() => {});
           continue;
         }
 
@@ -290,7 +321,7 @@ export class ResearchClient {
    * Returns a ResearchResponse - may contain error field on failure
    * NEVER throws - always returns a valid response object
    */
-  async research(params: ResearchParams): Promise<ResearchResponse> {
+  async research(params: ResearchParams, control: ResearchControl = {}): Promise<ResearchResponse> {
     const {
       question,
       systemPrompt,
@@ -316,7 +347,13 @@ export class ResearchClient {
       };
     }
 
-    const messages: Array<{ role: 'system' | 'user'; content: string }> = [];
+    // Checked once per question - a refused primary model must not fall through to the fallback
+    const { reservation, error: quotaError } = await reserveQuota({ openrouter: maxTokens });
+    if (quotaError) {
+      return { id: '', model: RESEARCH.MODEL, created: Date.now(), content: `Research refused: ${quotaError.message}`, error: quotaError };
+    }
+
+    const messages: ResearchMessages = [];
     if (systemPrompt) {
       messages.push({ role: 'system', content: systemPrompt });
     }
@@ -324,18 +361,41 @@ export class ResearchClient {
 
     const options = { temperature, reasoningEffort, maxTokens, maxSearchResults, responseFormat };
 
+    try {
+      return await this.researchWithFallback(messages, options, reservation, control);
+    } finally {
+      reservation.release();
+    }
+  }
+
+  /**
+   * Run the primary model, then the fallback model if the primary failed
+   * NEVER throws
+   */
+  private async researchWithFallback(
+    messages: ResearchMessages,
+    options: ResearchOptions,
+    reservation: QuotaReservation,
+    control: ResearchControl
+  ): Promise<ResearchResponse> {
     // Try primary model first
     console.error(`[Research] Trying primary model: ${RESEARCH.MODEL}`);
-    const primaryResult = await this.executeResearch(RESEARCH.MODEL, messages, options);
+    const primaryResult = await this.executeResearch(RESEARCH.MODEL, messages, options, reservation, control);
 
     if (!primaryResult.error) {
       return primaryResult;
     }
 
+    // Cancelled - the fallback model would only spend more credits
+    if (primaryResult.error.code === ErrorCode.CANCELLED) {
+      return { ...primaryResult, content: `Research cancelled: ${primaryResult.error.message}` };
+    }
+
     // Primary failed - try fallback model if different
     if (RESEARCH.FALLBACK_MODEL && RESEARCH.FALLBACK_MODEL !== RESEARCH.MODEL) {
       console.error(`[Research] Primary model failed, trying fallback: ${RESEARCH.FALLBACK_MODEL}`);
-      const fallbackResult = await this.executeResearch(RESEARCH.FALLBACK_MODEL, messages, options);
+      notify(control, `${RESEARCH.MODEL} failed (${primaryResult.error?.message}), trying fallback ${RESEARCH.FALLBACK_MODEL}`);
+      const fallbackResult = await this.executeResearch(RESEARCH.FALLBACK_MODEL, messages, options, reservation, control);
 
       if (!fallbackResult.error) {
         return fallbackResult;
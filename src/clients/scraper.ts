@@ -7,17 +7,27 @@
 import { parseEnv, SCRAPER } from '../config/index.js';
 import {
   classifyError,
-  fetchWithTimeout,
+  createCancelledError,
   sleep,
   ErrorCode,
   type StructuredError,
 } from '../utils/errors.js';
+import { recordError } from '../services/error-stats.js';
+import { fetchWithTimeout } from '../services/fixtures.js';
+import { reserveQuota, type QuotaReservation } from '../services/usage-ledger.js';
+import { DiskCache } from '../services/disk-cache.js';
+import { settleWithLimit } from '../utils/concurrency.js';
+
+type ScrapeMode = 'basic' | 'javascript';
 
 interface ScrapeRequest {
   url: string;
-  mode?: 'basic' | 'javascript';
+  mode?: ScrapeMode;
   timeout?: number;
   country?: string;
+  signal?: AbortSignal;
+  // Forwarded to the target site (conditional revalidation)
+  headers?: Record<string, string>;
 }
 
 interface ScrapeResponse {
@@ -26,6 +36,28 @@ interface ScrapeResponse {
   credits: number;
   headers?: Record<string, string>;
   error?: StructuredError;
+  // Set when the content came from the cache - 'revalidated' means the site answered 304 Not Modified
+  cached?: 'hit' | 'revalidated';
+  // ISO time the cached content was fetched
+  cachedAt?: string;
+}
+
+interface ScrapeOptions {
+  timeout?: number;
+  // Aborts in-flight requests and pending retries (MCP cancellation)
+  signal?: AbortSignal;
+  // Called before each fallback mode is tried (after the previous one failed)
+  onFallback?: (url: string, description: string, reason: string) => void;
+  // Called as each URL finishes (success or failure)
+  onUrlComplete?: (url: string, result: ScrapeResponse) => void;
+  // Skip cached pages (fresh ones are still cached)
+  fresh?: boolean;
+}
+
+interface FallbackAttempt {
+  mode: ScrapeMode;
+  country?: string;
+  description: string;
 }
 
 interface BatchScrapeResult {
@@ -40,6 +72,139 @@ const RETRYABLE_STATUS_CODES = new Set([429, 502, 503, 504, 510]);
 // Status codes that are permanent failures (don't retry)
 const PERMANENT_FAILURE_CODES = new Set([400, 401, 403]);
 
+// Scrape.do credits per request
+const MODE_CREDITS: Record<ScrapeMode, number> = { basic: 1, javascript: 5 };
+
+const FALLBACK_ATTEMPTS: readonly FallbackAttempt[] = [
+  { mode: 'basic', description: 'basic mode' },
+  { mode: 'javascript', description: 'javascript rendering' },
+  { mode: 'javascript', country: 'us', description: 'javascript + US geo-targeting' },
+];
+
+// ============================================================================
+// Page Cache (on disk, shared across sessions)
+// ============================================================================
+
+interface CachedPage {
+  content: string;
+  statusCode: number;
+  // Fallback mode that fetched it - revalidation uses the same one
+  mode: ScrapeMode;
+  country?: string;
+  etag?: string;
+  lastModified?: string;
+}
+
+const pageCache = new DiskCache<CachedPage>('scrape');
+// Hostname -> fallback mode that last worked there
+const domainModes = new DiskCache<Pick<FallbackAttempt, 'mode' | 'country'>>('scrape-modes');
+
+const TRACKING_PARAM = /^(utm_|fbclid$|gclid$)/i;
+
+/**
+ * Cache key for a URL - fragment and tracking parameters dropped, query parameters sorted
+ */
+function pageCacheKey(url: string): string {
+  try {
+    const parsed = new URL(url);
+    parsed.hash = '';
+    const params = [...parsed.searchParams].filter(([name]) => !TRACKING_PARAM.test(name));
+    params.sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    parsed.search = new URLSearchParams(params).toString();
+    return parsed.toString();
+  } catch {
+    return url;
+  }
+}
+
+/**
+ * Whether a cached page can be served without asking the site again
+ */
+function isFresh(storedAt: number): boolean {
+  return Date.now() - storedAt < SCRAPER.CACHE_TTL_MS;
+}
+
+/**
+ * Store a successful scrape - pages with validators are kept longer so they can be revalidated
+ */
+async function cachePage(url: string, result: ScrapeResponse, attempt: Pick<FallbackAttempt, 'mode' | 'country'>): Promise<void> {
+  if (SCRAPER.CACHE_TTL_MS <= 0) return;
+  const etag = result.headers?.['etag'];
+  const lastModified = result.headers?.['last-modified'];
+  const ttlMs = etag || lastModified ? Math.max(SCRAPER.CACHE_TTL_MS, SCRAPER.CACHE_REVALIDATE_MS) : SCRAPER.CACHE_TTL_MS;
+  await pageCache.set(
+    pageCacheKey(url),
+    { content: result.content, statusCode: result.statusCode, mode: attempt.mode, country: attempt.country, etag, lastModified },
+    ttlMs
+  );
+}
+
+/**
+ * Whether a stale cached page can be checked with a conditional request instead of a full scrape
+ */
+function canRevalidate(page: CachedPage): boolean {
+  return SCRAPER.CACHE_REVALIDATE_MS > 0 && Boolean(page.etag || page.lastModified);
+}
+
+/**
+ * Scrape.do credits for the URLs not served fresh from the cache - for usage estimates
+ * Each URL is priced in the mode its first request uses: the cached copy's mode for a revalidation,
+ * otherwise the mode remembered for its domain. Further fallbacks are checked per request
+ */
+export async function estimateScrapeCredits(urls: string[], options: { fresh?: boolean } = {}): Promise<number> {
+  const credits = await Promise.all(urls.map(async url => {
+    const entry = options.fresh ? undefined : await pageCache.get(pageCacheKey(url));
+    if (entry && isFresh(entry.storedAt)) return 0;
+    if (entry && canRevalidate(entry.value)) return MODE_CREDITS[entry.value.mode];
+    const [first] = await fallbackOrder(url);
+    return MODE_CREDITS[first?.mode ?? 'basic'];
+  }));
+  return credits.reduce((sum, value) => sum + value, 0);
+}
+
+/**
+ * Fallback order for a URL - the mode that last worked for its domain goes first
+ */
+async function fallbackOrder(url: string): Promise<FallbackAttempt[]> {
+  const remembered = (await domainModes.get(hostnameOf(url)))?.value;
+  const first = remembered
+    ? FALLBACK_ATTEMPTS.find(attempt => attempt.mode === remembered.mode && attempt.country === remembered.country)
+    : undefined;
+  return first ? [first, ...FALLBACK_ATTEMPTS.filter(attempt => attempt !== first)] : [...FALLBACK_ATTEMPTS];
+}
+
+async function rememberMode(url: string, attempt: FallbackAttempt): Promise<void> {
+  const host = hostnameOf(url);
+  const remembered = (await domainModes.get(host))?.value;
+  if (remembered?.mode === attempt.mode && remembered.country === attempt.country) return;
+  await domainModes.set(host, { mode: attempt.mode, country: attempt.country }, SCRAPER.DOMAIN_MODE_TTL_MS);
+}
+
+function hostnameOf(url: string): string {
+  try {
+    return new URL(url).hostname;
+  } catch {
+    return url;
+  }
+}
+
+// 499 = client closed request (nginx convention) - no credits are charged
+function cancelledResponse(): ScrapeResponse {
+  const error = createCancelledError();
+  return { content: `Error: ${error.message}`, statusCode: 499, credits: 0, error };
+}
+
+/**
+ * Invoke a progress hook - NEVER throws
+ */
+function safeHook<A extends unknown[]>(hook: ((...args: A) => void) | undefined, ...args: A): void {
+  try {
+    hook?.(...args);
+  } catch (hookError) {
+    console.error(`[Scraper] Progress hook error:`, hookError);
+  }
+}
+
 export class ScraperClient {
   private apiKey: string;
   private baseURL = 'https://api.scrape.do';
@@ -58,8 +223,8 @@ export class ScraperClient {
    * NEVER throws - always returns a ScrapeResponse (possibly with error)
    */
   async scrape(request: ScrapeRequest, maxRetries = SCRAPER.RETRY_COUNT): Promise<ScrapeResponse> {
-    const { url, mode = 'basic', timeout = 30, country } = request;
-    const credits = mode === 'javascript' ? 5 : 1;
+    const { url, mode = 'basic', timeout = 30, country, signal, headers } = request;
+    const credits = MODE_CREDITS[mode];
 
     // Validate URL first
     try {
@@ -87,17 +252,51 @@ export class ScraperClient {
       params.append('geoCode', country.toUpperCase());
     }
 
+    if (headers) {
+      params.append('customHeaders', 'true');
+    }
+
     const apiUrl = `${this.baseURL}?${params.toString()}`;
+
+    // 402 - refused locally, nothing is sent to Scrape.do
+    const { reservation, error: quotaError } = await reserveQuota({ scrapedo: credits });
+    if (quotaError) {
+      return { content: `Error: ${quotaError.message}`, statusCode: 402, credits: 0, error: quotaError };
+    }
+
+    try {
+      return await this.requestWithRetries(apiUrl, { headers, timeout, credits, signal }, maxRetries, reservation);
+    } finally {
+      reservation.release();
+    }
+  }
+
+  /**
+   * Send one Scrape.do request, retrying transient failures - credits are recorded against the reservation
+   * NEVER throws
+   */
+  private async requestWithRetries(
+    apiUrl: string,
+    request: Pick<ScrapeRequest, 'headers' | 'signal'> & { timeout: number; credits: number },
+    maxRetries: number,
+    reservation: QuotaReservation
+  ): Promise<ScrapeResponse> {
+    const { headers, timeout, credits, signal } = request;
     let lastError: StructuredError | undefined;
 
     for (let attempt = 0; attempt < maxRetries; attempt++) {
+      if (signal?.aborted) {
+        return cancelledResponse();
+      }
+
       try {
         // Use AbortController for timeout
         const timeoutMs = (timeout + 10) * 1000; // Add 10s buffer over scrape timeout
         const response = await fetchWithTimeout(apiUrl, {
           method: 'GET',
-          headers: { Accept: 'text/html,application/json' },
+          headers: { Accept: 'text/html,application/json', ...headers },
           timeoutMs,
+          signal,
         });
 
         // Safely read response body
@@ -110,6 +309,7 @@ export class ScraperClient {
 
         // SUCCESS: 2xx - Successful API call
         if (response.ok) {
+          reservation.record({ scrapedo: credits });
           return {
             content,
             statusCode: response.status,
@@ -118,8 +318,20 @@ export class ScraperClient {
           };
         }
 
+        // 304 - Conditional request matched, the caller's copy is current
+        if (response.status === 304) {
+          reservation.record({ scrapedo: credits });
+          return {
+            content: '',
+            statusCode: 304,
+            credits,
+            headers: Object.fromEntries(response.headers.entries()),
+          };
+        }
+
         // 404 - Target not found (permanent, but not an error for our purposes)
         if (response.status === 404) {
+          reservation.record({ scrapedo: credits });
           return {
             content: '404 - Page not found',
             statusCode: 404,
@@ -132,16 +344,18 @@ export class ScraperClient {
           const errorMsg = response.status === 401
             ? 'No credits remaining or subscription suspended'
             : `Request failed with status ${response.status}`;
+          const permanentError: StructuredError = {
+            code: response.status === 401 ? ErrorCode.AUTH_ERROR : ErrorCode.INVALID_INPUT,
+            message: errorMsg,
+            retryable: false,
+            statusCode: response.status,
+          };
+          recordError('scraper', permanentError);
           return {
             content: `Error: ${errorMsg}`,
             statusCode: response.status,
             credits: 0,
-            error: {
-              code: response.status === 401 ? ErrorCode.AUTH_ERROR : ErrorCode.INVALID_INPUT,
-              message: errorMsg,
-              retryable: false,
-              statusCode: response.status,
-            },
+            error: permanentError,
           };
         }
 
@@ -155,19 +369,21 @@ export class ScraperClient {
           };
 
           if (attempt < maxRetries - 1) {
+            recordError('scraper', lastError);
             const delayMs = this.calculateBackoff(attempt);
             console.error(`[Scraper] ${response.status} on attempt ${attempt + 1}/${maxRetries}. Retrying in ${delayMs}ms`);
-            await sleep(delayMs);
+            await sleep(delayMs, signal);
             continue;
           }
         }
 
         // Other non-success status - treat as retryable
         lastError = classifyError({ status: response.status, message: content });
+        recordError('scraper', lastError);
         if (attempt < maxRetries - 1 && lastError.retryable) {
           const delayMs = this.calculateBackoff(attempt);
           console.error(`[Scraper] Status ${response.status}. Retrying in ${delayMs}ms`);
-          await sleep(delayMs);
+          await sleep(delayMs, signal);
           continue;
         }
 
@@ -180,7 +396,13 @@ export class ScraperClient {
         };
 
       } catch (error) {
+        // Aborted fetch or backoff - stop without retrying
+        if (signal?.aborted) {
+          return cancelledResponse();
+        }
+
         lastError = classifyError(error);
+        recordError('scraper', lastError);
 
         // Non-retryable errors - return immediately
         if (!lastError.retryable) {
@@ -196,7 +418,8 @@ export class ScraperClient {
         if (attempt < maxRetries - 1) {
           const delayMs = this.calculateBackoff(attempt);
           console.error(`[Scraper] ${lastError.code}: ${lastError.message}. Retry ${attempt + 1}/${maxRetries} in ${delayMs}ms`);
-          await sleep(delayMs);
+          // Resolves early on abort - the next attempt returns cancelled
+          await sleep(delayMs, signal).catch(() => {});
           continue;
         }
       }
@@ -221,26 +444,43 @@ export class ScraperClient {
   }
 
   /**
-   * Scrape with automatic fallback through different modes
+   * Scrape with automatic fallback through different modes - served from the cache when possible
+   * Starts with the mode that last worked for the URL's domain
    * NEVER throws - always returns a ScrapeResponse
    */
-  async scrapeWithFallback(url: string, options: { timeout?: number } = {}): Promise<ScrapeResponse> {
-    const attempts: Array<{ mode: 'basic' | 'javascript'; country?: string; description: string }> = [
-      { mode: 'basic', description: 'basic mode' },
-      { mode: 'javascript', description: 'javascript rendering' },
-      { mode: 'javascript', country: 'us', description: 'javascript + US geo-targeting' },
-    ];
+  async scrapeWithFallback(url: string, options: ScrapeOptions = {}): Promise<ScrapeResponse> {
+    const entry = options.fresh ? undefined : await pageCache.get(pageCacheKey(url));
+    if (entry) {
+      const cachedAt = new Date(entry.storedAt).toISOString();
+      if (isFresh(entry.storedAt)) {
+        return { content: entry.value.content, statusCode: entry.value.statusCode, credits: 0, cached: 'hit', cachedAt };
+      }
+
+      const revalidated = await this.revalidate(url, entry.value, options);
+      if (revalidated?.statusCode === 304) {
+        // Same validators - the stored copy is good for another TTL
+        await pageCache.set(pageCacheKey(url), entry.value, Math.max(SCRAPER.CACHE_TTL_MS, SCRAPER.CACHE_REVALIDATE_MS));
+        return { content: entry.value.content, statusCode: entry.value.statusCode, credits: revalidated.credits, cached: 'revalidated', cachedAt };
+      }
+      if (revalidated) return revalidated;
+    }
 
+    const attempts = await fallbackOrder(url);
     const attemptResults: string[] = [];
     let lastResult: ScrapeResponse | null = null;
 
     for (const attempt of attempts) {
+      if (attemptResults.length > 0) {
+        safeHook(options.onFallback, url, attempt.description, attemptResults[attemptResults.length - 1]!);
+      }
+
       // scrape() never throws, so no try-catch needed
       const result = await this.scrape({
         url,
         mode: attempt.mode,
         timeout: options.timeout,
         country: attempt.country,
+        signal: options.signal,
       });
 
       lastResult = result;
@@ -250,6 +490,8 @@ export class ScraperClient {
         if (attemptResults.length > 0) {
           console.error(`[Scraper] Success with ${attempt.description} after ${attemptResults.length} fallback(s)`);
         }
+        await cachePage(url, result, attempt);
+        await rememberMode(url, attempt);
         return result;
       }
 
@@ -283,30 +525,81 @@ export class ScraperClient {
     };
   }
 
+  /**
+   * Conditional request for a stale cached page, in the mode that fetched it
+   * Returns the 304 or a final result (new content, 404, non-retryable error) -
+   * undefined when the page has no validators or the request failed and the fallback chain should run
+   * NEVER throws
+   */
+  private async revalidate(url: string, page: CachedPage, options: ScrapeOptions): Promise<ScrapeResponse | undefined> {
+    if (!canRevalidate(page)) return undefined;
+
+    const headers: Record<string, string> = {};
+    if (page.etag) headers['If-None-Match'] = page.etag;
+    if (page.lastModified) headers['If-Modified-Since'] = page.lastModified;
+
+    const result = await this.scrape({
+      url,
+      mode: page.mode,
+      timeout: options.timeout,
+      country: page.country,
+      signal: options.signal,
+      headers,
+    });
+
+    if (result.statusCode === 304) return result;
+
+    if (result.statusCode >= 200 && result.statusCode < 300 && !result.error) {
+      // Scrape.do may not hand the origin's 304 back as one - an empty 2xx must not replace the cached copy
+      if (!result.content.trim()) {
+        console.error(`[Scraper] Empty ${result.statusCode} revalidating ${url}, refetching...`);
+        return undefined;
+      }
+      await cachePage(url, result, page);
+      return result;
+    }
+
+    if (result.statusCode === 404) {
+      await pageCache.delete(pageCacheKey(url));
+      return result;
+    }
+
+    if (result.error && !result.error.retryable) return result;
+
+    console.error(`[Scraper] Revalidation failed for ${url} (${result.statusCode}), refetching...`);
+    return undefined;
+  }
+
   /**
    * Scrape multiple URLs with batching
    * NEVER throws - always returns results array
    */
-  async scrapeMultiple(urls: string[], options: { timeout?: number } = {}): Promise<Array<ScrapeResponse & { url: string }>> {
+  async scrapeMultiple(
+    urls: string[],
+    options: ScrapeOptions = {},
+    onBatchComplete?: (batchNum: number, totalBatches: number, processed: number) => void
+  ): Promise<Array<ScrapeResponse & { url: string }>> {
     if (urls.length === 0) {
       return [];
     }
 
     if (urls.length <= SCRAPER.BATCH_SIZE) {
-      return this.processBatch(urls, options);
+      const results = await this.processBatch(urls, options);
+      safeHook(onBatchComplete, 1, 1, results.length);
+      return results;
     }
 
-    const result = await this.batchScrape(urls, options);
+    const result = await this.batchScrape(urls, options, onBatchComplete);
     return result.results;
   }
 
   /**
    * Batch scrape with progress callback
-   * NEVER throws - uses Promise.allSettled internally
+   * NEVER throws - settles every URL internally
    */
   async batchScrape(
     urls: string[],
-    options: { timeout?: number } = {},
+    options: ScrapeOptions = {},
     onBatchComplete?: (batchNum: number, totalBatches: number, processed: number) => void
   ): Promise<BatchScrapeResult> {
     const totalBatches = Math.ceil(urls.length / SCRAPER.BATCH_SIZE);
@@ -320,12 +613,19 @@ export class ScraperClient {
       const endIdx = Math.min(startIdx + SCRAPER.BATCH_SIZE, urls.length);
       const batchUrls = urls.slice(startIdx, endIdx);
 
+      // Cancelled - don't start the remaining batches
+      if (options.signal?.aborted) {
+        console.error(`[Scraper] Cancelled before batch ${batchNum + 1}/${totalBatches}`);
+        for (const url of urls.slice(startIdx)) {
+          allResults.push({ ...cancelledResponse(), url });
+        }
+        break;
+      }
+
       console.error(`[Scraper] Processing batch ${batchNum + 1}/${totalBatches} (${batchUrls.length} URLs)`);
 
-      // Promise.allSettled never throws
-      const batchResults = await Promise.allSettled(
-        batchUrls.map(url => this.scrapeWithFallback(url, options))
-      );
+      // At most MAX_CONCURRENT requests in flight - settleWithLimit never throws
+      const batchResults = await settleWithLimit(batchUrls, SCRAPER.MAX_CONCURRENT, url => this.scrapeAndReport(url, options));
 
       for (let i = 0; i < batchResults.length; i++) {
         const result = batchResults[i];
@@ -366,19 +666,28 @@ export class ScraperClient {
 
       // Small delay between batches to avoid overwhelming the API
       if (batchNum < totalBatches - 1) {
-        await sleep(500);
+        await sleep(500, options.signal).catch(() => {});
       }
     }
 
     return { results: allResults, batchesProcessed: totalBatches, totalAttempted: urls.length, rateLimitHits };
   }
 
+  /**
+   * scrapeWithFallback + onUrlComplete notification
+   */
+  private async scrapeAndReport(url: string, options: ScrapeOptions): Promise<ScrapeResponse> {
+    const result = await this.scrapeWithFallback(url, options);
+    safeHook(options.onUrlComplete, url, result);
+    return result;
+  }
+
   /**
    * Process a single batch of URLs
    * NEVER throws
    */
-  private async processBatch(urls: string[], options: { timeout?: number }): Promise<Array<ScrapeResponse & { url: string }>> {
-    const results = await Promise.allSettled(urls.map(url => this.scrapeWithFallback(url, options)));
+  private async processBatch(urls: string[], options: ScrapeOptions): Promise<Array<ScrapeResponse & { url: string }>> {
+    const results = await settleWithLimit(urls, SCRAPER.MAX_CONCURRENT, url => this.scrapeAndReport(url, options));
 
     return results.map((result, index) => {
       const url = urls[index] || '';
@@ -0,0 +1,769 @@
+/**
+ * Search Providers
+ * Backends behind SearchClient - each turns queries into HTTP requests and normalizes
+ * the response into the shared result shape (so aggregateAndRank and CTR scoring work unchanged)
+ * Verticals (news, images, ...) add their own details to that shape - see SearchResult
+ *
+ * Providers only describe requests and parse responses - retries, fallback, quota and
+ * error accounting live in SearchClient.
+ */
+
+import {
+  getSearchProviderCredential,
+  type EnvConfig,
+  type SearchProviderName,
+  type SearchTimeRange,
+  type SearchVertical,
+  type UsageProvider,
+} from '../config/index.js';
+
+export interface SearchResult {
+  title: string;
+  // Page the result points to (images: the page showing the image, places: website or map link)
+  link: string;
+  snippet: string;
+  date?: string;
+  position: number;
+  // Vertical details - set when the provider reports them
+  // Publisher, channel, store or image host
+  source?: string;
+  // Full image (images) or thumbnail (news, videos, shopping)
+  imageUrl?: string;
+  imageWidth?: number;
+  imageHeight?: number;
+  // Videos
+  duration?: string;
+  // Scholar: authors, venue and year as one line
+  publication?: string;
+  citedBy?: number;
+  pdfUrl?: string;
+  // Places
+  address?: string;
+  category?: string;
+  phone?: string;
+  // Places, shopping
+  rating?: number;
+  ratingCount?: number;
+  // Shopping
+  price?: string;
+}
+
+// Market to search - passed through as Serper's gl / hl / location
+export interface SearchLocale {
+  // ISO 3166-1 alpha-2, lower case (jp, de)
+  country?: string;
+  // ISO 639-1, optionally with a region (ja, pt-br)
+  language?: string;
+  // Free-form place name (Tokyo, Japan)
+  location?: string;
+}
+
+export interface ProviderQuery {
+  q: string;
+  // Queries in one request share a vertical and locale
+  vertical: SearchVertical;
+  locale?: SearchLocale;
+  // Results wanted (per page)
+  num: number;
+  // 1-based page of `num` results (default 1)
+  page?: number;
+  // YYYY-MM-DD - each provider maps these to its own date filter
+  dateAfter?: string;
+  dateBefore?: string;
+  // Relative recency - `hour` only goes to providers with an hour filter (supportsDates)
+  timeRange?: SearchTimeRange;
+}
+
+// Google's featured snippet
+export interface AnswerBox {
+  answer?: string;
+  snippet?: string;
+  title?: string;
+  link?: string;
+  date?: string;
+}
+
+export interface KnowledgeGraph {
+  title: string;
+  type?: string;
+  description?: string;
+  link?: string;
+  // "Born": "June 28, 1971", ...
+  attributes: Record<string, string>;
+}
+
+export interface RelatedQuestion {
+  question: string;
+  snippet?: string;
+  link?: string;
+}
+
+export interface TopStory {
+  title: string;
+  link: string;
+  source?: string;
+  date?: string;
+}
+
+export interface ProviderResult {
+  results: SearchResult[];
+  totalResults: number;
+  related: string[];
+  // SERP features - Serper web search only
+  answerBox?: AnswerBox;
+  knowledgeGraph?: KnowledgeGraph;
+  peopleAlsoAsk?: RelatedQuestion[];
+  topStories?: TopStory[];
+}
+
+export interface SearchProvider {
+  readonly name: SearchProviderName;
+  // Verticals it can search - the others skip this provider
+  readonly verticals: readonly SearchVertical[];
+  // Locale fields it honors - a query targeting any other field skips this provider
+  readonly localeFields: readonly (keyof SearchLocale)[];
+  // Deepest page it can fetch - deeper queries skip this provider
+  readonly maxPage: number;
+  // Usage ledger counter billed one unit per query (undefined = free)
+  readonly usage?: UsageProvider;
+  // Queries per HTTP request - Serper takes a batch, the others one query each
+  readonly batchSize: number;
+  // Whether it can apply the date filter - a query it would return unfiltered results for skips this provider
+  supportsDates(vertical: SearchVertical, dates: DateFilter): boolean;
+  request(queries: ProviderQuery[]): { url: string; init: RequestInit };
+  // Results line up with `queries` - throws on a response it can't read
+  parse(data: unknown, queries: ProviderQuery[]): ProviderResult[];
+}
+
+type Json = Record<string, unknown>;
+
+type DateFilter = Pick<ProviderQuery, 'dateAfter' | 'dateBefore' | 'timeRange'>;
+
+function asArray(value: unknown): Json[] {
+  return Array.isArray(value) ? value as Json[] : [];
+}
+
+function asString(value: unknown): string | undefined {
+  return typeof value === 'string' && value ? value : undefined;
+}
+
+function asStrings(value: unknown): string[] {
+  return Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string' && !!item) : [];
+}
+
+function asNumber(value: unknown): number | undefined {
+  if (typeof value === 'number' && Number.isFinite(value)) return value;
+  if (typeof value === 'string' && value.trim()) {
+    const parsed = Number(value.replace(/,/g, ''));
+    return Number.isFinite(parsed) ? parsed : undefined;
+  }
+  return undefined;
+}
+
+function asObject(value: unknown): Json {
+  return value && typeof value === 'object' && !Array.isArray(value) ? value as Json : {};
+}
+
+// Stand-in source for providers that only return the URL
+function hostnameOf(url: string | undefined): string | undefined {
+  if (!url) return undefined;
+  try {
+    return new URL(url).hostname.replace(/^www\./, '');
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * ISO 8601 duration (Bing's PT1H2M3S) as 1:02:03
+ */
+function clockDuration(iso: string | undefined): string | undefined {
+  const match = iso?.match(/^PT(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?$/);
+  if (!match) return iso;
+  const [hours, minutes, seconds] = [match[1], match[2], match[3]].map(part => parseInt(part ?? '0', 10));
+  const mmss = `${String(minutes).padStart(hours ? 2 : 1, '0')}:${String(seconds).padStart(2, '0')}`;
+  return hours ? `${hours}:${mmss}` : mmss;
+}
+
+// Brave and Bing mark query terms with HTML in snippets
+function stripTags(text: string): string {
+  return text.replace(/<[^>]+>/g, '');
+}
+
+/**
+ * Whether a provider can honor every field the locale sets
+ */
+export function supportsLocale(provider: SearchProvider, locale: SearchLocale | undefined): boolean {
+  return Object.entries(locale ?? {}).every(([field, value]) => !value || provider.localeFields.includes(field as keyof SearchLocale));
+}
+
+function hasDateFilter(dates: DateFilter): boolean {
+  return !!(dates.timeRange || dates.dateAfter || dates.dateBefore);
+}
+
+function today(): string {
+  return new Date().toISOString().slice(0, 10);
+}
+
+function daysAgo(days: number): string {
+  return new Date(Date.now() - days * 86400000).toISOString().slice(0, 10);
+}
+
+// Day count behind each relative range - for providers that only take explicit dates (none of them to the hour)
+const TIME_RANGE_DAYS: Partial<Record<SearchTimeRange, number>> = { day: 1, week: 7, month: 31, year: 366 };
+
+// ============================================================================
+// Serper (Google)
+// ============================================================================
+
+// Google's tbs=qdr: codes
+const SERPER_TIME_RANGES: Record<SearchTimeRange, string> = { hour: 'h', day: 'd', week: 'w', month: 'm', year: 'y' };
+
+// Endpoint and response array per vertical
+const SERPER_VERTICALS: Record<SearchVertical, { path: string; key: string }> = {
+  web: { path: 'search', key: 'organic' },
+  news: { path: 'news', key: 'news' },
+  scholar: { path: 'scholar', key: 'organic' },
+  images: { path: 'images', key: 'images' },
+  videos: { path: 'videos', key: 'videos' },
+  places: { path: 'places', key: 'places' },
+  shopping: { path: 'shopping', key: 'shopping' },
+};
+
+function serperResult(item: Json, idx: number, vertical: SearchVertical): SearchResult {
+  const result: SearchResult = {
+    title: asString(item.title) || 'No title',
+    link: asString(item.link) || '#',
+    snippet: asString(item.snippet) || '',
+    date: asString(item.date),
+    position: asNumber(item.position) || idx + 1,
+  };
+
+  switch (vertical) {
+    case 'news':
+      return { ...result, source: asString(item.source), imageUrl: asString(item.imageUrl) };
+    case 'scholar':
+      return {
+        ...result,
+        date: asNumber(item.year)?.toString() ?? result.date,
+        publication: asString(item.publicationInfo),
+        citedBy: asNumber(item.citedBy),
+        pdfUrl: asString(item.pdfUrl),
+      };
+    case 'images':
+      return {
+        ...result,
+        source: asString(item.source) ?? asString(item.domain),
+        imageUrl: asString(item.imageUrl),
+        imageWidth: asNumber(item.imageWidth),
+        imageHeight: asNumber(item.imageHeight),
+      };
+    case 'videos':
+      return {
+        ...result,
+        source: asString(item.channel) ?? asString(item.source),
+        imageUrl: asString(item.imageUrl),
+        duration: asString(item.duration),
+      };
+    case 'places': {
+      // No link field - the website, else the Maps listing
+      const cid = asString(item.cid);
+      return {
+        ...result,
+        link: asString(item.website) ?? (cid ? `https://maps.google.com/?cid=${cid}` : '#'),
+        snippet: asString(item.description) ?? '',
+        address: asString(item.address),
+        category: asString(item.category),
+        phone: asString(item.phoneNumber),
+        rating: asNumber(item.rating),
+        ratingCount: asNumber(item.ratingCount),
+      };
+    }
+    case 'shopping':
+      return {
+        ...result,
+        snippet: asString(item.delivery) ?? '',
+        source: asString(item.source),
+        imageUrl: asString(item.imageUrl),
+        price: asString(item.price),
+        rating: asNumber(item.rating),
+        ratingCount: asNumber(item.ratingCount),
+      };
+    default:
+      return result;
+  }
+}
+
+/**
+ * Answer box, knowledge graph, People Also Ask and top stories - only the ones present
+ */
+function serperFeatures(resp: Json): Pick<ProviderResult, 'answerBox' | 'knowledgeGraph' | 'peopleAlsoAsk' | 'topStories'> {
+  const features: Pick<ProviderResult, 'answerBox' | 'knowledgeGraph' | 'peopleAlsoAsk' | 'topStories'> = {};
+
+  const box = asObject(resp.answerBox);
+  const answerBox: AnswerBox = {
+    answer: asString(box.answer),
+    snippet: asString(box.snippet) ?? (asStrings(box.snippetHighlighted).join(' … ') || undefined),
+    title: asString(box.title),
+    link: asString(box.link),
+    date: asString(box.date),
+  };
+  if (answerBox.answer || answerBox.snippet) features.answerBox = answerBox;
+
+  const graph = asObject(resp.knowledgeGraph);
+  const graphTitle = asString(graph.title);
+  if (graphTitle) {
+    const attributes = Object.fromEntries(
+      Object.entries(asObject(graph.attributes)).filter((entry): entry is [string, string] => typeof entry[1] === 'string')
+    );
+    features.knowledgeGraph = {
+      title: graphTitle,
+      type: asString(graph.type),
+      description: asString(graph.description),
+      link: asString(graph.website) ?? asString(graph.descriptionLink),
+      attributes,
+    };
+  }
+
+  const questions = asArray(resp.peopleAlsoAsk).flatMap(item => {
+    const question = asString(item.question);
+    return question ? [{ question, snippet: asString(item.snippet), link: asString(item.link) }] : [];
+  });
+  if (questions.length > 0) features.peopleAlsoAsk = questions;
+
+  const stories = asArray(resp.topStories).flatMap(item => {
+    const title = asString(item.title);
+    const link = asString(item.link);
+    return title && link ? [{ title, link, source: asString(item.source), date: asString(item.date) }] : [];
+  });
+  if (stories.length > 0) features.topStories = stories;
+
+  return features;
+}
+
+class SerperProvider implements SearchProvider {
+  readonly name = 'serper';
+  readonly usage = 'serper';
+  readonly verticals = Object.keys(SERPER_VERTICALS) as SearchVertical[];
+  readonly localeFields: readonly (keyof SearchLocale)[] = ['country', 'language', 'location'];
+  readonly maxPage = 10;
+  readonly batchSize = 100;
+
+  constructor(private apiKey: string) {}
+
+  supportsDates(): boolean {
+    return true;
+  }
+
+  request(queries: ProviderQuery[]) {
+    // Google's after: / before: operators go into the query itself
+    const body = queries.map(query => ({
+      q: [query.q, query.dateAfter && `after:${query.dateAfter}`, query.dateBefore && `before:${query.dateBefore}`].filter(Boolean).join(' '),
+      num: query.num,
+      ...(query.timeRange ? { tbs: `qdr:${SERPER_TIME_RANGES[query.timeRange]}` } : {}),
+      ...(query.page && query.page > 1 ? { page: query.page } : {}),
+      ...(query.locale?.country ? { gl: query.locale.country } : {}),
+      ...(query.locale?.language ? { hl: query.locale.language } : {}),
+      ...(query.locale?.location ? { location: query.locale.location } : {}),
+    }));
+    return {
+      url: `https://google.serper.dev/${SERPER_VERTICALS[queries[0]!.vertical].path}`,
+      init: {
+        method: 'POST',
+        headers: { 'X-API-KEY': this.apiKey, 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      },
+    };
+  }
+
+  parse(data: unknown, queries: ProviderQuery[]): ProviderResult[] {
+    const responses = Array.isArray(data) ? data as Json[] : [data as Json];
+    return queries.map((query, index) => {
+      const resp = responses[index] ?? {};
+      const results = asArray(resp[SERPER_VERTICALS[query.vertical].key]).map((item, idx) => serperResult(item, idx, query.vertical));
+
+      const searchInfo = resp.searchInformation as Json | undefined;
+      const totalResults = searchInfo?.totalResults
+        ? parseInt(String(searchInfo.totalResults).replace(/,/g, ''), 10)
+        : results.length;
+
+      const related = asArray(resp.relatedSearches).map(r => asString(r.query) || '');
+      return { results, totalResults, related, ...(query.vertical === 'web' ? serperFeatures(resp) : {}) };
+    });
+  }
+}
+
+// ============================================================================
+// Brave Search
+// ============================================================================
+
+// Result cap per vertical endpoint
+const BRAVE_MAX_COUNT: Partial<Record<SearchVertical, number>> = { web: 20, news: 50, images: 100, videos: 50 };
+// Brave's freshness codes - no hour filter
+const BRAVE_TIME_RANGES: Partial<Record<SearchTimeRange, string>> = { day: 'pd', week: 'pw', month: 'pm', year: 'py' };
+// Brave's search_lang codes that differ from ISO 639-1
+const BRAVE_LANGUAGES: Record<string, string> = { ja: 'jp', zh: 'zh-hans', 'zh-cn': 'zh-hans', 'zh-tw': 'zh-hant' };
+
+class BraveProvider implements SearchProvider {
+  readonly name = 'brave';
+  readonly usage = 'brave';
+  readonly verticals = Object.keys(BRAVE_MAX_COUNT) as SearchVertical[];
+  readonly localeFields: readonly (keyof SearchLocale)[] = ['country', 'language'];
+  // offset (in pages) tops out at 9
+  readonly maxPage = 10;
+  readonly batchSize = 1;
+
+  constructor(private apiKey: string) {}
+
+  // No hour filter, and the images endpoint has no freshness filter at all
+  supportsDates(vertical: SearchVertical, dates: DateFilter): boolean {
+    if (dates.timeRange === 'hour') return false;
+    return vertical !== 'images' || !hasDateFilter(dates);
+  }
+
+  request([query]: ProviderQuery[]) {
+    const params = new URLSearchParams({ q: query!.q, count: String(Math.min(query!.num, BRAVE_MAX_COUNT[query!.vertical] ?? 20)) });
+    if (query!.page && query!.page > 1) params.set('offset', String(query!.page - 1));
+    const { country, language } = query!.locale ?? {};
+    if (country) params.set('country', country.toUpperCase());
+    if (language) params.set('search_lang', BRAVE_LANGUAGES[language] ?? language);
+    if (query!.vertical !== 'images') {
+      const freshness = query!.timeRange ? BRAVE_TIME_RANGES[query!.timeRange] : undefined;
+      if (freshness) {
+        params.set('freshness', freshness);
+      } else if (query!.dateAfter || query!.dateBefore) {
+        params.set('freshness', `${query!.dateAfter ?? '1970-01-01'}to${query!.dateBefore ?? today()}`);
+      }
+    }
+    return {
+      url: `https://api.search.brave.com/res/v1/${query!.vertical}/search?${params.toString()}`,
+      init: { method: 'GET', headers: { Accept: 'application/json', 'X-Subscription-Token': this.apiKey } },
+    };
+  }
+
+  parse(data: unknown, [query]: ProviderQuery[]): ProviderResult[] {
+    const resp = data as Json;
+    // Web results sit under "web", the vertical endpoints return them at the top level
+    const items = query!.vertical === 'web' ? asArray(asObject(resp.web).results) : asArray(resp.results);
+    const results = items.map((item, idx) => {
+      const result: SearchResult = {
+        title: stripTags(asString(item.title) || 'No title'),
+        link: asString(item.url) || '#',
+        snippet: stripTags(asString(item.description) || ''),
+        date: asString(item.page_age)?.slice(0, 10) ?? asString(item.age),
+        position: idx + 1,
+      };
+      const thumbnail = asString(asObject(item.thumbnail).src);
+
+      switch (query!.vertical) {
+        case 'news':
+          return { ...result, source: asString(asObject(item.meta_url).hostname), imageUrl: thumbnail };
+        case 'images':
+          return { ...result, source: asString(item.source), imageUrl: asString(asObject(item.properties).url) ?? thumbnail };
+        case 'videos': {
+          const video = asObject(item.video);
+          return {
+            ...result,
+            source: asString(video.creator) ?? asString(video.publisher),
+            imageUrl: thumbnail,
+            duration: asString(video.duration),
+          };
+        }
+        default:
+          return result;
+      }
+    });
+    return [{ results, totalResults: results.length, related: [] }];
+  }
+}
+
+// ============================================================================
+// Tavily
+// ============================================================================
+
+const SITE_OPERATOR = /(?:^|\s)site:(\S+)/gi;
+
+class TavilyProvider implements SearchProvider {
+  readonly name = 'tavily';
+  readonly usage = 'tavily';
+  readonly verticals: readonly SearchVertical[] = ['web', 'news'];
+  // No market targeting - localized queries go to another provider
+  readonly localeFields: readonly (keyof SearchLocale)[] = [];
+  // No pagination - one page of up to 20 results
+  readonly maxPage = 1;
+  readonly batchSize = 1;
+
+  constructor(private apiKey: string) {}
+
+  // No hour filter - day is its smallest range
+  supportsDates(_vertical: SearchVertical, dates: DateFilter): boolean {
+    return dates.timeRange !== 'hour';
+  }
+
+  request([query]: ProviderQuery[]) {
+    // No search operators - site: becomes a domain filter
+    const domains = [...query!.q.matchAll(SITE_OPERATOR)].map(match => match[1]!);
+    const body: Json = {
+      query: query!.q.replace(SITE_OPERATOR, ' ').trim(),
+      max_results: Math.min(query!.num, 20),
+      search_depth: 'basic',
+    };
+    if (domains.length > 0) body.include_domains = domains;
+    if (query!.dateAfter) body.start_date = query!.dateAfter;
+    if (query!.dateBefore) body.end_date = query!.dateBefore;
+    if (query!.timeRange) body.time_range = query!.timeRange;
+    if (query!.vertical === 'news') body.topic = 'news';
+    return {
+      url: 'https://api.tavily.com/search',
+      init: {
+        method: 'POST',
+        headers: { Authorization: `Bearer ${this.apiKey}`, 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      },
+    };
+  }
+
+  parse(data: unknown, [query]: ProviderQuery[]): ProviderResult[] {
+    const resp = data as Json;
+    const results = asArray(resp.results).map((item, idx) => ({
+      title: asString(item.title) || 'No title',
+      link: asString(item.url) || '#',
+      snippet: asString(item.content) || '',
+      date: asString(item.published_date),
+      position: idx + 1,
+      ...(query!.vertical === 'news' ? { source: hostnameOf(asString(item.url)) } : {}),
+    }));
+    return [{ results, totalResults: results.length, related: asStrings(resp.follow_up_questions) }];
+  }
+}
+
+// ============================================================================
+// Bing Web Search
+// ============================================================================
+
+// Bing's freshness values - no hour filter, and a year is a date range
+const BING_TIME_RANGES: Partial<Record<SearchTimeRange, string>> = { day: 'Day', week: 'Week', month: 'Month' };
+
+// Endpoint and result cap per vertical
+const BING_VERTICALS: Partial<Record<SearchVertical, { path: string; maxCount: number }>> = {
+  web: { path: 'search', maxCount: 50 },
+  news: { path: 'news/search', maxCount: 100 },
+  images: { path: 'images/search', maxCount: 150 },
+  videos: { path: 'videos/search', maxCount: 105 },
+};
+
+function bingResult(item: Json, idx: number, vertical: SearchVertical): SearchResult {
+  const result: SearchResult = {
+    title: stripTags(asString(item.name) || 'No title'),
+    link: asString(item.url) || '#',
+    snippet: stripTags(asString(item.snippet) ?? asString(item.description) ?? ''),
+    date: asString(item.datePublished)?.slice(0, 10),
+    position: idx + 1,
+  };
+
+  switch (vertical) {
+    case 'news':
+      return {
+        ...result,
+        source: asString(asArray(item.provider)[0]?.name),
+        imageUrl: asString(asObject(asObject(item.image).thumbnail).contentUrl),
+      };
+    case 'images':
+      return {
+        ...result,
+        link: asString(item.hostPageUrl) || '#',
+        source: asString(item.hostPageDomainFriendlyName) ?? hostnameOf(asString(item.hostPageUrl)),
+        imageUrl: asString(item.contentUrl),
+        imageWidth: asNumber(item.width),
+        imageHeight: asNumber(item.height),
+      };
+    case 'videos':
+      return {
+        ...result,
+        link: asString(item.hostPageUrl) ?? asString(item.contentUrl) ?? '#',
+        source: asString(asObject(item.creator).name) ?? asString(asArray(item.publisher)[0]?.name),
+        imageUrl: asString(item.thumbnailUrl),
+        duration: clockDuration(asString(item.duration)),
+      };
+    default:
+      return result;
+  }
+}
+
+class BingProvider implements SearchProvider {
+  readonly name = 'bing';
+  readonly usage = 'bing';
+  readonly verticals = Object.keys(BING_VERTICALS) as SearchVertical[];
+  readonly localeFields: readonly (keyof SearchLocale)[] = ['country', 'language'];
+  readonly maxPage = 10;
+  readonly batchSize = 1;
+
+  constructor(private apiKey: string) {}
+
+  // No hour filter, and date ranges are web-only - the vertical endpoints take Day/Week/Month, with no year
+  supportsDates(vertical: SearchVertical, dates: DateFilter): boolean {
+    if (dates.timeRange === 'hour') return false;
+    if (vertical === 'web' || !hasDateFilter(dates)) return true;
+    return !dates.dateAfter && !dates.dateBefore && !!BING_TIME_RANGES[dates.timeRange!];
+  }
+
+  request([query]: ProviderQuery[]) {
+    const endpoint = BING_VERTICALS[query!.vertical] ?? BING_VERTICALS.web!;
+    const count = Math.min(query!.num, endpoint.maxCount);
+    const params = new URLSearchParams({ q: query!.q, count: String(count) });
+    if (query!.page && query!.page > 1) params.set('offset', String((query!.page - 1) * count));
+    // Both set = a market (ja-JP), otherwise country and UI language separately
+    const { country, language } = query!.locale ?? {};
+    if (country && language) {
+      params.set('mkt', `${language.split('-')[0]}-${country.toUpperCase()}`);
+    } else if (country) {
+      params.set('cc', country.toUpperCase());
+    } else if (language) {
+      params.set('setLang', language);
+    }
+    if (query!.vertical === 'web') params.set('responseFilter', 'Webpages,RelatedSearches');
+    // supportsDates() keeps `hour` away, and date ranges and `year` off the vertical endpoints
+    const freshness = query!.timeRange ? BING_TIME_RANGES[query!.timeRange] : undefined;
+    if (freshness) {
+      params.set('freshness', freshness);
+    } else if (query!.vertical === 'web') {
+      const days = query!.timeRange ? TIME_RANGE_DAYS[query!.timeRange] : undefined;
+      const after = query!.dateAfter ?? (days ? daysAgo(days) : undefined);
+      if (after || query!.dateBefore) params.set('freshness', `${after ?? '1970-01-01'}..${query!.dateBefore ?? today()}`);
+    }
+    return {
+      url: `https://api.bing.microsoft.com/v7.0/${endpoint.path}?${params.toString()}`,
+      init: { method: 'GET', headers: { 'Ocp-Apim-Subscription-Key': this.apiKey } },
+    };
+  }
+
+  parse(data: unknown, [query]: ProviderQuery[]): ProviderResult[] {
+    const resp = data as Json;
+    // Web results sit under "webPages", the vertical endpoints return them as "value"
+    const container = query!.vertical === 'web' ? asObject(resp.webPages) : resp;
+    const results = asArray(container.value).map((item, idx) => bingResult(item, idx, query!.vertical));
+    const totalResults = asNumber(container.totalEstimatedMatches) ?? results.length;
+    const related = asArray(asObject(resp.relatedSearches).value).map(r => asString(r.text) || '');
+    return [{ results, totalResults, related }];
+  }
+}
+
+// ============================================================================
+// SearXNG (self-hosted metasearch - the instance must allow format=json)
+// ============================================================================
+
+/**
+ * SearXNG only filters by fixed ranges - the smallest one that still reaches back to dateAfter
+ */
+function searxngTimeRange(dateAfter: string): string | undefined {
+  const days = (Date.now() - Date.parse(dateAfter)) / 86400000;
+  if (Number.isNaN(days)) return undefined;
+  if (days <= 1) return 'day';
+  if (days <= 7) return 'week';
+  if (days <= 31) return 'month';
+  if (days <= 366) return 'year';
+  return undefined;
+}
+
+// SearXNG category per vertical
+const SEARXNG_CATEGORIES: Partial<Record<SearchVertical, string>> = {
+  web: 'general',
+  news: 'news',
+  scholar: 'science',
+  images: 'images',
+  videos: 'videos',
+};
+
+function searxngResult(item: Json, idx: number, vertical: SearchVertical): SearchResult {
+  const link = asString(item.url);
+  const result: SearchResult = {
+    title: asString(item.title) || 'No title',
+    link: link || '#',
+    snippet: asString(item.content) || '',
+    date: asString(item.publishedDate)?.slice(0, 10),
+    position: idx + 1,
+  };
+
+  switch (vertical) {
+    case 'news':
+      return { ...result, source: hostnameOf(link), imageUrl: asString(item.thumbnail) };
+    case 'scholar':
+      return {
+        ...result,
+        publication: [asStrings(item.authors).join(', '), asString(item.journal) ?? asString(item.publisher)].filter(Boolean).join(' - ') || undefined,
+        pdfUrl: asString(item.pdf_url),
+      };
+    case 'images': {
+      // "1920 x 1080"
+      const size = asString(item.resolution)?.match(/(\d+)\s*[x×]\s*(\d+)/);
+      return {
+        ...result,
+        source: asString(item.source) ?? hostnameOf(link),
+        imageUrl: asString(item.img_src),
+        imageWidth: size ? parseInt(size[1]!, 10) : undefined,
+        imageHeight: size ? parseInt(size[2]!, 10) : undefined,
+      };
+    }
+    case 'videos':
+      return {
+        ...result,
+        source: asString(item.author) ?? hostnameOf(link),
+        imageUrl: asString(item.thumbnail),
+        duration: asString(item.length),
+      };
+    default:
+      return result;
+  }
+}
+
+class SearxngProvider implements SearchProvider {
+  readonly name = 'searxng';
+  readonly verticals = Object.keys(SEARXNG_CATEGORIES) as SearchVertical[];
+  readonly localeFields: readonly (keyof SearchLocale)[] = ['language'];
+  readonly maxPage = 10;
+  readonly batchSize = 1;
+
+  constructor(private baseURL: string) {}
+
+  // Fixed day/week/month/year ranges - no hour, nothing for date_before, and nothing reaching back more than a year
+  supportsDates(_vertical: SearchVertical, dates: DateFilter): boolean {
+    if (dates.timeRange === 'hour' || dates.dateBefore) return false;
+    return !dates.dateAfter || !!searxngTimeRange(dates.dateAfter);
+  }
+
+  request([query]: ProviderQuery[]) {
+    const params = new URLSearchParams({ q: query!.q, format: 'json', categories: SEARXNG_CATEGORIES[query!.vertical] ?? 'general' });
+    if (query!.locale?.language) params.set('language', query!.locale.language);
+    if (query!.page && query!.page > 1) params.set('pageno', String(query!.page));
+    const timeRange = query!.timeRange ?? (query!.dateAfter ? searxngTimeRange(query!.dateAfter) : undefined);
+    if (timeRange) params.set('time_range', timeRange);
+    return {
+      url: `${this.baseURL.replace(/\/+$/, '')}/search?${params.toString()}`,
+      init: { method: 'GET', headers: { Accept: 'application/json' } },
+    };
+  }
+
+  parse(data: unknown, [query]: ProviderQuery[]): ProviderResult[] {
+    const resp = data as Json;
+    const results = asArray(resp.results).slice(0, query!.num).map((item, idx) => searxngResult(item, idx, query!.vertical));
+    // number_of_results is 0 when the engines don't report it
+    const totalResults = typeof resp.number_of_results === 'number' && resp.number_of_results > 0 ? resp.number_of_results : results.length;
+    return [{ results, totalResults, related: asStrings(resp.suggestions) }];
+  }
+}
+
+/**
+ * Provider instance for a key set - undefined when its credential is missing
+ */
+export function createSearchProvider(name: SearchProviderName, env: EnvConfig): SearchProvider | undefined {
+  const credential = getSearchProviderCredential(env, name);
+  if (!credential) return undefined;
+
+  switch (name) {
+    case 'serper': return new SerperProvider(credential);
+    case 'brave': return new BraveProvider(credential);
+    case 'tavily': return new TavilyProvider(credential);
+    case 'bing': return new BingProvider(credential);
+    case 'searxng': return new SearxngProvider(credential);
+  }
+}
@@ -1,38 +1,73 @@
 /**
  * Web Search Client
- * Generic interface for web search via Google (Serper implementation)
+ * Generic interface for web search - Serper (Google) by default, other backends in search-providers.ts
+ * Falls back to the next configured provider when one fails
  * Implements robust error handling that NEVER crashes
  */
 
-import { parseEnv } from '../config/index.js';
+import {
+  getSearchProviders,
+  parseEnv,
+  SEARCH,
+  type EnvConfig,
+  type SearchProviderName,
+  type SearchTimeRange,
+  type SearchVertical,
+} from '../config/index.js';
 import {
   classifyError,
-  fetchWithTimeout,
+  createCancelledError,
   sleep,
   ErrorCode,
   type StructuredError,
 } from '../utils/errors.js';
-
-interface SearchResult {
-  title: string;
-  link: string;
-  snippet: string;
-  date?: string;
-  position: number;
-}
+import { recordError } from '../services/error-stats.js';
+import { fetchWithTimeout } from '../services/fixtures.js';
+import { reserveQuota, type QuotaReservation, type UsageAmounts } from '../services/usage-ledger.js';
+import { DiskCache, type CacheEntry } from '../services/disk-cache.js';
+import {
+  createSearchProvider,
+  supportsLocale,
+  type AnswerBox,
+  type KnowledgeGraph,
+  type ProviderQuery,
+  type ProviderResult,
+  type RelatedQuestion,
+  type SearchLocale,
+  type SearchProvider,
+  type SearchResult,
+  type TopStory,
+} from './search-providers.js';
 
 export interface KeywordSearchResult {
   keyword: string;
   results: SearchResult[];
   totalResults: number;
   related: string[];
+  // SERP features (Serper web search) - absent when Google showed none
+  answerBox?: AnswerBox;
+  knowledgeGraph?: KnowledgeGraph;
+  peopleAlsoAsk?: RelatedQuestion[];
+  topStories?: TopStory[];
+  // Set when every provider failed for this keyword - or for one of its later pages (results stop short of the depth)
   error?: StructuredError;
+  // Provider that answered (cached results keep the original one)
+  provider?: SearchProviderName;
+  // Market the results are for (see localeKey) - absent for the default locale
+  locale?: string;
+  // Results fetched without a missing page (10 per page) - cached results also serve shallower requests
+  depth?: number;
+  // Set when served from the cache (ISO time the results were fetched)
+  cachedAt?: string;
+  // Related-search round that searched this keyword (0 = the requested keywords) - see searchWithRelated
+  round?: number;
 }
 
 interface MultipleSearchResponse {
   searches: KeywordSearchResult[];
   totalKeywords: number;
   executionTime: number;
+  cacheHits: number;
   error?: StructuredError;
 }
 
@@ -43,26 +78,191 @@ export interface RedditSearchResult {
   date?: string;
 }
 
-// Search retry configuration
-const SEARCH_RETRY_CONFIG = {
-  maxRetries: 2,
-  baseDelayMs: 1000,
-  maxDelayMs: 10000,
-  timeoutMs: 30000,
-} as const;
+export interface RedditQueryResult {
+  results: RedditSearchResult[];
+  cachedAt?: string;
+}
+
+interface SearchOptions {
+  // Skip cached results (fresh ones are still cached)
+  fresh?: boolean;
+  // Market to search (default: the provider's)
+  locale?: SearchLocale;
+}
+
+interface WebSearchOptions extends SearchOptions {
+  // Results page to search (default web)
+  vertical?: SearchVertical;
+  // Results per keyword, fetched a page at a time (default one page)
+  depth?: number;
+  // Recency - an explicit YYYY-MM-DD range, or a range relative to now
+  dateAfter?: string;
+  dateBefore?: string;
+  timeRange?: SearchTimeRange;
+}
+
+type DateFilter = Pick<WebSearchOptions, 'dateAfter' | 'dateBefore' | 'timeRange'>;
+
+// Outcome of one query after the provider chain - a result, or the last provider's error
+interface QueryOutcome {
+  result?: ProviderResult;
+  provider?: SearchProviderName;
+  error?: StructuredError;
+}
 
 const RETRYABLE_SEARCH_CODES = new Set([429, 500, 502, 503, 504]);
 
+// Results per query (one page)
+const PAGE_SIZE = 10;
+
+function pageCount(depth: number | undefined): number {
+  return Math.max(1, Math.ceil((depth ?? PAGE_SIZE) / PAGE_SIZE));
+}
+
+/**
+ * Keyword results from its page queries - later pages are renumbered to their overall
+ * position (11, 12, ...) and links already seen on an earlier page are dropped
+ */
+function mergePages(outcomes: QueryOutcome[], depth: number): ProviderResult {
+  const seen = new Set<string>();
+  const results: SearchResult[] = [];
+  outcomes.forEach((outcome, page) => {
+    outcome.result?.results.forEach((result, idx) => {
+      if (seen.has(result.link)) return;
+      seen.add(result.link);
+      results.push(page === 0 ? result : { ...result, position: page * PAGE_SIZE + idx + 1 });
+    });
+  });
+
+  // Totals, related searches and SERP features come from the first page
+  const first = outcomes.find(outcome => outcome.result)?.result;
+  return {
+    ...first,
+    results: results.slice(0, depth),
+    totalResults: first?.totalResults ?? results.length,
+    related: first?.related ?? [],
+  };
+}
+
+// ============================================================================
+// Result Cache (on disk, shared across sessions)
+// ============================================================================
+
+// Verticals share the web cache - the vertical is part of the key
+type SearchCacheKind = SearchVertical | 'reddit';
+
+const webCache = new DiskCache<Omit<KeywordSearchResult, 'keyword'>>('search-web');
+const redditCache = new DiskCache<RedditSearchResult[]>('search-reddit');
+
+/**
+ * Stable key for a locale ("jp|ja|tokyo, japan") - empty for the default locale
+ */
+export function localeKey(locale: SearchLocale | undefined): string {
+  const parts = [locale?.country, locale?.language, locale?.location].map(part => part?.trim().toLowerCase() ?? '');
+  return parts.some(Boolean) ? parts.join('|') : '';
+}
+
+/**
+ * Cache key part for a date filter - just the date for date_after alone (the Reddit search key)
+ */
+function dateFilterKey(filter: DateFilter): string | undefined {
+  if (filter.timeRange) return `past-${filter.timeRange}`;
+  if (filter.dateBefore) return `${filter.dateAfter ?? ''}..${filter.dateBefore}`;
+  return filter.dateAfter;
+}
+
+// "Past hour" results go stale long before the configured TTL
+const TIME_RANGE_MAX_TTL_MS: Partial<Record<SearchTimeRange, number>> = {
+  hour: 5 * 60000,
+  day: 60 * 60000,
+  week: 6 * 3600000,
+};
+
+/**
+ * Cache key for a query - whitespace and case are normalized (except the OR operator),
+ * date filter and locale stay part of the key. The provider is not: any provider's results will do.
+ */
+function searchCacheKey(kind: SearchCacheKind, query: string, dates?: string, locale?: string): string {
+  return JSON.stringify([kind, normalizeQuery(query), dates ?? '', locale ?? '']);
+}
+
+function normalizeQuery(query: string): string {
+  return query.trim().split(/\s+/).map(token => token === 'OR' ? token : token.toLowerCase()).join(' ');
+}
+
+/**
+ * Next round's keywords - related searches not searched yet, taken round-robin
+ * (every keyword's first suggestion, then every second...) so one keyword can't fill the budget
+ */
+function pickRelated(searches: KeywordSearchResult[], seen: Set<string>, limit: number): string[] {
+  const picked: string[] = [];
+  const longest = Math.max(0, ...searches.map(search => search.related.length));
+  for (let idx = 0; idx < longest && picked.length < limit; idx++) {
+    for (const search of searches) {
+      const related = search.related[idx];
+      if (!related || seen.has(normalizeQuery(related))) continue;
+      seen.add(normalizeQuery(related));
+      picked.push(related);
+      if (picked.length >= limit) break;
+    }
+  }
+  return picked;
+}
+
+/**
+ * Cached web results deep enough for a request
+ */
+function servesDepth(entry: CacheEntry<Omit<KeywordSearchResult, 'keyword'>> | undefined, depth: number): boolean {
+  return !!entry && (entry.value.depth ?? PAGE_SIZE) >= depth;
+}
+
+/**
+ * How many queries would go to a search provider (not served from the cache) - for usage estimates
+ * Each page of a deep web search is a query
+ */
+export async function countUncachedQueries(
+  kind: SearchCacheKind,
+  queries: string[],
+  options: SearchOptions & DateFilter & { depth?: number } = {}
+): Promise<number> {
+  const locale = localeKey(options.locale);
+  const dates = dateFilterKey(options);
+  if (kind === 'reddit') {
+    if (options.fresh) return queries.length;
+    const entries = await Promise.all(queries.map(query => redditCache.get(searchCacheKey(kind, query, dates, locale))));
+    return entries.filter(entry => !entry).length;
+  }
+
+  const depth = options.depth ?? PAGE_SIZE;
+  if (options.fresh) return queries.length * pageCount(depth);
+  const entries = await Promise.all(queries.map(query => webCache.get(searchCacheKey(kind, query, dates, locale))));
+  return entries.filter(entry => !servesDepth(entry, depth)).length * pageCount(depth);
+}
+
+/**
+ * Usage estimate for sending `queries` to the primary search provider for a vertical, locale and date filter (server keys)
+ * Empty for a free provider - fallbacks are checked per request
+ */
+export function estimateSearchUsage(
+  queries: number,
+  target: { vertical?: SearchVertical; locale?: SearchLocale } & DateFilter = {}
+): UsageAmounts {
+  const env = parseEnv();
+  const vertical = target.vertical ?? 'web';
+  const primary = getSearchProviders(env)
+    .flatMap(name => createSearchProvider(name, env) ?? [])
+    .find(provider => provider.verticals.includes(vertical) && supportsLocale(provider, target.locale) && provider.supportsDates(vertical, target));
+  return primary?.usage ? { [primary.usage]: queries } : {};
+}
+
 export class SearchClient {
-  private apiKey: string;
-  private baseURL = 'https://google.serper.dev';
+  private providers: SearchProvider[];
 
-  constructor(apiKey?: string) {
-    const env = parseEnv();
-    this.apiKey = apiKey || env.SEARCH_API_KEY || '';
+  constructor(env: EnvConfig = parseEnv()) {
+    this.providers = getSearchProviders(env).flatMap(name => createSearchProvider(name, env) ?? []);
 
-    if (!this.apiKey) {
-      throw new Error('SERPER_API_KEY is required for search functionality');
+    if (this.providers.length === 0) {
+      throw new Error('No search provider configured - set SERPER_API_KEY (or BRAVE_API_KEY, TAVILY_API_KEY, BING_API_KEY, SEARXNG_URL)');
     }
   }
 
@@ -70,9 +270,9 @@ export class SearchClient {
    * Calculate backoff delay
    */
   private calculateBackoff(attempt: number): number {
-    const exponentialDelay = SEARCH_RETRY_CONFIG.baseDelayMs * Math.pow(2, attempt);
+    const exponentialDelay = SEARCH.RETRY_BASE_DELAY_MS * Math.pow(2, attempt);
     const jitter = Math.random() * 0.3 * exponentialDelay;
-    return Math.min(exponentialDelay + jitter, SEARCH_RETRY_CONFIG.maxDelayMs);
+    return Math.min(exponentialDelay + jitter, SEARCH.RETRY_MAX_DELAY_MS);
   }
 
   /**
@@ -86,111 +286,333 @@ export class SearchClient {
   }
 
   /**
-   * Search multiple keywords in parallel
+   * Search multiple keywords in parallel - cached keywords are served from disk, the rest in one request
    * NEVER throws - always returns a valid response
    */
-  async searchMultiple(keywords: string[]): Promise<MultipleSearchResponse> {
+  async searchMultiple(keywords: string[], signal?: AbortSignal, options: WebSearchOptions = {}): Promise<MultipleSearchResponse> {
     const startTime = Date.now();
+    const vertical = options.vertical ?? 'web';
+    const locale = localeKey(options.locale);
+    const dates = dateFilterKey(options);
+    const depth = options.depth ?? PAGE_SIZE;
 
     if (keywords.length === 0) {
       return {
         searches: [],
         totalKeywords: 0,
         executionTime: 0,
+        cacheHits: 0,
         error: { code: ErrorCode.INVALID_INPUT, message: 'No keywords provided', retryable: false },
       };
     }
 
+    const cached = new Map<number, KeywordSearchResult>();
+    if (!options.fresh) {
+      const entries = await Promise.all(keywords.map(keyword => webCache.get(searchCacheKey(vertical, keyword, dates, locale))));
+      entries.forEach((entry, index) => {
+        if (entry && servesDepth(entry, depth)) {
+          const results = entry.value.results.slice(0, depth);
+          cached.set(index, { ...entry.value, results, keyword: keywords[index]!, cachedAt: new Date(entry.storedAt).toISOString() });
+        }
+      });
+    }
+
+    const misses = keywords.filter((_, index) => !cached.has(index));
+    const fetched = misses.length > 0 ? await this.fetchMultiple(misses, { ...options, vertical, depth }, signal) : undefined;
+
+    // Empty results may be a parse failure or a transient Serper hiccup - don't pin them
+    // Partial ones are cached for the depth they reached, without the failed page's error
+    const ttlMs = Math.min(SEARCH.CACHE_TTL_MS, (options.timeRange && TIME_RANGE_MAX_TTL_MS[options.timeRange]) || Infinity);
+    await Promise.all((fetched?.searches ?? [])
+      .filter(search => search.results.length > 0 && search.depth)
+      .map(({ keyword, error: _error, ...value }) => webCache.set(searchCacheKey(vertical, keyword, dates, locale), value, ttlMs)));
+
+    // Back in keyword order - fetched searches line up with the misses
+    const fetchedSearches = [...(fetched?.searches ?? [])];
+    const searches: KeywordSearchResult[] = [];
+    keywords.forEach((_, index) => {
+      const search = cached.get(index) ?? fetchedSearches.shift();
+      if (search) searches.push(search);
+    });
+
+    return {
+      searches,
+      totalKeywords: keywords.length,
+      executionTime: Date.now() - startTime,
+      cacheHits: cached.size,
+      ...(fetched?.error ? { error: fetched.error } : {}),
+    };
+  }
+
+  /**
+   * searchMultiple, then up to `rounds` more rounds over the related searches of the previous round
+   * Keywords already searched are skipped; SEARCH.RELATED_BUDGET caps the related keywords across all rounds.
+   * Every search is tagged with its round. NEVER throws
+   */
+  async searchWithRelated(
+    keywords: string[],
+    rounds: number,
+    signal?: AbortSignal,
+    options: WebSearchOptions = {}
+  ): Promise<MultipleSearchResponse> {
+    const startTime = Date.now();
+    const first = await this.searchMultiple(keywords, signal, options);
+    const searches = first.searches.map(search => ({ ...search, round: 0 }));
+    const seen = new Set(keywords.map(normalizeQuery));
+    let cacheHits = first.cacheHits;
+    let budget = SEARCH.RELATED_BUDGET;
+    let previous = searches;
+
+    for (let round = 1; round <= rounds && budget > 0 && !signal?.aborted; round++) {
+      const next = pickRelated(previous, seen, budget);
+      if (next.length === 0) break;
+      budget -= next.length;
+
+      const response = await this.searchMultiple(next, signal, options);
+      cacheHits += response.cacheHits;
+      previous = response.searches.map(search => ({ ...search, round }));
+      searches.push(...previous);
+    }
+
+    return {
+      searches,
+      totalKeywords: searches.length,
+      executionTime: Date.now() - startTime,
+      cacheHits,
+      ...(first.error ? { error: first.error } : {}),
+    };
+  }
+
+  /**
+   * Search keywords through the provider chain
+   * NEVER throws - keywords every provider failed on come back empty with an error
+   */
+  private async fetchMultiple(
+    keywords: string[],
+    options: WebSearchOptions & { vertical: SearchVertical; depth: number },
+    signal?: AbortSignal
+  ): Promise<Omit<MultipleSearchResponse, 'cacheHits'>> {
+    const startTime = Date.now();
+    const { vertical, locale, depth, dateAfter, dateBefore, timeRange } = options;
+    const pages = pageCount(depth);
+
+    // One query per keyword and page - a keyword's pages sit next to each other
+    const queries: ProviderQuery[] = keywords.flatMap(q =>
+      Array.from({ length: pages }, (_, page) => ({
+        q,
+        vertical,
+        locale,
+        num: PAGE_SIZE,
+        ...(page > 0 ? { page: page + 1 } : {}),
+        ...(dateAfter ? { dateAfter } : {}),
+        ...(dateBefore ? { dateBefore } : {}),
+        ...(timeRange ? { timeRange } : {}),
+      }))
+    );
+    const outcomes = await this.runQueries(queries, signal);
+    const market = localeKey(locale) || undefined;
+
+    let error: StructuredError | undefined;
+    const searches: KeywordSearchResult[] = keywords.map((keyword, index) => {
+      const pageOutcomes = outcomes.slice(index * pages, (index + 1) * pages);
+      const answered = pageOutcomes.find(outcome => outcome.result);
+      if (answered) {
+        // Depth reached before the first failed page - the results past it have a gap
+        const failed = pageOutcomes.findIndex(outcome => !outcome.result);
+        const pageError = failed === -1 ? undefined : pageOutcomes[failed]!.error;
+        return {
+          keyword,
+          ...mergePages(pageOutcomes, depth),
+          provider: answered.provider,
+          depth: failed === -1 ? depth : failed * PAGE_SIZE,
+          ...(pageError ? { error: { ...pageError, message: `Page ${failed + 1} of ${pages} failed: ${pageError.message}` } } : {}),
+          ...(market ? { locale: market } : {}),
+        };
+      }
+      error = pageOutcomes[0]!.error;
+      return { keyword, results: [], totalResults: 0, related: [], error, ...(market ? { locale: market } : {}) };
+    });
+
+    return {
+      searches,
+      totalKeywords: keywords.length,
+      executionTime: Date.now() - startTime,
+      ...(error ? { error } : {}),
+    };
+  }
+
+  /**
+   * Run queries through the providers in order - queries a provider fails on move to the next one
+   * Providers without the queries' vertical, or that can't target their locale or apply their date filter,
+   * are skipped - as are providers that can't page as deep as a query
+   * Cancellation stops the chain; any other failure (including a spending cap) falls back
+   * NEVER throws - outcomes line up with `queries`
+   */
+  private async runQueries(queries: ProviderQuery[], signal?: AbortSignal): Promise<QueryOutcome[]> {
+    const vertical = queries[0]?.vertical ?? 'web';
+    const locale = queries[0]?.locale;
+    // Queries in one request share their date filter too
+    const dates: DateFilter = { dateAfter: queries[0]?.dateAfter, dateBefore: queries[0]?.dateBefore, timeRange: queries[0]?.timeRange };
+    const verticalProviders = this.providers.filter(provider => provider.verticals.includes(vertical));
+    const localeProviders = verticalProviders.filter(provider => supportsLocale(provider, locale));
+    const providers = localeProviders.filter(provider => provider.supportsDates(vertical, dates));
+    if (providers.length === 0) {
+      const targeted = Object.entries(locale ?? {}).filter(([, value]) => value).map(([field]) => field);
+      const filtered = [dates.timeRange && `time_range ${dates.timeRange}`, dates.dateAfter && 'date_after', dates.dateBefore && 'date_before'].filter(Boolean);
+      const error: StructuredError = {
+        code: ErrorCode.INVALID_INPUT,
+        message: verticalProviders.length === 0
+          ? `No configured search provider supports ${vertical} search (Serper supports every type)`
+          : localeProviders.length === 0
+            ? `No configured search provider supports ${targeted.join(' + ')} targeting (Serper supports country, language and location)`
+            : `No configured search provider can apply ${filtered.join(' + ')} to ${vertical} search (Serper supports every date filter)`,
+        retryable: false,
+      };
+      return queries.map(() => ({ error }));
+    }
+
+    const outcomes: QueryOutcome[] = queries.map(() => ({}));
+    let pending = queries.map((_, index) => index);
+
+    for (const [providerIndex, provider] of providers.entries()) {
+      if (pending.length === 0) break;
+      if (signal?.aborted) {
+        for (const index of pending) outcomes[index] = { error: createCancelledError() };
+        break;
+      }
+      const eligible = pending.filter(index => (queries[index]!.page ?? 1) <= provider.maxPage);
+      if (eligible.length === 0) continue;
+      if (providerIndex > 0) {
+        const reason = outcomes[eligible[0]!]?.error;
+        console.error(`[Search] ${eligible.length} quer${eligible.length === 1 ? 'y' : 'ies'} falling back to ${provider.name}${reason ? ` (${reason.code}: ${reason.message})` : ''}`);
+      }
+
+      const batches: number[][] = [];
+      for (let i = 0; i < eligible.length; i += provider.batchSize) {
+        batches.push(eligible.slice(i, i + provider.batchSize));
+      }
+
+      const runBatch = async (batch: number[]) => {
+        const response = await this.requestWithRetries(provider, batch.map(index => queries[index]!), signal);
+        batch.forEach((index, position) => {
+          const result = response.results?.[position];
+          outcomes[index] = result
+            ? { result, provider: provider.name }
+            : { error: response.error ?? { code: ErrorCode.PARSE_ERROR, message: `${provider.name} returned no result for this query`, retryable: false } };
+        });
+      };
+      // Single-query providers get a few requests in flight at a time
+      const queue = [...batches];
+      const workers = Array.from({ length: Math.min(SEARCH.PROVIDER_CONCURRENCY, queue.length) }, async () => {
+        for (let batch = queue.shift(); batch; batch = queue.shift()) {
+          await runBatch(batch);
+        }
+      });
+      await Promise.all(workers);
+
+      pending = pending.filter(index => !outcomes[index]!.result);
+      if (pending.some(index => outcomes[index]!.error?.code === ErrorCode.CANCELLED)) break;
+    }
+
+    // Pages no provider could reach
+    for (const index of pending) {
+      outcomes[index]!.error ??= {
+        code: ErrorCode.INVALID_INPUT,
+        message: `No configured search provider can fetch page ${queries[index]!.page ?? 1}`,
+        retryable: false,
+      };
+    }
+
+    return outcomes;
+  }
+
+  /**
+   * One provider request with retries
+   * NEVER throws - returns results lined up with `queries`, or the error
+   */
+  private async requestWithRetries(
+    provider: SearchProvider,
+    queries: ProviderQuery[],
+    signal?: AbortSignal
+  ): Promise<{ results?: ProviderResult[]; error?: StructuredError }> {
+    const billed: UsageAmounts = provider.usage ? { [provider.usage]: queries.length } : {};
+    const { reservation, error: quotaError } = await reserveQuota(billed);
+    if (quotaError) {
+      return { error: quotaError };
+    }
+
+    try {
+      return await this.sendWithRetries(provider, queries, billed, reservation, signal);
+    } finally {
+      reservation.release();
+    }
+  }
+
+  /**
+   * Send the provider request until it succeeds or a retry budget runs out - usage is recorded against the reservation
+   * NEVER throws
+   */
+  private async sendWithRetries(
+    provider: SearchProvider,
+    queries: ProviderQuery[],
+    billed: UsageAmounts,
+    reservation: QuotaReservation,
+    signal?: AbortSignal
+  ): Promise<{ results?: ProviderResult[]; error?: StructuredError }> {
+    const { url, init } = provider.request(queries);
     let lastError: StructuredError | undefined;
 
-    for (let attempt = 0; attempt <= SEARCH_RETRY_CONFIG.maxRetries; attempt++) {
+    for (let attempt = 0; attempt <= SEARCH.MAX_RETRIES; attempt++) {
+      if (signal?.aborted) {
+        return { error: createCancelledError() };
+      }
+
       try {
         if (attempt > 0) {
-          console.error(`[Search] Retry attempt ${attempt}/${SEARCH_RETRY_CONFIG.maxRetries}`);
+          console.error(`[Search] ${provider.name}: retry attempt ${attempt}/${SEARCH.MAX_RETRIES}`);
         }
 
-        const searchQueries = keywords.map(keyword => ({ q: keyword }));
-
-        const response = await fetchWithTimeout(`${this.baseURL}/search`, {
-          method: 'POST',
-          headers: {
-            'X-API-KEY': this.apiKey,
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify(searchQueries),
-          timeoutMs: SEARCH_RETRY_CONFIG.timeoutMs,
-        });
+        const response = await fetchWithTimeout(url, { ...init, timeoutMs: SEARCH.TIMEOUT_MS, signal });
 
         if (!response.ok) {
           const errorText = await response.text().catch(() => '');
           lastError = classifyError({ status: response.status, message: errorText });
+          recordError('search', lastError);
 
-          if (this.isRetryable(response.status) && attempt < SEARCH_RETRY_CONFIG.maxRetries) {
+          if (this.isRetryable(response.status) && attempt < SEARCH.MAX_RETRIES) {
             const delayMs = this.calculateBackoff(attempt);
-            console.error(`[Search] API returned ${response.status}, retrying in ${delayMs}ms...`);
-            await sleep(delayMs);
+            console.error(`[Search] ${provider.name} returned ${response.status}, retrying in ${delayMs}ms...`);
+            await sleep(delayMs, signal);
             continue;
           }
 
-          // Return partial result with error
-          return {
-            searches: [],
-            totalKeywords: keywords.length,
-            executionTime: Date.now() - startTime,
-            error: lastError,
-          };
+          return { error: lastError };
         }
 
+        reservation.record(billed);
+
         // Parse response safely
-        let data: unknown;
         try {
-          data = await response.json();
-        } catch (parseError) {
-          return {
-            searches: [],
-            totalKeywords: keywords.length,
-            executionTime: Date.now() - startTime,
-            error: { code: ErrorCode.PARSE_ERROR, message: 'Failed to parse search response', retryable: false },
-          };
+          return { results: provider.parse(await response.json(), queries) };
+        } catch {
+          const error: StructuredError = { code: ErrorCode.PARSE_ERROR, message: `Failed to parse ${provider.name} search response`, retryable: false };
+          recordError('search', error);
+          return { error };
         }
 
-        const responses = Array.isArray(data) ? data : [data];
-
-        const searches: KeywordSearchResult[] = responses.map((resp: Record<string, unknown>, index: number) => {
-          try {
-            const organic = (resp.organic || []) as Array<Record<string, unknown>>;
-            const results: SearchResult[] = organic.map((item: Record<string, unknown>, idx: number) => ({
-              title: (item.title as string) || 'No title',
-              link: (item.link as string) || '#',
-              snippet: (item.snippet as string) || '',
-              date: item.date as string | undefined,
-              position: (item.position as number) || idx + 1,
-            }));
-
-            const searchInfo = resp.searchInformation as Record<string, unknown> | undefined;
-            const totalResults = searchInfo?.totalResults
-              ? parseInt(String(searchInfo.totalResults).replace(/,/g, ''), 10)
-              : results.length;
-
-            const relatedSearches = (resp.relatedSearches || []) as Array<Record<string, unknown>>;
-            const related = relatedSearches.map((r: Record<string, unknown>) => (r.query as string) || '');
-
-            return { keyword: keywords[index] || '', results, totalResults, related };
-          } catch {
-            // Return empty result for this keyword on parse error
-            return { keyword: keywords[index] || '', results: [], totalResults: 0, related: [] };
-          }
-        });
-
-        return { searches, totalKeywords: keywords.length, executionTime: Date.now() - startTime };
-
       } catch (error) {
+        // Aborted fetch or backoff - stop without retrying
+        if (signal?.aborted) {
+          return { error: createCancelledError() };
+        }
+
         lastError = classifyError(error);
+        recordError('search', lastError);
 
-        if (this.isRetryable(undefined, error) && attempt < SEARCH_RETRY_CONFIG.maxRetries) {
+        if (this.isRetryable(undefined, error) && attempt < SEARCH.MAX_RETRIES) {
           const delayMs = this.calculateBackoff(attempt);
-          console.error(`[Search] ${lastError.code}: ${lastError.message}, retrying in ${delayMs}ms...`);
-          await sleep(delayMs);
+          console.error(`[Search] ${provider.name} ${lastError.code}: ${lastError.message}, retrying in ${delayMs}ms...`);
+          await sleep(delayMs, signal).catch(() => {});
           continue;
         }
 
@@ -199,87 +621,73 @@ export class SearchClient {
     }
 
     // All retries failed
-    return {
-      searches: [],
-      totalKeywords: keywords.length,
-      executionTime: Date.now() - startTime,
-      error: lastError || { code: ErrorCode.UNKNOWN_ERROR, message: 'Search failed', retryable: false },
-    };
+    return { error: lastError || { code: ErrorCode.UNKNOWN_ERROR, message: 'Search failed', retryable: false } };
   }
 
   /**
-   * Search Reddit via Google (adds site:reddit.com automatically)
-   * NEVER throws - returns empty array on failure
+   * Search Reddit via the search providers (adds site:reddit.com automatically) - served from the cache when possible
+   * NEVER throws - returns no results on failure
    */
-  async searchReddit(query: string, dateAfter?: string): Promise<RedditSearchResult[]> {
+  async searchReddit(query: string, dateAfter?: string, signal?: AbortSignal, options: SearchOptions = {}): Promise<RedditQueryResult> {
     if (!query?.trim()) {
-      return [];
+      return { results: [] };
     }
 
-    let q = /site:\s*reddit\.com/i.test(query) ? query : `${query} site:reddit.com`;
-
-    if (dateAfter) {
-      q += ` after:${dateAfter}`;
+    const key = searchCacheKey('reddit', query, dateFilterKey({ dateAfter }), localeKey(options.locale));
+    const entry = options.fresh ? undefined : await redditCache.get(key);
+    if (entry) {
+      return { results: entry.value, cachedAt: new Date(entry.storedAt).toISOString() };
     }
 
-    for (let attempt = 0; attempt <= SEARCH_RETRY_CONFIG.maxRetries; attempt++) {
-      try {
-        const res = await fetchWithTimeout(`${this.baseURL}/search`, {
-          method: 'POST',
-          headers: { 'X-API-KEY': this.apiKey, 'Content-Type': 'application/json' },
-          body: JSON.stringify({ q, num: 10 }),
-          timeoutMs: SEARCH_RETRY_CONFIG.timeoutMs,
-        });
-
-        if (!res.ok) {
-          if (this.isRetryable(res.status) && attempt < SEARCH_RETRY_CONFIG.maxRetries) {
-            const delayMs = this.calculateBackoff(attempt);
-            console.error(`[Search Reddit] ${res.status}, retrying in ${delayMs}ms...`);
-            await sleep(delayMs);
-            continue;
-          }
-          console.error(`[Search Reddit] Failed with status ${res.status}`);
-          return [];
-        }
+    const results = await this.fetchReddit(query, dateAfter, options.locale, signal);
+    if (results.length > 0) {
+      await redditCache.set(key, results, SEARCH.REDDIT_CACHE_TTL_MS);
+    }
+    return { results };
+  }
 
-        const data = await res.json() as { organic?: Array<{ title: string; link: string; snippet: string; date?: string }> };
-        return (data.organic || []).map((r) => ({
-          title: (r.title || '').replace(/ : r\/\w+$/, '').replace(/ - Reddit$/, ''),
-          url: r.link || '',
-          snippet: r.snippet || '',
-          date: r.date,
-        }));
+  /**
+   * One Reddit query through the provider chain
+   * NEVER throws - returns empty array on failure
+   */
+  private async fetchReddit(query: string, dateAfter: string | undefined, locale: SearchLocale | undefined, signal?: AbortSignal): Promise<RedditSearchResult[]> {
+    const q = /site:\s*reddit\.com/i.test(query) ? query : `${query} site:reddit.com`;
 
-      } catch (error) {
-        const err = classifyError(error);
-        if (this.isRetryable(undefined, error) && attempt < SEARCH_RETRY_CONFIG.maxRetries) {
-          const delayMs = this.calculateBackoff(attempt);
-          console.error(`[Search Reddit] ${err.code}, retrying in ${delayMs}ms...`);
-          await sleep(delayMs);
-          continue;
-        }
-        console.error(`[Search Reddit] Failed: ${err.message}`);
-        return [];
+    const [outcome] = await this.runQueries([{ q, vertical: 'web', locale, num: PAGE_SIZE, dateAfter }], signal);
+    if (!outcome?.result) {
+      if (outcome?.error && outcome.error.code !== ErrorCode.CANCELLED) {
+        console.error(`[Search Reddit] Failed: ${outcome.error.code}: ${outcome.error.message}`);
       }
+      return [];
     }
 
-    return [];
+    return outcome.result.results.map(r => ({
+      title: r.title.replace(/ : r\/\w+$/, '').replace(/ - Reddit$/, ''),
+      url: r.link === '#' ? '' : r.link,
+      snippet: r.snippet,
+      date: r.date,
+    }));
   }
 
   /**
    * Search Reddit with multiple queries in parallel
    * NEVER throws - uses Promise.allSettled pattern
    */
-  async searchRedditMultiple(queries: string[], dateAfter?: string): Promise<Map<string, RedditSearchResult[]>> {
+  async searchRedditMultiple(
+    queries: string[],
+    dateAfter?: string,
+    signal?: AbortSignal,
+    options: SearchOptions = {}
+  ): Promise<Map<string, RedditQueryResult>> {
     if (queries.length === 0) {
       return new Map();
     }
 
     // All searchReddit calls never throw, so we can use Promise.all safely
     const results = await Promise.all(
-      queries.map(q => this.searchReddit(q, dateAfter))
+      queries.map(q => this.searchReddit(q, dateAfter, signal, options))
     );
 
-    return new Map(queries.map((q, i) => [q, results[i] || []]));
+    return new Map(queries.map((q, i) => [q, results[i] || { results: [] }]));
   }
 }
@@ -0,0 +1,219 @@
+/**
+ * Client Profiles for the HTTP transport
+ * Maps bearer tokens to per-client API keys and capability profiles
+ *
+ * Sources (both optional, combined):
+ *   MCP_AUTH_TOKEN        - single shared token using the server's own ENV keys
+ *   MCP_AUTH_CLIENTS_FILE - JSON file with one entry per client:
+ *     {
+ *       "clients": [
+ *         {
+ *           "id": "ci",
+ *           "token": "secret-token",
+ *           "keys": { "SERPER_API_KEY": "...", "OPENROUTER_API_KEY": "..." },
+ *           "capabilities": ["search", "deepResearch"],
+ *           "inherit_env": false
+ *         }
+ *       ]
+ *     }
+ */
+
+import { readFileSync } from 'node:fs';
+import { createHash, timingSafeEqual } from 'node:crypto';
+import { z } from 'zod';
+
+import {
+  parseEnv,
+  getCapabilities,
+  getMissingEnvMessage,
+  CAPABILITY_NAMES,
+  CAPABILITY_ENV_VARS,
+  type EnvConfig,
+  type Capabilities,
+  type CapabilityName,
+} from './index.js';
+import { apiKeysSchema, type ApiKeys } from './settings.js';
+
+// ============================================================================
+// Schema
+// ============================================================================
+
+const clientEntrySchema = z.object({
+  id: z.string().min(1, { message: 'clients: id is required' }),
+  token: z.string().min(16, { message: 'clients: token must be at least 16 characters' }),
+  keys: apiKeysSchema.default({}),
+  capabilities: z.array(z.enum(CAPABILITY_NAMES as [CapabilityName, ...CapabilityName[]])).optional(),
+  inherit_env: z.boolean().default(false),
+});
+
+const clientsFileSchema = z.object({
+  clients: z.array(clientEntrySchema),
+});
+
+// ============================================================================
+// Types
+// ============================================================================
+
+interface ClientProfile {
+  id: string;
+  tokenHash: Buffer;
+  env: EnvConfig;
+  allowed?: ReadonlySet<CapabilityName>;
+}
+
+/**
+ * Resolved identity + keys for a single tool call
+ */
+export interface CallerContext {
+  clientId: string;
+  env: EnvConfig;
+  capabilities: Capabilities;
+  // Capabilities the caller has keys for but is not permitted to use
+  restricted: CapabilityName[];
+}
+
+export const LOCAL_CLIENT_ID = 'local';
+
+// ============================================================================
+// Profile Registry (module-level, loaded at HTTP startup and on reload)
+// ============================================================================
+
+let profiles = new Map<string, ClientProfile>();
+
+function hashToken(token: string): Buffer {
+  return createHash('sha256').update(token).digest();
+}
+
+function toEnvConfig(keys: ApiKeys, inheritEnv: boolean): EnvConfig {
+  const base: EnvConfig = inheritEnv
+    ? parseEnv()
+    : {
+      SCRAPER_API_KEY: '', SEARCH_API_KEY: undefined, REDDIT_CLIENT_ID: undefined, REDDIT_CLIENT_SECRET: undefined, RESEARCH_API_KEY: undefined,
+      BRAVE_API_KEY: undefined, TAVILY_API_KEY: undefined, BING_API_KEY: undefined, SEARXNG_URL: undefined,
+    };
+
+  return {
+    SCRAPER_API_KEY: keys.SCRAPEDO_API_KEY || base.SCRAPER_API_KEY,
+    SEARCH_API_KEY: keys.SERPER_API_KEY || base.SEARCH_API_KEY,
+    REDDIT_CLIENT_ID: keys.REDDIT_CLIENT_ID || base.REDDIT_CLIENT_ID,
+    REDDIT_CLIENT_SECRET: keys.REDDIT_CLIENT_SECRET || base.REDDIT_CLIENT_SECRET,
+    RESEARCH_API_KEY: keys.OPENROUTER_API_KEY || base.RESEARCH_API_KEY,
+    BRAVE_API_KEY: keys.BRAVE_API_KEY || base.BRAVE_API_KEY,
+    TAVILY_API_KEY: keys.TAVILY_API_KEY || base.TAVILY_API_KEY,
+    BING_API_KEY: keys.BING_API_KEY || base.BING_API_KEY,
+    SEARXNG_URL: keys.SEARXNG_URL || base.SEARXNG_URL,
+  };
+}
+
+/**
+ * Load client profiles from MCP_AUTH_TOKEN / MCP_AUTH_CLIENTS_FILE
+ * Throws on an invalid clients file - misconfigured auth must not start an open server.
+ * The previous profiles stay active until the new file has parsed completely.
+ * @returns Number of loaded profiles (0 = authentication disabled)
+ */
+export function loadClientProfiles(): number {
+  const next = new Map<string, ClientProfile>();
+
+  const sharedToken = process.env.MCP_AUTH_TOKEN;
+  if (sharedToken) {
+    next.set('default', { id: 'default', tokenHash: hashToken(sharedToken), env: parseEnv() });
+  }
+
+  const clientsFile = process.env.MCP_AUTH_CLIENTS_FILE;
+  if (clientsFile) {
+    const raw = JSON.parse(readFileSync(clientsFile, 'utf-8'));
+    const parsed = clientsFileSchema.parse(raw);
+
+    for (const entry of parsed.clients) {
+      if (next.has(entry.id)) {
+        throw new Error(`Duplicate client id "${entry.id}" in ${clientsFile}`);
+      }
+      next.set(entry.id, {
+        id: entry.id,
+        tokenHash: hashToken(entry.token),
+        env: toEnvConfig(entry.keys, entry.inherit_env),
+        allowed: entry.capabilities ? new Set(entry.capabilities) : undefined,
+      });
+    }
+  }
+
+  profiles = next;
+  return profiles.size;
+}
+
+export function isAuthEnabled(): boolean {
+  return profiles.size > 0;
+}
+
+/**
+ * Look up the client owning a bearer token
+ * Compares SHA-256 digests in constant time
+ */
+export function authenticateToken(token: string): string | null {
+  const candidate = hashToken(token);
+  let match: string | null = null;
+
+  // Check every profile so timing doesn't reveal which one matched
+  for (const profile of profiles.values()) {
+    if (timingSafeEqual(candidate, profile.tokenHash)) {
+      match = profile.id;
+    }
+  }
+
+  return match;
+}
+
+/**
+ * Resolve keys and capabilities for a tool call
+ * Unknown or missing client IDs fall back to the process ENV (stdio / open HTTP)
+ */
+export function resolveCaller(clientId?: string): CallerContext {
+  const profile = clientId ? profiles.get(clientId) : undefined;
+
+  if (!profile) {
+    const env = parseEnv();
+    return { clientId: LOCAL_CLIENT_ID, env, capabilities: getCapabilities(env), restricted: [] };
+  }
+
+  const detected = getCapabilities(profile.env);
+  const capabilities = { ...detected };
+  const restricted: CapabilityName[] = [];
+
+  if (profile.allowed) {
+    for (const name of CAPABILITY_NAMES) {
+      if (capabilities[name] && !profile.allowed.has(name)) {
+        capabilities[name] = false;
+        restricted.push(name);
+      }
+    }
+  }
+
+  return { clientId: profile.id, env: profile.env, capabilities, restricted };
+}
+
+/**
+ * Message for a capability the caller cannot use
+ * Distinguishes "not permitted for this client" from "key missing"
+ */
+export function getUnavailableMessage(caller: CallerContext, capability: CapabilityName): string {
+  if (caller.restricted.includes(capability)) {
+    return `❌ **Not permitted.** Client \`${caller.clientId}\` is not allowed to use \`${capability}\`. Ask the server operator to add it to your capability profile.`;
+  }
+  if (caller.clientId !== LOCAL_CLIENT_ID) {
+    return `❌ **Unavailable for client \`${caller.clientId}\`.** No API key is configured for \`${capability}\` in your client profile.`;
+  }
+  return getMissingEnvMessage(capability);
+}
+
+/**
+ * One-line reason for a capability the caller cannot use (for tools/list annotations)
+ */
+export function getUnavailableReason(caller: CallerContext, capability: CapabilityName): string {
+  if (caller.restricted.includes(capability)) {
+    return `not permitted for client "${caller.clientId}"`;
+  }
+  if (caller.clientId !== LOCAL_CLIENT_ID) {
+    return `no ${CAPABILITY_ENV_VARS[capability]} in client profile "${caller.clientId}"`;
+  }
+  return `requires ${CAPABILITY_ENV_VARS[capability]}`;
+}
@@ -1,9 +1,17 @@
 /**
  * Consolidated configuration
  * All environment variables, constants, and LLM config in one place
+ *
+ * Tuning blocks (RESEARCH, SEARCH, SCRAPER, REDDIT, CTR_WEIGHTS, LLM_EXTRACTION, QUERY_EXPANSION) are
+ * read-only views - the settings file and the active profile override them (see settings.ts)
  */
 
 import { VERSION, PACKAGE_NAME, PACKAGE_DESCRIPTION } from '../version.js';
+import { homedir } from 'node:os';
+import { join } from 'node:path';
+import { tunable, getFileKeys, getFileUsageCaps, SEARCH_PROVIDER_NAMES, type SearchProviderName } from './settings.js';
+
+export { SEARCH_PROVIDER_NAMES, type SearchProviderName };
 
 // Import version utilities (not re-exported - use directly from version.ts if needed externally)
 
@@ -53,19 +61,35 @@ function safeParseInt(
 // Environment Parsing
 // ============================================================================
 
-interface EnvConfig {
+export interface EnvConfig {
   SCRAPER_API_KEY: string;
   SEARCH_API_KEY: string | undefined;
   REDDIT_CLIENT_ID: string | undefined;
   REDDIT_CLIENT_SECRET: string | undefined;
+  RESEARCH_API_KEY: string | undefined;
+  // Alternative search providers (SEARCH_API_KEY is Serper's)
+  BRAVE_API_KEY: string | undefined;
+  TAVILY_API_KEY: string | undefined;
+  BING_API_KEY: string | undefined;
+  SEARXNG_URL: string | undefined;
 }
 
+/**
+ * Current API keys - read on every call so reloaded keys apply to the next request
+ * Keys in the settings file take precedence over the process environment
+ */
 export function parseEnv(): EnvConfig {
+  const keys = getFileKeys();
   return {
-    SCRAPER_API_KEY: process.env.SCRAPEDO_API_KEY || '',
-    SEARCH_API_KEY: process.env.SERPER_API_KEY || undefined,
-    REDDIT_CLIENT_ID: process.env.REDDIT_CLIENT_ID || undefined,
-    REDDIT_CLIENT_SECRET: process.env.REDDIT_CLIENT_SECRET || undefined,
+    SCRAPER_API_KEY: keys.SCRAPEDO_API_KEY || process.env.SCRAPEDO_API_KEY || '',
+    SEARCH_API_KEY: keys.SERPER_API_KEY || process.env.SERPER_API_KEY || undefined,
+    REDDIT_CLIENT_ID: keys.REDDIT_CLIENT_ID || process.env.REDDIT_CLIENT_ID || undefined,
+    REDDIT_CLIENT_SECRET: keys.REDDIT_CLIENT_SECRET || process.env.REDDIT_CLIENT_SECRET || undefined,
+    RESEARCH_API_KEY: keys.OPENROUTER_API_KEY || process.env.OPENROUTER_API_KEY || undefined,
+    BRAVE_API_KEY: keys.BRAVE_API_KEY || process.env.BRAVE_API_KEY || undefined,
+    TAVILY_API_KEY: keys.TAVILY_API_KEY || process.env.TAVILY_API_KEY || undefined,
+    BING_API_KEY: keys.BING_API_KEY || process.env.BING_API_KEY || undefined,
+    SEARXNG_URL: keys.SEARXNG_URL || process.env.SEARXNG_URL || undefined,
   };
 }
 
@@ -73,57 +97,279 @@ export function parseEnv(): EnvConfig {
 // Research API Configuration
 // ============================================================================
 
-export const RESEARCH = {
+export const RESEARCH = tunable('research', {
   BASE_URL: process.env.OPENROUTER_BASE_URL || 'https://openrouter.ai/api/v1',
   MODEL: process.env.RESEARCH_MODEL || 'x-ai/grok-4-fast',
   FALLBACK_MODEL: process.env.RESEARCH_FALLBACK_MODEL || 'google/gemini-2.5-flash',
-  API_KEY: process.env.OPENROUTER_API_KEY || '',
   // Timeout: min 1s, max 1hr, default 30min
   TIMEOUT_MS: safeParseInt(process.env.API_TIMEOUT_MS, 1800000, 1000, 3600000),
   REASONING_EFFORT: (process.env.DEFAULT_REASONING_EFFORT as 'low' | 'medium' | 'high') || 'high',
   // Max URLs in search results: min 10, max 200, default 100
   MAX_URLS: safeParseInt(process.env.DEFAULT_MAX_URLS, 100, 10, 200),
-} as const;
+  // deep_research output tokens, split across the questions in a batch
+  TOKEN_BUDGET: 32000,
+  // Research requests can be long-running, so retries use longer delays
+  MAX_RETRIES: 3,
+  RETRY_BASE_DELAY_MS: 5000,
+  RETRY_MAX_DELAY_MS: 60000,
+});
+
+// ============================================================================
+// Search API Configuration (Serper, SearXNG, Brave, Tavily, Bing)
+// ============================================================================
+
+/**
+ * Parse SEARCH_PROVIDERS ("brave,serper") - unknown names are dropped with a warning
+ */
+function parseSearchProviders(value: string | undefined): SearchProviderName[] {
+  if (!value) return [];
+  const names: SearchProviderName[] = [];
+  for (const name of value.split(',').map(part => part.trim().toLowerCase()).filter(Boolean)) {
+    if (!SEARCH_PROVIDER_NAMES.includes(name as SearchProviderName)) {
+      console.warn(`[Config] Unknown search provider "${name}" in SEARCH_PROVIDERS (expected ${SEARCH_PROVIDER_NAMES.join(', ')})`);
+    } else if (!names.includes(name as SearchProviderName)) {
+      names.push(name as SearchProviderName);
+    }
+  }
+  return names;
+}
+
+/**
+ * web_search verticals - 'web' is the regular results page, the others map to the providers' dedicated endpoints
+ */
+export const SEARCH_VERTICALS = ['web', 'news', 'scholar', 'images', 'videos', 'places', 'shopping'] as const;
+export type SearchVertical = typeof SEARCH_VERTICALS[number];
+
+/**
+ * Relative recency filters (Google's "past hour" ... "past year")
+ */
+export const SEARCH_TIME_RANGES = ['hour', 'day', 'week', 'month', 'year'] as const;
+export type SearchTimeRange = typeof SEARCH_TIME_RANGES[number];
+
+export const SEARCH = tunable('search', {
+  // Providers in the order they are tried - the first is primary, the rest are fallbacks
+  // Empty = every provider with credentials, in SEARCH_PROVIDER_NAMES order
+  PROVIDERS: parseSearchProviders(process.env.SEARCH_PROVIDERS) as readonly SearchProviderName[],
+  // Concurrent requests per provider that takes one query per request (Serper takes a batch)
+  PROVIDER_CONCURRENCY: 5,
+  // Related searches web_search's follow_related may add, across all rounds (each costs a query per page)
+  RELATED_BUDGET: 20,
+  MAX_RETRIES: 2,
+  RETRY_BASE_DELAY_MS: 1000,
+  RETRY_MAX_DELAY_MS: 10000,
+  TIMEOUT_MS: 30000,
+  // Cached results are reused for this long (0 = no caching): max 30 days, default 24hr / 12hr
+  CACHE_TTL_MS: safeParseInt(process.env.SEARCH_CACHE_TTL_MS, 86400000, 0, 2592000000),
+  REDDIT_CACHE_TTL_MS: safeParseInt(process.env.SEARCH_REDDIT_CACHE_TTL_MS, 43200000, 0, 2592000000),
+});
 
 // ============================================================================
 // MCP Server Configuration
 // ============================================================================
 
+/**
+ * How tools/list presents tools the caller cannot use
+ *   show     - list unchanged
+ *   annotate - list with an "UNAVAILABLE" marker in the description (default)
+ *   hide     - leave them out
+ */
+export type UnavailableToolsMode = 'show' | 'annotate' | 'hide';
+
+function parseUnavailableToolsMode(value: string | undefined): UnavailableToolsMode {
+  if (!value) return 'annotate';
+  const mode = value.toLowerCase();
+  if (mode === 'show' || mode === 'annotate' || mode === 'hide') return mode;
+  console.warn(`[Config] Invalid MCP_UNAVAILABLE_TOOLS "${value}", using default annotate`);
+  return 'annotate';
+}
+
 // Version is now automatically read from package.json via version.ts
 // No need to manually update version strings anymore!
 export const SERVER = {
   NAME: PACKAGE_NAME,
   VERSION: VERSION,
   DESCRIPTION: PACKAGE_DESCRIPTION,
+  // Directory of third-party tool modules loaded at startup (optional)
+  TOOLS_DIR: process.env.MCP_TOOLS_DIR || undefined,
+  UNAVAILABLE_TOOLS: parseUnavailableToolsMode(process.env.MCP_UNAVAILABLE_TOOLS),
+} as const;
+
+// ============================================================================
+// HTTP Transport Configuration (used with --transport http)
+// ============================================================================
+
+export const HTTP = {
+  HOST: process.env.MCP_HTTP_HOST || '127.0.0.1',
+  // Port: min 1, max 65535, default 3000
+  PORT: safeParseInt(process.env.MCP_HTTP_PORT, 3000, 1, 65535),
+  ENDPOINT: '/mcp',
+  // Sessions with no request in flight are closed this long after their last response: min 1min, max 24hr, default 30min
+  SESSION_IDLE_TIMEOUT_MS: safeParseInt(process.env.MCP_HTTP_SESSION_TIMEOUT_MS, 1800000, 60000, 86400000),
+  MAX_BODY_BYTES: 4 * 1024 * 1024,
+} as const;
+
+// ============================================================================
+// Research Artifacts (tool results exposed as research:// resources)
+// ============================================================================
+
+export const ARTIFACTS = {
+  // Oldest artifacts are evicted past these limits: max 1-10000 items, default 200
+  MAX_ITEMS: safeParseInt(process.env.MCP_ARTIFACT_MAX_ITEMS, 200, 1, 10000),
+  // Total stored text: min 1MB, max 1GB, default 100MB
+  MAX_TOTAL_BYTES: safeParseInt(process.env.MCP_ARTIFACT_MAX_BYTES, 100 * 1024 * 1024, 1024 * 1024, 1024 * 1024 * 1024),
+  // Results longer than this (chars) come back as a resource_link + summary; 0 = always inline (default)
+  LINK_THRESHOLD_CHARS: safeParseInt(process.env.MCP_RESOURCE_LINK_THRESHOLD, 0, 0, 10000000),
+} as const;
+
+// ============================================================================
+// Record/Replay Fixtures (upstream HTTP traffic)
+// ============================================================================
+
+export type FixtureMode = 'off' | 'record' | 'replay';
+
+function parseFixtureMode(value: string | undefined): FixtureMode {
+  if (!value || value === 'off') return 'off';
+  if (value === 'record' || value === 'replay') return value;
+  console.warn(`[Config] Invalid MCP_FIXTURES "${value}" (expected record, replay or off), fixtures disabled`);
+  return 'off';
+}
+
+export const FIXTURES = {
+  // record = save every upstream response, replay = serve saved responses (no network, no API keys needed)
+  MODE: parseFixtureMode(process.env.MCP_FIXTURES),
+  DIR: process.env.MCP_FIXTURES_DIR || join(process.cwd(), 'tests', 'fixtures'),
+} as const;
+
+// Fixture runs skip the on-disk cache and the usage ledger file unless they are set explicitly -
+// a cache hit would hide requests from the recording, and replayed calls spend nothing
+const FIXTURE_DEFAULT = FIXTURES.MODE === 'off' ? undefined : 'off';
+
+// ============================================================================
+// On-Disk Cache (search results, scraped pages)
+// ============================================================================
+
+export const CACHE = {
+  // One JSON file per entry, shared by every server process; "off" disables caching
+  DIR: process.env.MCP_CACHE_DIR || FIXTURE_DEFAULT || join(homedir(), '.research-powerpack-mcp', 'cache'),
+  // Size limit for all namespaces together - the oldest entries go first: 0 = unlimited, default 500 MB
+  MAX_BYTES: safeParseInt(process.env.MCP_CACHE_MAX_MB, 500, 0, 1048576) * 1048576,
+  // Minimum time between sweeps for expired entries and the size limit: 0 = never sweep, default 1hr
+  SWEEP_INTERVAL_MS: safeParseInt(process.env.MCP_CACHE_SWEEP_INTERVAL_MS, 3600000, 0, 86400000),
+} as const;
+
+// ============================================================================
+// Usage Ledger (spending per provider, tool and client)
+// ============================================================================
+
+// Search providers that bill per query come first (SearXNG is self-hosted and free)
+export const USAGE_PROVIDERS = ['serper', 'brave', 'tavily', 'bing', 'scrapedo', 'openrouter'] as const;
+export type UsageProvider = typeof USAGE_PROVIDERS[number];
+
+export const USAGE_UNITS: Record<UsageProvider, string> = {
+  serper: 'queries',
+  brave: 'queries',
+  tavily: 'credits',
+  bing: 'queries',
+  scrapedo: 'credits',
+  openrouter: 'tokens',
+};
+
+export const USAGE = {
+  // JSON ledger shared by every server process; "off" keeps usage in memory only (caps still apply)
+  LEDGER_FILE: process.env.MCP_USAGE_FILE || FIXTURE_DEFAULT || join(homedir(), '.research-powerpack-mcp', 'usage.json'),
+  // Days kept in the ledger: min 31, max 3650, default 400
+  RETENTION_DAYS: safeParseInt(process.env.MCP_USAGE_RETENTION_DAYS, 400, 31, 3650),
 } as const;
 
+export type UsageCaps = Record<UsageProvider, { daily: number; monthly: number }>;
+
+// USAGE_CAP_<PROVIDER>_<DAILY|MONTHLY>, parsed once (0 = no cap)
+const ENV_USAGE_CAPS = Object.fromEntries(USAGE_PROVIDERS.map(provider => {
+  const prefix = `USAGE_CAP_${provider.toUpperCase()}`;
+  return [provider, {
+    daily: safeParseInt(process.env[`${prefix}_DAILY`], 0, 0, Number.MAX_SAFE_INTEGER),
+    monthly: safeParseInt(process.env[`${prefix}_MONTHLY`], 0, 0, Number.MAX_SAFE_INTEGER),
+  }];
+})) as UsageCaps;
+
+/**
+ * Current spending caps (0 = no cap) - read on every check so reloaded caps apply immediately
+ * The settings file `usage_caps` section takes precedence over ENV
+ */
+export function getUsageCaps(): UsageCaps {
+  const fileCaps = getFileUsageCaps();
+  const caps = {} as UsageCaps;
+  for (const provider of USAGE_PROVIDERS) {
+    caps[provider] = { ...ENV_USAGE_CAPS[provider], ...fileCaps[provider] };
+  }
+  return caps;
+}
+
 // ============================================================================
 // Capability Detection (which features are available based on ENV)
 // ============================================================================
 
-interface Capabilities {
+export interface Capabilities {
   reddit: boolean;        // REDDIT_CLIENT_ID + REDDIT_CLIENT_SECRET
-  search: boolean;        // SERPER_API_KEY
+  search: boolean;        // SERPER_API_KEY (or another search provider's key / SEARXNG_URL)
   scraping: boolean;      // SCRAPEDO_API_KEY
   deepResearch: boolean;  // OPENROUTER_API_KEY
   llmExtraction: boolean; // OPENROUTER_API_KEY (for what_to_extract in scraping)
 }
 
-export function getCapabilities(): Capabilities {
-  const env = parseEnv();
+export type CapabilityName = keyof Capabilities;
+
+export const CAPABILITY_NAMES: readonly CapabilityName[] = ['reddit', 'search', 'scraping', 'deepResearch', 'llmExtraction'];
+
+/**
+ * Credential a search provider needs from a key set (SearXNG: its base URL)
+ */
+export function getSearchProviderCredential(env: EnvConfig, provider: SearchProviderName): string | undefined {
+  switch (provider) {
+    case 'serper': return env.SEARCH_API_KEY;
+    case 'brave': return env.BRAVE_API_KEY;
+    case 'tavily': return env.TAVILY_API_KEY;
+    case 'bing': return env.BING_API_KEY;
+    case 'searxng': return env.SEARXNG_URL;
+  }
+}
+
+/**
+ * Search providers usable with a key set, in the order they are tried
+ * SEARCH.PROVIDERS (or every provider when it is empty) minus the ones without credentials
+ */
+export function getSearchProviders(env: EnvConfig = parseEnv()): SearchProviderName[] {
+  const order = SEARCH.PROVIDERS.length > 0 ? SEARCH.PROVIDERS : SEARCH_PROVIDER_NAMES;
+  return order.filter(provider => !!getSearchProviderCredential(env, provider));
+}
+
+/**
+ * Detect capabilities from a key set
+ * Defaults to the process environment; HTTP callers pass their own key set
+ */
+export function getCapabilities(env: EnvConfig = parseEnv()): Capabilities {
   return {
     reddit: !!(env.REDDIT_CLIENT_ID && env.REDDIT_CLIENT_SECRET),
-    search: !!env.SEARCH_API_KEY,
+    search: getSearchProviders(env).length > 0,
     scraping: !!env.SCRAPER_API_KEY,
-    deepResearch: !!RESEARCH.API_KEY,
-    llmExtraction: !!RESEARCH.API_KEY, // Reuses OPENROUTER for LLM extraction
+    deepResearch: !!env.RESEARCH_API_KEY,
+    llmExtraction: !!env.RESEARCH_API_KEY, // Reuses OPENROUTER for LLM extraction
   };
 }
 
-export function getMissingEnvMessage(capability: keyof Capabilities): string {
-  const messages: Record<keyof Capabilities, string> = {
+// ENV variables each capability needs (short form for tool annotations)
+export const CAPABILITY_ENV_VARS: Record<CapabilityName, string> = {
+  reddit: 'REDDIT_CLIENT_ID + REDDIT_CLIENT_SECRET',
+  search: 'SERPER_API_KEY (or BRAVE_API_KEY, TAVILY_API_KEY, BING_API_KEY, SEARXNG_URL)',
+  scraping: 'SCRAPEDO_API_KEY',
+  deepResearch: 'OPENROUTER_API_KEY',
+  llmExtraction: 'OPENROUTER_API_KEY',
+};
+
+export function getMissingEnvMessage(capability: CapabilityName): string {
+  const messages: Record<CapabilityName, string> = {
     reddit: '❌ **Reddit tools unavailable.** Set `REDDIT_CLIENT_ID` and `REDDIT_CLIENT_SECRET` to enable.\n\n👉 Create a Reddit app at: https://www.reddit.com/prefs/apps (select "script" type)',
-    search: '❌ **Search unavailable.** Set `SERPER_API_KEY` to enable web search and Reddit search.\n\n👉 Get your free API key at: https://serper.dev (2,500 free queries)',
+    search: '❌ **Search unavailable.** Set `SERPER_API_KEY` to enable web search and Reddit search (or `BRAVE_API_KEY`, `TAVILY_API_KEY`, `BING_API_KEY`, `SEARXNG_URL` - see `SEARCH_PROVIDERS`).\n\n👉 Get your free API key at: https://serper.dev (2,500 free queries)',
     scraping: '❌ **Web scraping unavailable.** Set `SCRAPEDO_API_KEY` to enable URL content extraction.\n\n👉 Sign up at: https://scrape.do (1,000 free credits)',
     deepResearch: '❌ **Deep research unavailable.** Set `OPENROUTER_API_KEY` to enable AI-powered research.\n\n👉 Get your API key at: https://openrouter.ai/keys',
     llmExtraction: '⚠️ **AI extraction disabled.** The `use_llm` and `what_to_extract` features require `OPENROUTER_API_KEY`.\n\nScraping will work but without intelligent content filtering.',
@@ -135,22 +381,33 @@ export function getMissingEnvMessage(capability: keyof Capabilities): string {
 // Scraper Configuration (Scrape.do implementation)
 // ============================================================================
 
-export const SCRAPER = {
+export const SCRAPER = tunable('scraper', {
+  // Requests in flight at once, within each batch of BATCH_SIZE URLs
   MAX_CONCURRENT: 30,
   BATCH_SIZE: 30,
   MAX_TOKENS_BUDGET: 32000,
-  MIN_URLS: 3,
+  // URLs per scrape_links call - the input schema allows 1-50, settings can narrow that
+  MIN_URLS: 1,
   MAX_URLS: 50,
   RETRY_COUNT: 3,
-  RETRY_DELAYS: [2000, 4000, 8000] as const,
+  RETRY_DELAYS: [2000, 4000, 8000] as readonly number[],
+  // Scraped pages are served from the cache for CACHE_TTL_MS (0 = no caching), then revalidated with
+  // ETag/Last-Modified until CACHE_REVALIDATE_MS: max 30 days, default 6hr / off
+  // Revalidation relies on Scrape.do forwarding the conditional headers and the origin's 304 (customHeaders=true) -
+  // opt in once your plan is known to; a response that doesn't fit falls back to a full scrape
+  CACHE_TTL_MS: safeParseInt(process.env.SCRAPER_CACHE_TTL_MS, 21600000, 0, 2592000000),
+  CACHE_REVALIDATE_MS: safeParseInt(process.env.SCRAPER_CACHE_REVALIDATE_MS, 0, 0, 2592000000),
+  // How long the fallback mode that worked for a domain is remembered (0 = always start with basic mode)
+  DOMAIN_MODE_TTL_MS: safeParseInt(process.env.SCRAPER_DOMAIN_MODE_TTL_MS, 2592000000, 0, 7776000000),
   EXTRACTION_SUFFIX: 'Try to answer this information as comprehensive as possible while keeping info density super high without adding unnecessary words but satisfy the scope defined by previous instructions even more.',
-} as const;
+});
 
 // ============================================================================
 // Reddit Configuration
 // ============================================================================
 
-export const REDDIT = {
+export const REDDIT = tunable('reddit', {
+  // Requests in flight at once, within each batch of BATCH_SIZE posts
   MAX_CONCURRENT: 10,
   BATCH_SIZE: 10,
   MAX_COMMENT_BUDGET: 1000,
@@ -158,14 +415,14 @@ export const REDDIT = {
   MIN_POSTS: 2,
   MAX_POSTS: 50,
   RETRY_COUNT: 5,
-  RETRY_DELAYS: [2000, 4000, 8000, 16000, 32000] as const,
-} as const;
+  RETRY_DELAYS: [2000, 4000, 8000, 16000, 32000] as readonly number[],
+});
 
 // ============================================================================
 // CTR Weights for URL Ranking (inspired from CTR research)
 // ============================================================================
 
-export const CTR_WEIGHTS: Record<number, number> = {
+export const CTR_WEIGHTS: Readonly<Record<number, number>> = tunable('ctr_weights', {
   1: 100.00,
   2: 60.00,
   3: 48.89,
@@ -176,14 +433,34 @@ export const CTR_WEIGHTS: Record<number, number> = {
   8: 17.78,
   9: 13.33,
   10: 12.56,
-} as const;
+});
 
 // ============================================================================
 // LLM Extraction Model (uses OPENROUTER for scrape_links AI extraction)
 // ============================================================================
 
-export const LLM_EXTRACTION = {
+export const LLM_EXTRACTION = tunable('llm_extraction', {
   MODEL: process.env.LLM_EXTRACTION_MODEL || 'openai/gpt-oss-120b:nitro',
   MAX_TOKENS: 8000,
   ENABLE_REASONING: process.env.LLM_ENABLE_REASONING !== 'false', // Default true, can be disabled with 'false'
-} as const;
+});
+
+// ============================================================================
+// Query Expansion (uses OPENROUTER to turn a `topic` into search queries)
+// ============================================================================
+
+export const QUERY_EXPANSION = tunable('query_expansion', {
+  // Empty = LLM_EXTRACTION.MODEL, resolved per call (see getQueryExpansionModel) so a profile's extraction model applies
+  MODEL: process.env.QUERY_EXPANSION_MODEL || '',
+  MAX_TOKENS: 2000,
+  // Queries generated per topic: web_search max 100, search_reddit max 50
+  WEB_QUERIES: 8,
+  REDDIT_QUERIES: 20,
+});
+
+/**
+ * Model that expands topics into queries - QUERY_EXPANSION.MODEL, or the extraction model when unset
+ */
+export function getQueryExpansionModel(): string {
+  return QUERY_EXPANSION.MODEL || LLM_EXTRACTION.MODEL;
+}
@@ -0,0 +1,371 @@
+/**
+ * Tuning Settings File + Profiles
+ * Overrides for the tuning constants in config/index.ts (budgets, retries, models, CTR weights)
+ *
+ * Sources (lowest to highest precedence):
+ *   built-in defaults + ENV  (config/index.ts)
+ *   settings file            MCP_CONFIG_FILE or --config (.json, .yaml, .yml)
+ *   profile                  MCP_PROFILE or --profile for the process, `profile` argument per tool call
+ *
+ *   # research-powerpack.yaml
+ *   scraper:
+ *     max_tokens_budget: 24000
+ *   profiles:
+ *     cheap:
+ *       research: { model: google/gemini-2.5-flash, token_budget: 8000 }
+ *
+ * File keys are the lower-case names of the constants they override
+ * (scraper.max_tokens_budget -> SCRAPER.MAX_TOKENS_BUDGET).
+ *
+ * An optional top-level `keys` section holds API keys (same names as the ENV variables)
+ * and takes precedence over the environment - edit it to rotate keys without a restart.
+ *
+ * `usage_caps` (top-level only - profiles cannot raise them) sets daily/monthly spending caps
+ * per provider and takes precedence over the USAGE_CAP_* ENV variables.
+ */
+
+import { readFileSync } from 'node:fs';
+import { extname } from 'node:path';
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { parse as parseYaml } from 'yaml';
+import { z } from 'zod';
+
+// ============================================================================
+// Schema
+// ============================================================================
+
+// Search backends (re-exported by config/index.ts) - listed here so search.providers can be validated
+export const SEARCH_PROVIDER_NAMES = ['serper', 'brave', 'tavily', 'bing', 'searxng'] as const;
+export type SearchProviderName = typeof SEARCH_PROVIDER_NAMES[number];
+
+const retryDelaysSchema = z.array(z.number().int().min(0).max(300000)).min(1).max(10);
+
+const researchSettingsSchema = z.object({
+  base_url: z.string().url(),
+  model: z.string().min(1),
+  fallback_model: z.string().min(1),
+  timeout_ms: z.number().int().min(1000).max(3600000),
+  reasoning_effort: z.enum(['low', 'medium', 'high']),
+  max_urls: z.number().int().min(10).max(200),
+  token_budget: z.number().int().min(1000).max(200000),
+  max_retries: z.number().int().min(0).max(10),
+  retry_base_delay_ms: z.number().int().min(0).max(300000),
+  retry_max_delay_ms: z.number().int().min(0).max(600000),
+}).strict().partial();
+
+const searchSettingsSchema = z.object({
+  providers: z.array(z.enum(SEARCH_PROVIDER_NAMES)).max(SEARCH_PROVIDER_NAMES.length),
+  provider_concurrency: z.number().int().min(1).max(50),
+  related_budget: z.number().int().min(1).max(100),
+  max_retries: z.number().int().min(0).max(10),
+  retry_base_delay_ms: z.number().int().min(0).max(300000),
+  retry_max_delay_ms: z.number().int().min(0).max(600000),
+  timeout_ms: z.number().int().min(1000).max(300000),
+  cache_ttl_ms: z.number().int().min(0).max(2592000000),
+  reddit_cache_ttl_ms: z.number().int().min(0).max(2592000000),
+}).strict().partial();
+
+const scraperSettingsSchema = z.object({
+  max_concurrent: z.number().int().min(1).max(100),
+  max_tokens_budget: z.number().int().min(1000).max(500000),
+  batch_size: z.number().int().min(1).max(100),
+  min_urls: z.number().int().min(1).max(50),
+  max_urls: z.number().int().min(1).max(50),
+  // Attempts per request, the first one included
+  retry_count: z.number().int().min(1).max(10),
+  retry_delays: retryDelaysSchema,
+  cache_ttl_ms: z.number().int().min(0).max(2592000000),
+  cache_revalidate_ms: z.number().int().min(0).max(2592000000),
+  domain_mode_ttl_ms: z.number().int().min(0).max(7776000000),
+  extraction_suffix: z.string(),
+}).strict().partial();
+
+const redditSettingsSchema = z.object({
+  max_concurrent: z.number().int().min(1).max(50),
+  max_comment_budget: z.number().int().min(10).max(10000),
+  max_comments_per_post: z.number().int().min(1).max(1000),
+  batch_size: z.number().int().min(1).max(100),
+  min_posts: z.number().int().min(1).max(50),
+  max_posts: z.number().int().min(1).max(50),
+  retry_count: z.number().int().min(1).max(10),
+  retry_delays: retryDelaysSchema,
+}).strict().partial();
+
+const llmExtractionSettingsSchema = z.object({
+  model: z.string().min(1),
+  max_tokens: z.number().int().min(100).max(100000),
+  enable_reasoning: z.boolean(),
+}).strict().partial();
+
+const queryExpansionSettingsSchema = z.object({
+  model: z.string().min(1),
+  max_tokens: z.number().int().min(100).max(100000),
+  web_queries: z.number().int().min(1).max(100),
+  reddit_queries: z.number().int().min(3).max(50),
+}).strict().partial();
+
+// Google result position (1-10) -> weight
+const ctrWeightsSchema = z.record(
+  z.enum(['1', '2', '3', '4', '5', '6', '7', '8', '9', '10'], { message: 'ctr_weights: keys must be positions 1-10' }),
+  z.number().min(0).max(1000)
+);
+
+const settingsOverrideSchema = z.object({
+  research: researchSettingsSchema.optional(),
+  search: searchSettingsSchema.optional(),
+  scraper: scraperSettingsSchema.optional(),
+  reddit: redditSettingsSchema.optional(),
+  llm_extraction: llmExtractionSettingsSchema.optional(),
+  query_expansion: queryExpansionSettingsSchema.optional(),
+  ctr_weights: ctrWeightsSchema.optional(),
+}).strict();
+
+// API keys by ENV variable name - shared with the HTTP client profiles file
+export const apiKeysSchema = z.object({
+  SERPER_API_KEY: z.string().min(1).optional(),
+  SCRAPEDO_API_KEY: z.string().min(1).optional(),
+  REDDIT_CLIENT_ID: z.string().min(1).optional(),
+  REDDIT_CLIENT_SECRET: z.string().min(1).optional(),
+  OPENROUTER_API_KEY: z.string().min(1).optional(),
+  BRAVE_API_KEY: z.string().min(1).optional(),
+  TAVILY_API_KEY: z.string().min(1).optional(),
+  BING_API_KEY: z.string().min(1).optional(),
+  SEARXNG_URL: z.string().url().optional(),
+}).strict();
+
+export type ApiKeys = z.infer<typeof apiKeysSchema>;
+
+// Spending caps per provider (0 = no cap) - queries, credits and tokens respectively
+const usageCapSchema = z.object({
+  daily: z.number().int().min(0),
+  monthly: z.number().int().min(0),
+}).strict().partial();
+
+const usageCapsSchema = z.object({
+  serper: usageCapSchema,
+  brave: usageCapSchema,
+  tavily: usageCapSchema,
+  bing: usageCapSchema,
+  scrapedo: usageCapSchema,
+  openrouter: usageCapSchema,
+}).strict().partial();
+
+export type UsageCapsSettings = z.infer<typeof usageCapsSchema>;
+
+const PROFILE_NAME_PATTERN = /^[a-zA-Z0-9_-]{1,32}$/;
+
+// Per-call limits that must stay in order - min above max rejects every call
+// A side the settings leave unset keeps its built-in default (config/index.ts)
+const ORDERED_LIMITS = [
+  { section: 'scraper', min: 'min_urls', max: 'max_urls', defaults: [1, 50] },
+  { section: 'reddit', min: 'min_posts', max: 'max_posts', defaults: [2, 50] },
+] as const;
+
+/**
+ * Report min/max pairs out of order - checked on the top-level sections, and on each profile
+ * merged onto them for the pairs the profile sets
+ */
+function checkLimitOrder(override: SettingsOverride, path: (string | number)[], ctx: z.RefinementCtx, profile?: SettingsOverride): void {
+  for (const { section, min, max, defaults } of ORDERED_LIMITS) {
+    const own = profile?.[section] as Record<string, number | undefined> | undefined;
+    if (profile && own?.[min] === undefined && own?.[max] === undefined) continue;
+    const values = override[section] as Record<string, number | undefined> | undefined;
+    const low = values?.[min] ?? defaults[0];
+    const high = values?.[max] ?? defaults[1];
+    if (low > high) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: [...path, section], message: `${min} (${low}) must not exceed ${max} (${high})` });
+    }
+  }
+}
+
+const settingsFileSchema = settingsOverrideSchema.extend({
+  keys: apiKeysSchema.optional(),
+  usage_caps: usageCapsSchema.optional(),
+  profiles: z.record(
+    z.string().regex(PROFILE_NAME_PATTERN, { message: 'profiles: names may only use letters, digits, "_" and "-" (max 32)' }),
+    settingsOverrideSchema
+  ).optional(),
+}).strict().superRefine(({ profiles: fileProfiles, keys: _keys, usage_caps: _usageCaps, ...base }, ctx) => {
+  checkLimitOrder(base, [], ctx);
+  for (const [name, override] of Object.entries(fileProfiles ?? {})) {
+    checkLimitOrder(mergeOverrides(base, override), ['profiles', name], ctx, override);
+  }
+});
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type SettingsOverride = z.infer<typeof settingsOverrideSchema>;
+export type SettingsSection = keyof SettingsOverride;
+
+// ============================================================================
+// Built-in Profiles (a file profile with the same name replaces these)
+// ============================================================================
+
+const BUILTIN_PROFILES: Record<string, SettingsOverride> = {
+  // Lower budgets, fewer retries - quick answers and lower API spend
+  fast: {
+    research: { reasoning_effort: 'low', token_budget: 12000, max_urls: 20, max_retries: 1 },
+    search: { max_retries: 1, timeout_ms: 15000 },
+    scraper: { max_tokens_budget: 16000, retry_count: 1, retry_delays: [1000] },
+    reddit: { max_comment_budget: 300, max_comments_per_post: 50, retry_count: 2, retry_delays: [1000, 2000] },
+    llm_extraction: { enable_reasoning: false, max_tokens: 4000 },
+  },
+  // Bigger budgets, more patience - for deep dives where completeness matters
+  thorough: {
+    research: { reasoning_effort: 'high', token_budget: 64000, max_urls: 200, max_retries: 5 },
+    search: { max_retries: 4, timeout_ms: 45000 },
+    scraper: { max_tokens_budget: 64000, retry_count: 4, retry_delays: [2000, 4000, 8000, 16000] },
+    reddit: { max_comment_budget: 2000, max_comments_per_post: 400 },
+    llm_extraction: { enable_reasoning: true, max_tokens: 16000 },
+  },
+};
+
+// ============================================================================
+// State (module-level, loaded at startup and on every reload)
+// ============================================================================
+
+let fileSettings: SettingsOverride = {};
+let fileKeys: ApiKeys = {};
+let fileUsageCaps: UsageCapsSettings = {};
+let profiles = new Map<string, SettingsOverride>(Object.entries(BUILTIN_PROFILES));
+let processProfile: string | undefined;
+let processOverrides: SettingsOverride = {};
+let loadedFrom: string | undefined;
+
+// Profile selected for the current tool call (set by runWithProfile)
+const callOverrides = new AsyncLocalStorage<SettingsOverride>();
+
+/**
+ * Merge section by section - later values win
+ */
+function mergeOverrides(base: SettingsOverride, top: SettingsOverride | undefined): SettingsOverride {
+  if (!top) return base;
+  const merged: Record<string, unknown> = { ...base };
+  for (const [section, values] of Object.entries(top)) {
+    merged[section] = { ...(base[section as SettingsSection] ?? {}), ...values };
+  }
+  return merged as SettingsOverride;
+}
+
+/**
+ * Parse a settings file (.json, .yaml, .yml)
+ * Throws with the file path and every validation issue
+ */
+function readSettingsFile(path: string): z.infer<typeof settingsFileSchema> {
+  const raw = readFileSync(path, 'utf-8');
+  const isYaml = ['.yaml', '.yml'].includes(extname(path).toLowerCase());
+
+  let data: unknown;
+  try {
+    data = isYaml ? parseYaml(raw) : JSON.parse(raw);
+  } catch (error) {
+    throw new Error(`Invalid settings file ${path}: not valid ${isYaml ? 'YAML' : 'JSON'} (${error instanceof Error ? error.message : String(error)})`);
+  }
+
+  const parsed = settingsFileSchema.safeParse(data ?? {});
+  if (!parsed.success) {
+    const issues = parsed.error.errors.map(e => `  - ${e.path.join('.') || '(root)'}: ${e.message}`).join('\n');
+    throw new Error(`Invalid settings file ${path}:\n${issues}`);
+  }
+  return parsed.data;
+}
+
+/**
+ * Load the settings file and select the process profile
+ * Throws on an invalid file or unknown profile - a typo must not silently run with defaults
+ */
+export function loadSettings(options: { file?: string; profile?: string }): void {
+  const parsed = options.file ? readSettingsFile(options.file) : {};
+  const { profiles: fileProfiles, keys, usage_caps: usageCaps, ...base } = parsed;
+
+  const nextProfiles = new Map<string, SettingsOverride>(Object.entries(BUILTIN_PROFILES));
+  for (const [name, override] of Object.entries(fileProfiles ?? {})) {
+    nextProfiles.set(name, override);
+  }
+
+  if (options.profile && !nextProfiles.has(options.profile)) {
+    throw new Error(`Unknown profile "${options.profile}". Available profiles: ${[...nextProfiles.keys()].join(', ')}`);
+  }
+
+  fileSettings = base;
+  fileKeys = keys ?? {};
+  fileUsageCaps = usageCaps ?? {};
+  profiles = nextProfiles;
+  processProfile = options.profile || undefined;
+  processOverrides = mergeOverrides(fileSettings, processProfile ? profiles.get(processProfile) : undefined);
+  loadedFrom = options.file;
+}
+
+// ============================================================================
+// Access
+// ============================================================================
+
+/**
+ * API keys from the settings file (empty without one) - these win over ENV
+ */
+export function getFileKeys(): ApiKeys {
+  return fileKeys;
+}
+
+/**
+ * Spending caps from the settings file (empty without one) - these win over ENV
+ */
+export function getFileUsageCaps(): UsageCapsSettings {
+  return fileUsageCaps;
+}
+
+export function getProfileNames(): string[] {
+  return [...profiles.keys()];
+}
+
+export function hasProfile(name: string): boolean {
+  return profiles.has(name);
+}
+
+/**
+ * Where the active settings come from (for startup logs)
+ */
+export function describeSettings(): string {
+  const source = loadedFrom ? `settings file ${loadedFrom}` : 'built-in defaults';
+  return processProfile ? `${source}, profile "${processProfile}"` : source;
+}
+
+/**
+ * Overrides in effect right now - the call's profile inside runWithProfile, else the process ones
+ */
+export function activeOverrides(): SettingsOverride {
+  return callOverrides.getStore() ?? processOverrides;
+}
+
+/**
+ * Run fn with a profile applied on top of the settings file (replaces the process profile)
+ * Unknown profile names throw - callers validate with hasProfile() first
+ */
+export function runWithProfile<T>(profile: string | undefined, fn: () => T): T {
+  if (!profile) return fn();
+  const override = profiles.get(profile);
+  if (!override) {
+    throw new Error(`Unknown profile "${profile}"`);
+  }
+  return callOverrides.run(mergeOverrides(fileSettings, override), fn);
+}
+
+/**
+ * Read-only view of a constants block that resolves each value against the active overrides
+ * e.g. tunable('scraper', { MAX_TOKENS_BUDGET: 32000 }).MAX_TOKENS_BUDGET reads scraper.max_tokens_budget
+ */
+export function tunable<T extends Record<string, unknown>>(section: SettingsSection, defaults: T): Readonly<T> {
+  const view = {} as T;
+  for (const key of Object.keys(defaults)) {
+    Object.defineProperty(view, key, {
+      enumerable: true,
+      get: () => {
+        const values = activeOverrides()[section] as Record<string, unknown> | undefined;
+        return values?.[key.toLowerCase()] ?? defaults[key];
+      },
+    });
+  }
+  return Object.freeze(view);
+}
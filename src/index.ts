@@ -3,190 +3,112 @@
 /**
  * Research Powerpack MCP Server
  * Implements robust error handling - server NEVER crashes on tool failures
+ *
+ * Transports:
+ *   stdio (default)     research-powerpack-mcp
+ *   Streamable HTTP     research-powerpack-mcp --transport http [--port 3000] [--host 127.0.0.1]
+ *
+ * Settings: [--config settings.yaml] [--profile fast] (or MCP_CONFIG_FILE / MCP_PROFILE)
+ * Reload:   SIGHUP or editing the settings / clients file re-reads config and API keys
+ *
+ * CLI (no MCP client): research-powerpack-mcp search|scrape|reddit|research ... (see cli.ts)
  */
 
-import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { watchFile } from 'node:fs';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
-import { CallToolRequestSchema, ListToolsRequestSchema, McpError, ErrorCode as McpErrorCode } from '@modelcontextprotocol/sdk/types.js';
-
-import { TOOLS } from './tools/definitions.js';
-import { handleSearchReddit, handleGetRedditPosts } from './tools/reddit.js';
-import { handleDeepResearch } from './tools/research.js';
-import { handleScrapeLinks } from './tools/scrape.js';
-import { handleWebSearch } from './tools/search.js';
-import { deepResearchParamsSchema } from './schemas/deep-research.js';
-import { scrapeLinksParamsSchema } from './schemas/scrape-links.js';
-import { webSearchParamsSchema } from './schemas/web-search.js';
-import { classifyError, createToolErrorFromStructured } from './utils/errors.js';
-import { parseEnv, SERVER, getCapabilities, getMissingEnvMessage } from './config/index.js';
+
+import { createServer, notifyToolListChanged } from './server.js';
+import { isCliCommand, runCli } from './cli.js';
+import { BUILTIN_TOOLS } from './tools/definitions.js';
+import { toolRegistry, loadToolModules } from './tools/registry.js';
+import { startHttpServer } from './transports/http.js';
+import { classifyError } from './utils/errors.js';
+import { SERVER, getCapabilities } from './config/index.js';
+import { loadSettings, describeSettings } from './config/settings.js';
+import { loadClientProfiles } from './config/clients.js';
+import { clearRedditTokenCache } from './clients/reddit.js';
+import { resetLLMClients } from './services/llm-processor.js';
+import { flushUsage } from './services/usage-ledger.js';
 
 // ============================================================================
-// Capability Detection (no ENV required - tools fail gracefully when called)
+// CLI Arguments
 // ============================================================================
 
-const env = parseEnv();
-const capabilities = getCapabilities();
+/**
+ * Read a CLI flag value, supporting both `--flag value` and `--flag=value`
+ */
+function getArg(name: string): string | undefined {
+  const args = process.argv.slice(2);
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (arg === name) return args[i + 1];
+    if (arg?.startsWith(`${name}=`)) return arg.slice(name.length + 1);
+  }
+  return undefined;
+}
 
-// Log available capabilities for debugging
-const enabledTools: string[] = [];
-const disabledTools: string[] = [];
+const transportType = (getArg('--transport') || process.env.MCP_TRANSPORT || 'stdio').toLowerCase();
 
-if (capabilities.search) {
-  enabledTools.push('web_search', 'search_reddit');
-} else {
-  disabledTools.push('web_search', 'search_reddit');
-}
-if (capabilities.reddit) {
-  enabledTools.push('get_reddit_post');
-} else {
-  disabledTools.push('get_reddit_post');
-}
-if (capabilities.scraping) {
-  enabledTools.push('scrape_links');
-} else {
-  disabledTools.push('scrape_links');
-}
-if (capabilities.deepResearch) {
-  enabledTools.push('deep_research');
-} else {
-  disabledTools.push('deep_research');
+if (transportType !== 'stdio' && transportType !== 'http') {
+  console.error(`[MCP Server] Unknown transport "${transportType}". Use "stdio" or "http".`);
+  process.exit(1);
 }
 
-if (enabledTools.length > 0) {
-  console.error(`✅ Enabled tools: ${enabledTools.join(', ')}`);
-}
-if (disabledTools.length > 0) {
-  console.error(`⚠️ Disabled tools (missing ENV): ${disabledTools.join(', ')}`);
+const portArg = getArg('--port');
+const httpPort = portArg ? parseInt(portArg, 10) : undefined;
+if (httpPort !== undefined && (isNaN(httpPort) || httpPort < 1 || httpPort > 65535)) {
+  console.error(`[MCP Server] Invalid --port "${portArg}"`);
+  process.exit(1);
 }
-if (capabilities.scraping && !capabilities.llmExtraction) {
-  console.error(`ℹ️ scrape_links: AI extraction (use_llm) disabled - set OPENROUTER_API_KEY to enable`);
+
+const settingsOptions = {
+  file: getArg('--config') || process.env.MCP_CONFIG_FILE || undefined,
+  profile: getArg('--profile') || process.env.MCP_PROFILE || undefined,
+};
+
+// Settings file + profile - an invalid file or unknown profile is fatal, like a bad clients file
+try {
+  loadSettings(settingsOptions);
+} catch (error) {
+  // Not classifyError - its generic messages would hide which key or line is wrong
+  console.error(`[MCP Server] ${error instanceof Error ? error.message : String(error)}`);
+  process.exit(1);
 }
 
 // ============================================================================
-// Server Setup
+// Capability Detection (no ENV required - tools fail gracefully when called)
 // ============================================================================
 
-const server = new Server(
-  { name: SERVER.NAME, version: SERVER.VERSION },
-  { capabilities: { tools: {} } }
-);
-
-server.setRequestHandler(ListToolsRequestSchema, async () => ({ tools: TOOLS }));
-
-server.setRequestHandler(CallToolRequestSchema, async (request) => {
-  const { name, arguments: args } = request.params;
-
-  try {
-    // ========== SEARCH_REDDIT ==========
-    if (name === 'search_reddit') {
-      // Check capability
-      if (!capabilities.search) {
-        return { content: [{ type: 'text', text: getMissingEnvMessage('search') }], isError: true };
-      }
-      const { queries, date_after } = args as { queries: string[]; date_after?: string };
-      if (!Array.isArray(queries) || queries.length === 0) {
-        return { content: [{ type: 'text', text: 'Error: queries must be a non-empty array of strings' }], isError: true };
-      }
-      const result = await handleSearchReddit(queries, env.SEARCH_API_KEY!, date_after);
-      return { content: [{ type: 'text', text: result }] };
-    }
-
-    // ========== GET_REDDIT_POST ==========
-    if (name === 'get_reddit_post') {
-      // Check capability
-      if (!capabilities.reddit) {
-        return { content: [{ type: 'text', text: getMissingEnvMessage('reddit') }], isError: true };
-      }
-      const { urls, max_comments = 100, fetch_comments = true } = args as { urls: string[]; max_comments?: number; fetch_comments?: boolean };
-      if (!Array.isArray(urls) || urls.length === 0) {
-        return { content: [{ type: 'text', text: 'Error: urls must be a non-empty array of Reddit post URLs' }], isError: true };
-      }
-      const result = await handleGetRedditPosts(urls, env.REDDIT_CLIENT_ID!, env.REDDIT_CLIENT_SECRET!, max_comments, {
-        fetchComments: fetch_comments,
-        maxCommentsOverride: max_comments !== 100 ? max_comments : undefined,
-      });
-      return { content: [{ type: 'text', text: result }] };
-    }
+// Built-in tools - third-party modules from MCP_TOOLS_DIR are added in start()
+toolRegistry.register(...BUILTIN_TOOLS);
 
-    // ========== DEEP_RESEARCH ==========
-    if (name === 'deep_research') {
-      // Check capability
-      if (!capabilities.deepResearch) {
-        return { content: [{ type: 'text', text: getMissingEnvMessage('deepResearch') }], isError: true };
-      }
-      const validatedParams = deepResearchParamsSchema.parse(args);
-      const { content, structuredContent } = await handleDeepResearch(validatedParams);
-      if (structuredContent && typeof structuredContent === 'object' && 'error' in structuredContent && structuredContent.error) {
-        return { content: [{ type: 'text', text: content }], isError: true };
-      }
-      return { content: [{ type: 'text', text: content }] };
-    }
-
-    // ========== SCRAPE_LINKS ==========
-    if (name === 'scrape_links') {
-      // Check capability
-      if (!capabilities.scraping) {
-        return { content: [{ type: 'text', text: getMissingEnvMessage('scraping') }], isError: true };
-      }
-      const validatedParams = scrapeLinksParamsSchema.parse(args);
-      
-      // Warn if use_llm requested but LLM not available
-      if (validatedParams.use_llm && !capabilities.llmExtraction) {
-        console.error('[scrape_links] use_llm requested but OPENROUTER_API_KEY not set - proceeding without AI extraction');
-        validatedParams.use_llm = false;
-      }
-      
-      const { content, structuredContent } = await handleScrapeLinks(validatedParams);
-      if (structuredContent.metadata.failed === structuredContent.metadata.total_urls) {
-        return { content: [{ type: 'text', text: content }], isError: true };
-      }
-      return { content: [{ type: 'text', text: content }] };
-    }
-
-    // ========== WEB_SEARCH ==========
-    if (name === 'web_search') {
-      // Check capability
-      if (!capabilities.search) {
-        return { content: [{ type: 'text', text: getMissingEnvMessage('search') }], isError: true };
-      }
-      const validatedParams = webSearchParamsSchema.parse(args);
-      const { content, structuredContent } = await handleWebSearch(validatedParams);
-      if (structuredContent.metadata.total_results === 0) {
-        return { content: [{ type: 'text', text: content }], isError: true };
-      }
-      return { content: [{ type: 'text', text: content }] };
-    }
+/**
+ * Log which registered tools are usable with the process ENV keys
+ */
+function logToolAvailability(): void {
+  const capabilities = getCapabilities();
+  const enabledTools: string[] = [];
+  const disabledTools: string[] = [];
 
-    /**
-     * Protocol Error: Unknown tool requested
-     * Per MCP spec, use McpError for protocol-level errors (tool not found, invalid params)
-     * vs isError:true for tool execution failures (network, API, timeout)
-     */
-    throw new McpError(
-      McpErrorCode.MethodNotFound,
-      `Method not found: ${name}. Available tools: search_reddit, get_reddit_post, deep_research, scrape_links, web_search`
-    );
-  } catch (error) {
-    // McpError should propagate to client as protocol error
-    if (error instanceof McpError) {
-      throw error;
+  for (const name of toolRegistry.names()) {
+    const tool = toolRegistry.get(name);
+    if (!tool?.capability || capabilities[tool.capability]) {
+      enabledTools.push(name);
+    } else {
+      disabledTools.push(name);
     }
-    
-    // Classify the error for helpful messaging
-    const structuredError = classifyError(error);
-
-    // Log for debugging
-    console.error(`[MCP Server] Tool "${name}" error:`, {
-      code: structuredError.code,
-      message: structuredError.message,
-      retryable: structuredError.retryable,
-    });
+  }
 
-    // Create standardized error response with errorCode for client programmatic handling
-    // This response includes: content (markdown), isError: true, errorCode, and retryAfter (for rate limits)
-    return createToolErrorFromStructured(structuredError);
+  if (enabledTools.length > 0) {
+    console.error(`✅ Enabled tools: ${enabledTools.join(', ')}`);
   }
-});
+  if (disabledTools.length > 0) {
+    console.error(`⚠️ Disabled tools (missing ENV): ${disabledTools.join(', ')}`);
+  }
+  if (capabilities.scraping && !capabilities.llmExtraction) {
+    console.error(`ℹ️ scrape_links: AI extraction (use_llm) disabled - set OPENROUTER_API_KEY to enable`);
+  }
+}
 
 // ============================================================================
 // Global Error Handlers - MUST EXIT on fatal errors per Node.js best practices
@@ -196,6 +118,9 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
 // Track shutdown state to prevent double shutdown
 let isShuttingDown = false;
 
+// Set once the transport is up - closes the stdio server or the HTTP listener
+let closeActive: (() => Promise<void>) | null = null;
+
 /**
  * Graceful shutdown handler - closes server and exits
  * @param exitCode - Exit code (0 for clean shutdown, 1 for error)
@@ -205,7 +130,9 @@ async function gracefulShutdown(exitCode: number): Promise<void> {
   isShuttingDown = true;
   
   try {
-    await server.close();
+    await closeActive?.();
+    // Calls cut short by the shutdown still spent credits
+    await flushUsage();
     console.error(`[MCP Server] Server closed at ${new Date().toISOString()}`);
   } catch (closeError) {
     console.error('[MCP Server] Error closing server:', closeError);
@@ -244,19 +171,99 @@ process.once('SIGINT', () => {
   console.error(`[MCP Server] Received SIGINT at ${new Date().toISOString()}, shutting down gracefully`);
   gracefulShutdown(0);
 });
+// ============================================================================
+// Config Reload (SIGHUP + settings / clients file changes)
+// ============================================================================
+
+// fs.watchFile polls mtime - survives editors that replace the file on save
+const WATCH_INTERVAL_MS = 2000;
+
+/**
+ * Re-read settings + API keys (and client profiles on HTTP), drop cached API clients,
+ * then send tools/list_changed to sessions whose visible tools changed
+ * NEVER throws - an invalid file is logged and the previous config stays active
+ */
+async function reloadConfig(reason: string): Promise<void> {
+  console.error(`[MCP Server] Reloading config (${reason})`);
+
+  try {
+    loadSettings(settingsOptions);
+  } catch (error) {
+    console.error(`[MCP Server] Reload failed, keeping previous settings: ${error instanceof Error ? error.message : String(error)}`);
+    return;
+  }
+
+  if (transportType === 'http') {
+    try {
+      const profileCount = loadClientProfiles();
+      console.error(`[MCP Server] Reloaded ${profileCount} client profile(s)`);
+    } catch (error) {
+      console.error(`[MCP Server] Client profiles not reloaded, keeping previous ones: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  clearRedditTokenCache();
+  resetLLMClients();
+  logToolAvailability();
+  console.error(`[MCP Server] Settings: ${describeSettings()}`);
+  await notifyToolListChanged();
+}
+
+/**
+ * Reload on SIGHUP and whenever the settings or clients file changes
+ */
+function watchConfig(): void {
+  process.on('SIGHUP', () => {
+    void reloadConfig('SIGHUP');
+  });
+
+  const files = [settingsOptions.file, transportType === 'http' ? process.env.MCP_AUTH_CLIENTS_FILE : undefined]
+    .filter((file): file is string => !!file);
+
+  for (const file of files) {
+    // Non-persistent: watching must not keep the process alive on shutdown
+    watchFile(file, { interval: WATCH_INTERVAL_MS, persistent: false }, (current, previous) => {
+      if (current.mtimeMs === previous.mtimeMs) return;
+      void reloadConfig(`${file} changed`);
+    });
+  }
+}
 
 // ============================================================================
 // Start Server
 // ============================================================================
 
-const transport = new StdioServerTransport();
+async function start(): Promise<void> {
+  if (SERVER.TOOLS_DIR) {
+    const loaded = await loadToolModules(SERVER.TOOLS_DIR);
+    console.error(`[MCP Server] Loaded ${loaded.length} tool(s) from ${SERVER.TOOLS_DIR}${loaded.length > 0 ? `: ${loaded.join(', ')}` : ''}`);
+  }
+  logToolAvailability();
+  console.error(`[MCP Server] Settings: ${describeSettings()}`);
 
-// Connect with error handling
-try {
-  server.connect(transport);
+  if (transportType === 'http') {
+    const httpServer = await startHttpServer({ host: getArg('--host'), port: httpPort });
+    closeActive = httpServer.close;
+    watchConfig();
+    console.error(`🚀 ${SERVER.NAME} v${SERVER.VERSION} ready (Streamable HTTP at ${httpServer.url})`);
+    return;
+  }
+
+  const server = createServer();
+  closeActive = () => server.close();
+  await server.connect(new StdioServerTransport());
+  watchConfig();
   console.error(`🚀 ${SERVER.NAME} v${SERVER.VERSION} ready`);
-} catch (error) {
-  const err = classifyError(error);
-  console.error(`[MCP Server] Failed to start: ${err.message}`);
-  process.exit(1);
+}
+
+if (isCliCommand(process.argv[2])) {
+  // CLI subcommand - run one tool and exit, no server
+  runCli(process.argv.slice(2)).then((code) => process.exit(code));
+} else {
+  // Connect with error handling
+  start().catch((error) => {
+    const err = classifyError(error);
+    console.error(`[MCP Server] Failed to start: ${err.message}`);
+    process.exit(1);
+  });
 }
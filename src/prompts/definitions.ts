@@ -0,0 +1,389 @@
+/**
+ * MCP Prompt Definitions
+ * Parameterised research workflows - each prompt expands into a ready-to-run
+ * plan that chains the built-in tools with concrete arguments filled in
+ */
+
+import { McpError, ErrorCode as McpErrorCode } from '@modelcontextprotocol/sdk/types.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface PromptArgument {
+  name: string;
+  description: string;
+  required?: boolean;
+}
+
+export interface PromptDefinition {
+  name: string;
+  title: string;
+  description: string;
+  arguments: PromptArgument[];
+  // Tools the plan calls - unavailable ones are flagged when the prompt is expanded
+  tools: string[];
+  // Throws McpError(InvalidParams) on unusable arguments
+  build(args: Record<string, string | undefined>): string;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Split a comma/newline separated argument into trimmed, non-empty items
+ */
+function splitList(value: string | undefined): string[] {
+  if (!value) return [];
+  return value.split(/[,\n]/).map(item => item.trim()).filter(Boolean);
+}
+
+/**
+ * First line of free text, shortened for use inside a search keyword
+ */
+function firstLine(text: string, max = 120): string {
+  const line = (text.split('\n').find(l => l.trim()) ?? text).trim().replace(/"/g, '');
+  return line.length > max ? line.substring(0, max).trim() : line;
+}
+
+/**
+ * Pretty-printed tool arguments block
+ */
+function toolCall(tool: string, args: Record<string, unknown>): string {
+  return `Call \`${tool}\` with:\n\n\`\`\`json\n${JSON.stringify(args, null, 2)}\n\`\`\``;
+}
+
+function unique(items: string[]): string[] {
+  return [...new Set(items)];
+}
+
+function invalidArgument(prompt: string, message: string): McpError {
+  return new McpError(McpErrorCode.InvalidParams, `${prompt}: ${message}`);
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const PLAN_RULES = `**Rules for running this plan:**
+- Run the steps in order - later steps use URLs and findings from earlier ones.
+- Pick follow-up URLs from the structured output (\`ranked_urls\`, \`ranked_posts\`) - prefer consensus entries (\`is_consensus: true\`).
+- If a step fails or returns nothing useful, say so and continue with the next step.
+- Cite sources as markdown links in the final answer.`;
+
+// ============================================================================
+// Prompts
+// ============================================================================
+
+const compareLibraries: PromptDefinition = {
+  name: 'compare_libraries',
+  title: 'Library comparison',
+  description: 'Compare 2-6 libraries for a use case: web search, community experience from Reddit, docs/repo scraping and a structured deep_research synthesis into a recommendation.',
+  arguments: [
+    { name: 'libraries', description: 'Libraries to compare, comma-separated (e.g. "zod, valibot, arktype")', required: true },
+    { name: 'use_case', description: 'What you need the library for (e.g. "validating API payloads in a Node.js backend")', required: true },
+    { name: 'constraints', description: 'Hard requirements - runtime, licence, bundle size, team experience (optional)' },
+  ],
+  tools: ['web_search', 'search_reddit', 'get_reddit_post', 'scrape_links', 'deep_research'],
+  build(args) {
+    const libraries = unique(splitList(args.libraries));
+    const useCase = args.use_case!.trim();
+    const constraints = args.constraints?.trim();
+    const year = new Date().getFullYear();
+
+    if (libraries.length < 2 || libraries.length > 6) {
+      throw invalidArgument('compare_libraries', `"libraries" needs 2-6 comma-separated names (got ${libraries.length})`);
+    }
+
+    const pairs: Array<[string, string]> = [];
+    for (let i = 0; i < libraries.length; i++) {
+      for (let j = i + 1; j < libraries.length; j++) {
+        pairs.push([libraries[i]!, libraries[j]!]);
+      }
+    }
+
+    const keywords = unique([
+      ...pairs.map(([a, b]) => `${a} vs ${b}`),
+      ...libraries.flatMap(lib => [
+        `${lib} ${useCase}`,
+        `${lib} benchmark`,
+        `${lib} changelog breaking changes`,
+        `${lib} site:github.com issues`,
+        `${lib} alternatives`,
+      ]),
+      `best library for ${useCase} ${year}`,
+    ]).slice(0, 100);
+
+    const queries = unique([
+      ...pairs.map(([a, b]) => `${a} vs ${b}`),
+      ...libraries.flatMap(lib => [
+        `${lib} production experience`,
+        `switched from ${lib}`,
+        `${lib} problems`,
+      ]),
+      `best library for ${useCase}`,
+      `${libraries.join(' or ')} ${year}`,
+    ]).slice(0, 50);
+
+    const question = `🎯 WHAT I NEED: Choose between ${libraries.join(', ')} for ${useCase}.
+
+🤔 WHY I'M RESEARCHING THIS: The choice is hard to reverse once code depends on it, so I need an evidence-based recommendation.
+
+📚 WHAT I ALREADY KNOW: [Summarise the findings from steps 1-4 here - consensus opinions, benchmark numbers, maintenance signals, known problems]
+
+🔧 HOW I PLAN TO USE THIS: Pick one library and plan its adoption${constraints ? ` under these constraints: ${constraints}` : ''}.
+
+❓ SPECIFIC QUESTIONS:
+1. How do ${libraries.join(', ')} compare on API ergonomics, performance and type safety for ${useCase}?
+2. Which is best maintained (release cadence, open issues, bus factor) and which shows signs of decline?
+3. What problems do teams hit in production with each, and what made them switch?
+4. What does migrating between them cost if the choice turns out wrong?
+
+🌐 PRIORITY SOURCES: Official docs, GitHub repos and issues, benchmark write-ups, experience reports
+
+⚡ PRIORITY INFO: Production experience over marketing claims. Recent information (${year - 1}-${year}).`;
+
+    const extraction = {
+      use_llm: true,
+      what_to_extract: `For each library: core API style, performance numbers, bundle size, TypeScript support, maintenance activity (last release, open issues), licence, known limitations for ${useCase}`,
+    };
+
+    return `# Library comparison: ${libraries.join(' vs ')}
+
+**Use case:** ${useCase}${constraints ? `\n**Constraints:** ${constraints}` : ''}
+
+${PLAN_RULES}
+
+## Step 1 - Survey the web (\`web_search\`)
+
+${toolCall('web_search', { keywords })}
+
+Note the consensus URLs: official docs, GitHub repos, benchmark posts and "X vs Y" articles.
+
+## Step 2 - Find community experience (\`search_reddit\`)
+
+${toolCall('search_reddit', { queries })}
+
+## Step 3 - Read the best threads (\`get_reddit_post\`)
+
+Call \`get_reddit_post\` with the 10-20 highest-ranked posts from step 2 (\`ranked_posts[].url\`). Look for production war stories, migration reasons and recurring complaints.
+
+## Step 4 - Read docs, repos and benchmarks (\`scrape_links\`)
+
+Call \`scrape_links\` with 5-15 URLs from step 1 - each library's docs or README, recent release notes and the most-cited benchmark or comparison article - and:
+
+\`\`\`json
+${JSON.stringify(extraction, null, 2)}
+\`\`\`
+
+## Step 5 - Synthesise (\`deep_research\`)
+
+Call \`deep_research\` with one question, replacing the placeholder with what you learned:
+
+\`\`\`json
+${JSON.stringify({ questions: [{ question }] }, null, 2)}
+\`\`\`
+
+## Deliverable
+
+1. A comparison table - one row per library: API ergonomics, performance, type safety, maintenance, ecosystem, licence${constraints ? ', fit with the constraints' : ''}.
+2. Community verdict - what practitioners say, with links to the threads.
+3. **Recommendation** for ${useCase}, the runner-up, and when you would pick the runner-up instead.
+4. Risks and migration notes for the recommended library.`;
+  },
+};
+
+const investigateBug: PromptDefinition = {
+  name: 'investigate_bug',
+  title: 'Bug investigation',
+  description: 'Investigate an error or symptom: exact-match search across GitHub issues and Stack Overflow, scraping of the most relevant threads, and a deep_research pass with your source files attached.',
+  arguments: [
+    { name: 'error', description: 'Exact error message or a precise description of the symptom', required: true },
+    { name: 'stack', description: 'Language, framework and library versions involved (e.g. "Next.js 14.2, React 18, Node 20")' },
+    { name: 'files', description: 'Absolute paths of the relevant source files, comma-separated - attached to deep_research' },
+    { name: 'tried', description: 'What you already tried and what happened' },
+  ],
+  tools: ['web_search', 'scrape_links', 'search_reddit', 'deep_research'],
+  build(args) {
+    const error = args.error!.trim();
+    const stack = args.stack?.trim();
+    const tried = args.tried?.trim();
+    const files = splitList(args.files);
+    const signature = firstLine(error);
+
+    const relativeFile = files.find(path => !path.startsWith('/') && !/^[a-zA-Z]:[\\/]/.test(path));
+    if (relativeFile) {
+      throw invalidArgument('investigate_bug', `"files" must be absolute paths (got "${relativeFile}")`);
+    }
+
+    const keywords = unique([
+      `"${signature}"`,
+      `"${signature}" site:github.com`,
+      `"${signature}" site:stackoverflow.com`,
+      `${signature} fix`,
+      ...(stack ? [`${stack} ${signature}`, `${stack} known issues`, `${stack} regression`] : []),
+    ]);
+
+    const queries = unique([
+      signature,
+      `${signature} fix`,
+      ...(stack ? [`${stack} ${signature}`] : [`${signature} help`]),
+    ]);
+
+    const question = `🎯 WHAT I NEED: Find the root cause of and a fix for: ${signature}
+
+🤔 WHY I'M RESEARCHING THIS: This bug is blocking work and the obvious fixes haven't worked.
+
+📚 WHAT I ALREADY KNOW: ${stack ? `Stack: ${stack}. ` : ''}${tried ? `Already tried: ${tried}. ` : ''}[Add what steps 1-3 found - matching issues, affected versions, suggested workarounds]
+
+🔧 HOW I PLAN TO USE THIS: Apply the fix${files.length > 0 ? ' in the attached files' : ''} and verify it.
+
+❓ SPECIFIC QUESTIONS:
+1. What causes this error${stack ? ` in ${stack}` : ''}?
+2. Which versions are affected, and is there an upstream fix?
+3. What is the correct fix, and what are the workarounds if upgrading isn't possible?
+4. How can I confirm the fix worked and prevent a regression?
+
+🌐 PRIORITY SOURCES: GitHub issues and PRs, official docs and changelogs, Stack Overflow answers with code
+
+⚡ PRIORITY INFO: Root cause over symptom suppression. Production-safe fixes.`;
+
+    const researchArgs = {
+      questions: [{
+        question,
+        ...(files.length > 0 ? {
+          file_attachments: files.map(path => ({
+            path,
+            description: '[Describe what this file does and which part relates to the error]',
+          })),
+        } : {}),
+      }],
+    };
+
+    return `# Bug investigation
+
+**Error / symptom:**
+
+\`\`\`
+${error}
+\`\`\`
+${stack ? `\n**Stack:** ${stack}` : ''}${tried ? `\n**Already tried:** ${tried}` : ''}
+
+${PLAN_RULES}
+
+## Step 1 - Find matching reports (\`web_search\`)
+
+${toolCall('web_search', { keywords })}
+
+Exact-match results on github.com and stackoverflow.com are the most valuable. Check whether the reports match the versions in use.
+
+## Step 2 - Read the most relevant threads (\`scrape_links\`)
+
+Call \`scrape_links\` with the 3-10 best issue, PR and answer URLs from step 1 and:
+
+\`\`\`json
+{
+  "use_llm": true,
+  "what_to_extract": "Root cause, affected versions, confirmed fix or workaround with code, maintainer comments, linked PRs or releases"
+}
+\`\`\`
+
+## Step 3 - Check community reports (\`search_reddit\`, optional)
+
+Only if steps 1-2 found no clear root cause:
+
+${toolCall('search_reddit', { queries })}
+
+## Step 4 - Root-cause analysis (\`deep_research\`)
+
+Fill in the placeholders, then:
+
+\`\`\`json
+${JSON.stringify(researchArgs, null, 2)}
+\`\`\`
+${files.length === 0 ? '\nIf the bug is in your own code, add `file_attachments` with absolute paths to the relevant files - research without the code is guesswork.\n' : ''}
+## Deliverable
+
+1. **Root cause** - one paragraph, with links to the issue or source that confirms it.
+2. **Fix** - the concrete change (code or config), plus a workaround if the real fix needs an upgrade.
+3. **Verification** - how to confirm the fix, and a test that would catch a regression.`;
+  },
+};
+
+const communitySentiment: PromptDefinition = {
+  name: 'community_sentiment',
+  title: 'Community sentiment scan',
+  description: 'Gauge what people think about a product, library or topic: broad Reddit search, full threads with comments, and a web search beyond Reddit, summarised into a sentiment breakdown with quotes.',
+  arguments: [
+    { name: 'topic', description: 'Product, library, company or topic to scan (e.g. "Bun runtime")', required: true },
+    { name: 'since', description: 'Only consider posts after this date (YYYY-MM-DD)' },
+    { name: 'subreddits', description: 'Subreddits to focus on, comma-separated, without r/ (e.g. "node, javascript")' },
+  ],
+  tools: ['search_reddit', 'get_reddit_post', 'web_search'],
+  build(args) {
+    const topic = args.topic!.trim();
+    const since = args.since?.trim();
+    const subreddits = splitList(args.subreddits).map(sub => sub.replace(/^\/?r\//, ''));
+    const year = new Date().getFullYear();
+
+    if (since && !DATE_PATTERN.test(since)) {
+      throw invalidArgument('community_sentiment', `"since" must be YYYY-MM-DD (got "${since}")`);
+    }
+
+    // Mirrors search_reddit's query categories: direct, opinions, problems, comparisons, alternatives, recency, subreddits
+    const queries = unique([
+      topic,
+      `${topic} review`,
+      `${topic} worth it`,
+      `${topic} experience`,
+      `thoughts on ${topic}`,
+      `${topic} problems`,
+      `${topic} disappointed`,
+      `${topic} regret`,
+      `${topic} vs`,
+      `${topic} alternative`,
+      `switched from ${topic}`,
+      `${topic} ${year}`,
+      ...subreddits.map(sub => `r/${sub} ${topic}`),
+    ]).slice(0, 50);
+
+    const keywords = unique([
+      `${topic} site:news.ycombinator.com`,
+      `${topic} review ${year}`,
+      `${topic} criticism`,
+      `${topic} opinion`,
+    ]);
+
+    return `# Community sentiment scan: ${topic}
+${since ? `\n**Since:** ${since}` : ''}${subreddits.length > 0 ? `\n**Focus subreddits:** ${subreddits.map(sub => `r/${sub}`).join(', ')}` : ''}
+
+${PLAN_RULES}
+
+## Step 1 - Cast a wide net on Reddit (\`search_reddit\`)
+
+${toolCall('search_reddit', { queries, ...(since ? { date_after: since } : {}) })}
+
+## Step 2 - Read the conversations (\`get_reddit_post\`)
+
+Call \`get_reddit_post\` with the 15-30 highest-ranked posts from step 1 (\`ranked_posts[].url\`)${subreddits.length > 0 ? `, making sure the focus subreddits are represented` : ''}. Comments carry most of the sentiment - keep \`fetch_comments\` on.
+
+## Step 3 - Check beyond Reddit (\`web_search\`)
+
+${toolCall('web_search', { keywords })}
+
+Use this to spot where Reddit is unrepresentative (e.g. Hacker News or review sites disagree).
+
+## Deliverable
+
+1. **Overall sentiment** - positive / mixed / negative, with a rough share of each and how confident you are.
+2. **Recurring praise** and **recurring complaints** - ranked by how often they come up, each with 1-2 linked quotes.
+3. **Shifts over time** - has opinion changed (releases, pricing, incidents)?
+4. **Who says what** - differences between subreddits or user groups.
+5. Caveats - sample size, brigading, or topics where the evidence is thin.`;
+  },
+};
+
+export const BUILTIN_PROMPTS: PromptDefinition[] = [
+  compareLibraries,
+  investigateBug,
+  communitySentiment,
+];
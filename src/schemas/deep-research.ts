@@ -241,3 +241,22 @@ const deepResearchParamsShape = {
 
 export const deepResearchParamsSchema = z.object(deepResearchParamsShape);
 export type DeepResearchParams = z.infer<typeof deepResearchParamsSchema>;
+
+// Output schema (structuredContent)
+export const deepResearchOutputSchema = z.object({
+  totalQuestions: z.number(),
+  successful: z.number(),
+  failed: z.number(),
+  tokensPerQuestion: z.number(),
+  totalTokensUsed: z.number(),
+  results: z.array(z.object({
+    question: z.string(),
+    content: z.string().optional().describe('Omitted when the result is returned as a resource_link'),
+    success: z.boolean(),
+    error: z.string().optional(),
+    tokensUsed: z.number().optional(),
+  })),
+  error: z.string().optional().describe('Set when the whole batch failed before any question ran'),
+});
+
+export type DeepResearchOutput = z.infer<typeof deepResearchOutputSchema>;
@@ -0,0 +1,58 @@
+import { z } from 'zod';
+
+// Input schema for get_reddit_post tool
+const getRedditPostParamsShape = {
+  urls: z
+    .array(z.string({ required_error: 'get_reddit_post: URL is required' }), {
+      required_error: 'get_reddit_post: URLs array is required',
+      invalid_type_error: 'get_reddit_post: URLs must be an array'
+    })
+    .min(1, { message: 'get_reddit_post: At least 1 Reddit post URL is required' })
+    .describe('Reddit URLs (2-50). More posts = broader community perspective.'),
+  fetch_comments: z
+    .boolean({ invalid_type_error: 'get_reddit_post: fetch_comments must be a boolean' })
+    .default(true)
+    .describe('Fetch comments? Set false for quick post overview. Default: true'),
+  max_comments: z
+    .number({ invalid_type_error: 'get_reddit_post: max_comments must be a number' })
+    .default(100)
+    .describe('Override auto-allocation. Leave empty for smart allocation.'),
+};
+
+export const getRedditPostParamsSchema = z.object(getRedditPostParamsShape);
+export type GetRedditPostParams = z.infer<typeof getRedditPostParamsSchema>;
+
+// Output schema (structuredContent) - markdown stays in the text content block
+export const getRedditPostOutputSchema = z.object({
+  metadata: z.object({
+    total_posts: z.number(),
+    successful: z.number(),
+    failed: z.number(),
+    comments_per_post: z.number(),
+    batches_processed: z.number(),
+    rate_limit_hits: z.number(),
+    errorCode: z.string().optional().describe('Error code for programmatic handling (on failure)'),
+  }),
+  posts: z.array(z.object({
+    url: z.string(),
+    success: z.boolean(),
+    error: z.string().optional(),
+    title: z.string().optional(),
+    subreddit: z.string().optional(),
+    author: z.string().optional(),
+    score: z.number().optional(),
+    comment_count: z.number().optional(),
+    permalink: z.string().optional(),
+    created: z.string().optional().describe('ISO 8601 timestamp'),
+    body: z.string().optional().describe('body and comments are omitted when the result is returned as a resource_link'),
+    comments: z.array(z.object({
+      author: z.string(),
+      body: z.string(),
+      score: z.number(),
+      depth: z.number(),
+      is_op: z.boolean(),
+    })).optional(),
+  })).describe('One entry per requested URL'),
+});
+
+export type GetRedditPostOutput = z.infer<typeof getRedditPostOutputSchema>;
@@ -34,22 +34,39 @@ const scrapeLinksParamsShape = {
     .max(1000, { message: 'scrape_links: Extraction instructions too long (max 1000 characters)' })
     .optional()
     .describe('Specific content extraction instructions for AI. Will be enhanced with conciseness suffix automatically.'),
+  fresh: z
+    .boolean({ invalid_type_error: 'scrape_links: fresh must be a boolean' })
+    .default(false)
+    .describe('Skip cached pages and scrape again (default false - recently scraped URLs are served from the cache)'),
 };
 
 export const scrapeLinksParamsSchema = z.object(scrapeLinksParamsShape);
 export type ScrapeLinksParams = z.infer<typeof scrapeLinksParamsSchema>;
 
-// Output type
-export interface ScrapeLinksOutput {
-  content: string;
-  metadata: {
-    total_urls: number;
-    successful: number;
-    failed: number;
-    total_credits: number;
-    execution_time_ms: number;
-    tokens_per_url?: number;
-    total_token_budget?: number;
-    batches_processed?: number;
-  };
-}
+// Output schema (structuredContent) - markdown stays in the text content block
+export const scrapeLinksOutputSchema = z.object({
+  metadata: z.object({
+    total_urls: z.number(),
+    successful: z.number(),
+    failed: z.number(),
+    total_credits: z.number(),
+    execution_time_ms: z.number(),
+    tokens_per_url: z.number().optional(),
+    total_token_budget: z.number().optional(),
+    batches_processed: z.number().optional(),
+    cache_hits: z.number().optional().describe('URLs served from the cache (including ones revalidated with the site)'),
+  }),
+  results: z.array(z.object({
+    url: z.string(),
+    success: z.boolean(),
+    status_code: z.number().optional(),
+    credits: z.number(),
+    content: z.string().optional().describe('Cleaned (or AI-extracted) page content - omitted when the result is returned as a resource_link'),
+    llm_extracted: z.boolean().optional(),
+    cached: z.enum(['hit', 'revalidated']).optional().describe('hit = served from the cache; revalidated = the site confirmed the cached copy is current (304)'),
+    cached_at: z.string().optional().describe('When the cached content was scraped (absent for fresh results)'),
+    error: z.string().optional(),
+  })).describe('One entry per requested URL'),
+});
+
+export type ScrapeLinksOutput = z.infer<typeof scrapeLinksOutputSchema>;
@@ -0,0 +1,114 @@
+import { z } from 'zod';
+
+// Query schema with validation
+const querySchema = z
+  .string({ required_error: 'search_reddit: Query is required' })
+  .min(1, { message: 'search_reddit: Query cannot be empty' });
+
+// Input schema for search_reddit tool
+const searchRedditParamsShape = {
+  queries: z
+    .array(querySchema, {
+      required_error: 'search_reddit: Queries array is required',
+      invalid_type_error: 'search_reddit: Queries must be an array'
+    })
+    .min(1, { message: 'search_reddit: At least 1 query is required' })
+    .optional()
+    .describe(`**3-50 queries for Reddit research.** Minimum 3 required, but generate at least 10 for meaningful consensus. More queries = better consensus detection.
+
+**QUERY CATEGORIES (aim for coverage across all):**
+
+1. **Direct Topic (3-5):** "YouTube Music Mac app", "YTM desktop application"
+2. **Recommendations (3-5):** "best YouTube Music client Mac", "recommended YTM app"
+3. **Specific Tools (5-10):** "YTMDesktop Mac", "th-ch youtube-music", "steve228uk YT Music"
+4. **Comparisons (3-5):** "YouTube Music vs Spotify Mac", "YTM vs Apple Music desktop"
+5. **Alternatives (3-5):** "YouTube Music Mac alternative", "YTM replacement app"
+6. **Subreddits (5-10):** "r/YoutubeMusic desktop", "r/macapps YouTube Music", "r/opensource YTM"
+7. **Problems/Issues (3-5):** "YouTube Music desktop performance", "YTM app crashes Mac"
+8. **Year-Specific (2-3):** "best YouTube Music app 2024", "YTM desktop 2025"
+9. **Features (3-5):** "YouTube Music offline Mac", "YTM lyrics desktop"
+10. **Developer/GitHub (3-5):** "youtube-music electron app", "YTM github project"`),
+  topic: z
+    .string()
+    .min(3, { message: 'search_reddit: topic must be at least 3 characters' })
+    .max(500, { message: 'search_reddit: topic too long (max 500 characters)' })
+    .optional()
+    .describe('Research topic to expand into a query set across the categories above with an LLM (requires OPENROUTER_API_KEY). Use instead of or in addition to queries; the generated queries are returned with the results'),
+  date_after: z
+    .string()
+    .optional()
+    .describe('Filter results after date (YYYY-MM-DD). Optional.'),
+  country: z
+    .string()
+    .regex(/^[a-z]{2}$/i, { message: 'search_reddit: country must be a 2-letter ISO 3166 code (e.g. "jp", "de")' })
+    .transform(code => code.toLowerCase())
+    .optional()
+    .describe('Country to search from (Google "gl", ISO 3166-1 alpha-2, e.g. "jp", "de", "fr"). Default: United States'),
+  language: z
+    .string()
+    .regex(/^[a-z]{2,3}(-[a-z]{2,4})?$/i, { message: 'search_reddit: language must be an ISO 639-1 code (e.g. "ja", "de", "pt-br")' })
+    .transform(code => code.toLowerCase())
+    .optional()
+    .describe('Interface language (Google "hl", e.g. "ja", "de", "pt-br"). Default: English'),
+  location: z
+    .string()
+    .min(1, { message: 'search_reddit: location cannot be empty' })
+    .max(200, { message: 'search_reddit: location too long (max 200 characters)' })
+    .optional()
+    .describe('Place to search from, e.g. "Tokyo, Japan" or "Berlin, Germany" (Serper only). Results from different markets are cached separately'),
+  fresh: z
+    .boolean()
+    .default(false)
+    .describe('Skip cached results and query Google again (default false - repeated queries are served from the cache)'),
+};
+
+export const searchRedditParamsSchema = z
+  .object(searchRedditParamsShape)
+  .refine(
+    params => (params.queries && params.queries.length > 0) || params.topic,
+    { message: 'search_reddit: Provide queries, a topic, or both', path: ['queries'] }
+  );
+export type SearchRedditParams = z.infer<typeof searchRedditParamsSchema>;
+
+// Output schema (structuredContent) - markdown stays in the text content block
+export const searchRedditOutputSchema = z.object({
+  metadata: z.object({
+    total_queries: z.number(),
+    topic: z.string().optional(),
+    generated_queries: z.array(z.string()).optional().describe('Queries generated from the topic (included in searches)'),
+    expansion_error: z.string().optional().describe('Why no queries could be generated from the topic'),
+    locale: z.object({
+      country: z.string().optional(),
+      language: z.string().optional(),
+      location: z.string().optional(),
+    }).optional().describe('Market that was searched (absent for the default)'),
+    total_results: z.number(),
+    total_unique_urls: z.number(),
+    frequency_threshold: z.number().optional(),
+    cache_hits: z.number().optional().describe('Queries served from the cache instead of Serper'),
+    errorCode: z.string().optional().describe('Error code for programmatic handling (on failure)'),
+  }),
+  ranked_posts: z.array(z.object({
+    rank: z.number(),
+    url: z.string(),
+    title: z.string(),
+    snippet: z.string(),
+    date: z.string().optional(),
+    score: z.number().describe('CTR-weighted score normalized to 0-100'),
+    frequency: z.number().describe('Number of queries the post appeared in'),
+    queries: z.array(z.string()),
+    is_consensus: z.boolean(),
+  })).describe('Posts aggregated across all queries, best first'),
+  searches: z.array(z.object({
+    query: z.string(),
+    results: z.array(z.object({
+      title: z.string(),
+      url: z.string(),
+      snippet: z.string(),
+      date: z.string().optional(),
+    })),
+    cached_at: z.string().optional().describe('When cached results were fetched (absent for fresh results)'),
+  })).describe('Raw results per query'),
+});
+
+export type SearchRedditOutput = z.infer<typeof searchRedditOutputSchema>;
@@ -0,0 +1,58 @@
+import { z } from 'zod';
+
+// Input schema for server_status tool (no parameters)
+export const serverStatusParamsSchema = z.object({});
+export type ServerStatusParams = z.infer<typeof serverStatusParamsSchema>;
+
+// Output schema (structuredContent) - markdown stays in the text content block
+export const serverStatusOutputSchema = z.object({
+  server: z.object({
+    name: z.string(),
+    version: z.string(),
+    uptime_seconds: z.number(),
+    settings: z.string().describe('Where the active settings come from (file and process profile)'),
+  }),
+  client_id: z.string(),
+  capabilities: z.array(z.object({
+    name: z.string(),
+    enabled: z.boolean(),
+    reason: z.string().optional().describe('Why the capability is unavailable (missing key or not permitted)'),
+  })),
+  models: z.object({
+    research: z.string(),
+    research_fallback: z.string(),
+    llm_extraction: z.string(),
+    query_expansion: z.string(),
+    search_providers: z.array(z.string()).describe('Search providers this caller has keys for, primary first then fallbacks'),
+  }),
+  budgets: z.object({
+    research_tokens: z.number(),
+    research_max_urls: z.number(),
+    research_reasoning_effort: z.string(),
+    scrape_tokens: z.number(),
+    reddit_comments: z.number(),
+    reddit_comments_per_post: z.number(),
+    llm_extraction_max_tokens: z.number(),
+    search_max_retries: z.number(),
+    scraper_retry_count: z.number(),
+    reddit_retry_count: z.number(),
+    research_max_retries: z.number(),
+  }).describe('Values in effect for this call (settings file + profile applied)'),
+  errors: z.object({
+    window_minutes: z.number(),
+    total: z.number(),
+    by_code: z.record(z.object({
+      count: z.number(),
+      services: z.record(z.number()).describe('Failures per API client (search, scraper, reddit, research, llm)'),
+      last_message: z.string(),
+      last_at: z.string(),
+    })),
+  }).describe('This client\'s failed API attempts in the window, grouped by error code - retries count separately'),
+  reddit_token_cache: z.array(z.object({
+    client_id: z.string().describe('Masked Reddit client ID'),
+    expires_at: z.string(),
+    valid: z.boolean(),
+  })),
+});
+
+export type ServerStatusOutput = z.infer<typeof serverStatusOutputSchema>;
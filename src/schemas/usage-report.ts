@@ -0,0 +1,38 @@
+import { z } from 'zod';
+
+// Input schema for usage_report tool
+export const usageReportParamsSchema = z.object({
+  period: z
+    .enum(['day', 'month'])
+    .default('month')
+    .describe('Break down spending for the current UTC day or month (default: month)'),
+});
+export type UsageReportParams = z.infer<typeof usageReportParamsSchema>;
+
+const countersShape = {
+  calls: z.number(),
+  serper: z.number().describe('Serper queries'),
+  brave: z.number().describe('Brave Search queries'),
+  tavily: z.number().describe('Tavily credits'),
+  bing: z.number().describe('Bing Web Search queries'),
+  scrapedo: z.number().describe('Scrape.do credits'),
+  openrouter: z.number().describe('OpenRouter tokens'),
+};
+
+// Output schema (structuredContent) - markdown stays in the text content block
+export const usageReportOutputSchema = z.object({
+  period: z.string().describe('YYYY-MM-DD or YYYY-MM (UTC)'),
+  ledger: z.string().describe('Ledger file path, or "in memory"'),
+  providers: z.array(z.object({
+    provider: z.string(),
+    unit: z.string(),
+    today: z.number(),
+    this_month: z.number(),
+    daily_cap: z.number().describe('0 = no cap'),
+    monthly_cap: z.number().describe('0 = no cap'),
+  })).describe('Totals across all clients against the caps'),
+  by_tool: z.array(z.object({ tool: z.string(), ...countersShape })),
+  by_client: z.array(z.object({ client_id: z.string(), ...countersShape })),
+});
+
+export type UsageReportOutput = z.infer<typeof usageReportOutputSchema>;
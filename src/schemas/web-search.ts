@@ -1,4 +1,5 @@
 import { z } from 'zod';
+import { SEARCH_TIME_RANGES, SEARCH_VERTICALS } from '../config/index.js';
 
 // Keyword schema with validation
 const keywordSchema = z
@@ -21,22 +22,178 @@ const keywordsSchema = z
   .describe('Array of search keywords (1-100 keywords). Recommend 3-7 keywords for comprehensive research. Supports Google search operators (site:, -exclusion, "exact phrase", filetype:). More keywords = broader coverage and diverse perspectives.');
 
 const webSearchParamsShape = {
-  keywords: keywordsSchema,
+  keywords: keywordsSchema.optional(),
+  topic: z
+    .string()
+    .min(3, { message: 'web_search: topic must be at least 3 characters' })
+    .max(500, { message: 'web_search: topic too long (max 500 characters)' })
+    .optional()
+    .describe('Research topic to expand into a diverse keyword set with an LLM (requires OPENROUTER_API_KEY) - covers comparisons, alternatives, problems, year-specific and official-source angles. Use instead of or in addition to keywords; the generated keywords are returned with the results'),
+  type: z
+    .enum(SEARCH_VERTICALS)
+    .default('web')
+    .describe('Results to search: web (default), news (source + publication date), scholar (citations + PDF links), images (image URLs + dimensions), videos (channel + duration), places (address, rating, phone), shopping (price, store, rating)'),
+  depth: z
+    .number()
+    .int({ message: 'web_search: depth must be a whole number' })
+    .min(10, { message: 'web_search: depth must be at least 10' })
+    .max(50, { message: 'web_search: depth cannot exceed 50' })
+    .default(10)
+    .describe('Results per keyword, 10-50 (default 10). Fetched 10 per page - each page costs one search query. Use 30-50 for exhaustive sweeps: positions 11-50 keep their real rank and feed the CTR-ranked list with a small weight'),
+  follow_related: z
+    .number()
+    .int({ message: 'web_search: follow_related must be a whole number' })
+    .min(0, { message: 'web_search: follow_related cannot be negative' })
+    .max(3, { message: 'web_search: follow_related cannot exceed 3' })
+    .default(0)
+    .describe('Rounds of related searches to run after the keywords (0-3, default 0). Each round searches the "related searches" of the previous round that were not searched yet, up to a server-wide budget (default 20 extra keywords). All rounds are ranked together - finds sources the first keywords miss'),
+  time_range: z
+    .enum(SEARCH_TIME_RANGES)
+    .optional()
+    .describe('Only results from the past hour, day, week, month or year (Google "tbs=qdr"). Use instead of date_after/date_before'),
+  date_after: z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, { message: 'web_search: date_after must be YYYY-MM-DD' })
+    .optional()
+    .describe('Only results published on or after this date (YYYY-MM-DD, Google "after:")'),
+  date_before: z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, { message: 'web_search: date_before must be YYYY-MM-DD' })
+    .optional()
+    .describe('Only results published before this date (YYYY-MM-DD, Google "before:")'),
+  country: z
+    .string()
+    .regex(/^[a-z]{2}$/i, { message: 'web_search: country must be a 2-letter ISO 3166 code (e.g. "jp", "de")' })
+    .transform(code => code.toLowerCase())
+    .optional()
+    .describe('Country to search from (Google "gl", ISO 3166-1 alpha-2, e.g. "jp", "de", "fr"). Default: United States'),
+  language: z
+    .string()
+    .regex(/^[a-z]{2,3}(-[a-z]{2,4})?$/i, { message: 'web_search: language must be an ISO 639-1 code (e.g. "ja", "de", "pt-br")' })
+    .transform(code => code.toLowerCase())
+    .optional()
+    .describe('Interface language (Google "hl", e.g. "ja", "de", "pt-br"). Default: English'),
+  location: z
+    .string()
+    .min(1, { message: 'web_search: location cannot be empty' })
+    .max(200, { message: 'web_search: location too long (max 200 characters)' })
+    .optional()
+    .describe('Place to search from, e.g. "Tokyo, Japan" or "Berlin, Germany" (Serper only). Results from different markets are cached and ranked separately'),
+  fresh: z
+    .boolean()
+    .default(false)
+    .describe('Skip cached results and query Google again (default false - repeated keywords are served from the cache)'),
 };
 
-export const webSearchParamsSchema = z.object(webSearchParamsShape);
+export const webSearchParamsSchema = z
+  .object(webSearchParamsShape)
+  .refine(
+    params => (params.keywords && params.keywords.length > 0) || params.topic,
+    { message: 'web_search: Provide keywords, a topic, or both', path: ['keywords'] }
+  )
+  .refine(
+    params => !(params.time_range && (params.date_after || params.date_before)),
+    { message: 'web_search: Use either time_range or date_after/date_before, not both', path: ['time_range'] }
+  )
+  .refine(
+    params => !(params.date_after && params.date_before && params.date_after > params.date_before),
+    { message: 'web_search: date_after must not be later than date_before', path: ['date_after'] }
+  );
 export type WebSearchParams = z.infer<typeof webSearchParamsSchema>;
 
-// Output type
-export interface WebSearchOutput {
-  content: string;
-  metadata: {
-    total_keywords: number;
-    total_results: number;
-    execution_time_ms: number;
-    total_unique_urls?: number;
-    consensus_url_count?: number;
-    frequency_threshold?: number;
-    errorCode?: string; // MCP error code for programmatic handling (on failure)
-  };
-}
+// Output schema (structuredContent) - markdown stays in the text content block
+export const webSearchOutputSchema = z.object({
+  metadata: z.object({
+    total_keywords: z.number(),
+    topic: z.string().optional(),
+    generated_keywords: z.array(z.string()).optional().describe('Keywords generated from the topic (included in searches)'),
+    expansion_error: z.string().optional().describe('Why no keywords could be generated from the topic'),
+    type: z.enum(SEARCH_VERTICALS).optional().describe('Vertical that was searched'),
+    depth: z.number().optional().describe('Results requested per keyword'),
+    follow_related: z.number().optional().describe('Related-search rounds requested'),
+    related_keywords: z.array(z.string()).optional().describe('Related searches that were run, in round order'),
+    time_range: z.enum(SEARCH_TIME_RANGES).optional(),
+    date_after: z.string().optional(),
+    date_before: z.string().optional(),
+    locale: z.object({
+      country: z.string().optional(),
+      language: z.string().optional(),
+      location: z.string().optional(),
+    }).optional().describe('Market that was searched (absent for the default)'),
+    total_results: z.number(),
+    execution_time_ms: z.number(),
+    total_unique_urls: z.number().optional(),
+    consensus_url_count: z.number().optional(),
+    frequency_threshold: z.number().optional(),
+    cache_hits: z.number().optional().describe('Keywords served from the cache instead of a search provider'),
+    errorCode: z.string().optional().describe('Error code for programmatic handling (on failure)'),
+  }),
+  ranked_urls: z.array(z.object({
+    rank: z.number(),
+    url: z.string(),
+    title: z.string(),
+    date: z.string().optional().describe('Publication date, when the search provider reported one'),
+    round: z.number().optional().describe('Earliest round that found the URL (0 = your keywords, 1+ = related searches)'),
+    score: z.number().describe('CTR-weighted score normalized to 0-100'),
+    frequency: z.number().describe('Number of queries the URL appeared in'),
+    best_position: z.number(),
+    queries: z.array(z.string()),
+    is_consensus: z.boolean(),
+  })).describe('URLs aggregated across all queries, best first'),
+  searches: z.array(z.object({
+    keyword: z.string(),
+    round: z.number().optional().describe('0 = your keywords, 1+ = related-search round'),
+    results: z.array(z.object({
+      position: z.number(),
+      title: z.string(),
+      url: z.string(),
+      snippet: z.string(),
+      date: z.string().optional(),
+      source: z.string().optional().describe('Publisher, channel, store or image host'),
+      image_url: z.string().optional().describe('Full image (images) or thumbnail (news, videos, shopping)'),
+      image_width: z.number().optional(),
+      image_height: z.number().optional(),
+      duration: z.string().optional(),
+      publication: z.string().optional().describe('Scholar: authors, venue and year'),
+      cited_by: z.number().optional(),
+      pdf_url: z.string().optional(),
+      address: z.string().optional(),
+      category: z.string().optional(),
+      phone: z.string().optional(),
+      rating: z.number().optional(),
+      rating_count: z.number().optional(),
+      price: z.string().optional(),
+    })),
+    related: z.array(z.string()),
+    answer_box: z.object({
+      answer: z.string().optional(),
+      snippet: z.string().optional(),
+      title: z.string().optional(),
+      link: z.string().optional(),
+      date: z.string().optional(),
+    }).optional().describe("Google's featured answer (Serper web search)"),
+    knowledge_graph: z.object({
+      title: z.string(),
+      type: z.string().optional(),
+      description: z.string().optional(),
+      link: z.string().optional(),
+      attributes: z.record(z.string()),
+    }).optional(),
+    people_also_ask: z.array(z.object({
+      question: z.string(),
+      snippet: z.string().optional(),
+      link: z.string().optional(),
+    })).optional().describe('Related questions - good follow-up queries'),
+    top_stories: z.array(z.object({
+      title: z.string(),
+      link: z.string(),
+      source: z.string().optional(),
+      date: z.string().optional(),
+    })).optional(),
+    provider: z.string().optional().describe('Search provider that answered (serper, brave, tavily, bing, searxng)'),
+    error: z.string().optional().describe('Why this keyword has no results (every provider failed), or which deeper page failed when results stop short of depth'),
+    cached_at: z.string().optional().describe('When cached results were fetched (absent for fresh results)'),
+  })).describe('Raw results per keyword'),
+});
+
+export type WebSearchOutput = z.infer<typeof webSearchOutputSchema>;
@@ -0,0 +1,427 @@
+/**
+ * MCP Server Factory
+ * Builds a fully wired Server instance - one per transport connection
+ * Implements robust error handling - server NEVER crashes on tool failures
+ */
+
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import type { RequestHandlerExtra } from '@modelcontextprotocol/sdk/shared/protocol.js';
+import {
+  CallToolRequestSchema,
+  ListToolsRequestSchema,
+  ListResourcesRequestSchema,
+  ListPromptsRequestSchema,
+  GetPromptRequestSchema,
+  ReadResourceRequestSchema,
+  McpError,
+  ErrorCode as McpErrorCode,
+  type CallToolResult,
+  type ServerRequest,
+  type ServerNotification,
+} from '@modelcontextprotocol/sdk/types.js';
+
+import { toolRegistry, type ToolDefinition } from './tools/registry.js';
+import { BUILTIN_PROMPTS, type PromptDefinition } from './prompts/definitions.js';
+import { artifactStore } from './services/artifact-store.js';
+import { runWithUsage, checkQuota } from './services/usage-ledger.js';
+import { classifyError, createToolErrorFromStructured } from './utils/errors.js';
+import { SERVER, ARTIFACTS } from './config/index.js';
+import { getProfileNames, hasProfile, runWithProfile } from './config/settings.js';
+import { resolveCaller, getUnavailableMessage, getUnavailableReason, type CallerContext } from './config/clients.js';
+
+// Not in the SDK's ErrorCode enum - value from the MCP resources spec
+const RESOURCE_NOT_FOUND = -32002;
+
+// ============================================================================
+// Tool Listing (filtered/annotated per caller)
+// ============================================================================
+
+interface ListedTool {
+  name: string;
+  description: string;
+  inputSchema: Record<string, unknown>;
+  outputSchema?: Record<string, unknown>;
+}
+
+// Per-call settings profile - added to every tool that doesn't define its own `profile` argument
+const PROFILE_ARG = 'profile';
+
+function declaresProfileArg(inputSchema: Record<string, unknown>): boolean {
+  const properties = inputSchema.properties as Record<string, unknown> | undefined;
+  return !!properties && PROFILE_ARG in properties;
+}
+
+/**
+ * Advertise the `profile` argument in a tool's input schema
+ */
+function withProfileArg(tool: ListedTool): ListedTool {
+  if (declaresProfileArg(tool.inputSchema)) return tool;
+  const properties = (tool.inputSchema.properties ?? {}) as Record<string, unknown>;
+  return {
+    ...tool,
+    inputSchema: {
+      ...tool.inputSchema,
+      properties: {
+        ...properties,
+        [PROFILE_ARG]: {
+          type: 'string',
+          enum: getProfileNames(),
+          description: 'Settings profile for this call (budgets, retries, models). Omit to use the server default.',
+        },
+      },
+    },
+  };
+}
+
+/**
+ * Build tools/list for a caller according to SERVER.UNAVAILABLE_TOOLS
+ */
+function listToolsFor(caller: CallerContext): ListedTool[] {
+  const tools: ListedTool[] = [];
+
+  for (const { capability, ...listed } of toolRegistry.list()) {
+    const tool = withProfileArg(listed);
+    const available = !capability || caller.capabilities[capability];
+
+    if (available || SERVER.UNAVAILABLE_TOOLS === 'show') {
+      tools.push(tool);
+    } else if (SERVER.UNAVAILABLE_TOOLS === 'annotate') {
+      tools.push({
+        ...tool,
+        description: `⚠️ UNAVAILABLE (${getUnavailableReason(caller, capability)}) - calls will fail until this is fixed.\n\n${tool.description}`,
+      });
+    }
+  }
+
+  return tools;
+}
+
+/**
+ * Fingerprint of what a caller would see - changes trigger tools/list_changed
+ * Includes schemas: a reloaded settings file can change the `profile` enum
+ */
+function toolListSignature(caller: CallerContext): string {
+  return JSON.stringify(listToolsFor(caller));
+}
+
+// ============================================================================
+// Connected Servers (for list_changed notifications)
+// ============================================================================
+
+interface ConnectedServer {
+  // Set by the first tools/list - identifies whose capabilities the list reflects
+  clientId?: string;
+  signature?: string;
+}
+
+const connectedServers = new Map<Server, ConnectedServer>();
+
+/**
+ * Re-check every connected server and send notifications/tools/list_changed
+ * to those whose visible tool list changed (keys reloaded, tools registered)
+ * NEVER throws - a dead connection is logged and skipped
+ */
+export async function notifyToolListChanged(): Promise<void> {
+  await Promise.all([...connectedServers].map(async ([server, state]) => {
+    // Clients that never listed tools have nothing stale
+    if (state.signature === undefined) return;
+
+    const signature = toolListSignature(resolveCaller(state.clientId));
+    if (signature === state.signature) return;
+    state.signature = signature;
+
+    try {
+      await server.sendToolListChanged();
+    } catch (error) {
+      console.error(`[MCP Server] Failed to send tools/list_changed: ${classifyError(error).message}`);
+    }
+  }));
+}
+
+toolRegistry.onChange(() => {
+  void notifyToolListChanged();
+});
+
+// ============================================================================
+// Progress Notifications
+// ============================================================================
+
+/**
+ * Build a progress reporter for a tool call
+ * No-op unless the client sent _meta.progressToken. Progress is a step counter
+ * (total unknown - fallbacks and retries add steps); the message carries the detail.
+ */
+function createProgressReporter(
+  extra: RequestHandlerExtra<ServerRequest, ServerNotification>
+): (message: string) => Promise<void> {
+  const progressToken = extra._meta?.progressToken;
+  if (progressToken === undefined) {
+    return async () => {};
+  }
+
+  let progress = 0;
+  return async (message: string) => {
+    if (extra.signal.aborted) return;
+    progress++;
+    try {
+      await extra.sendNotification({
+        method: 'notifications/progress',
+        params: { progressToken, progress, message },
+      });
+    } catch (error) {
+      console.error(`[MCP Server] Failed to send progress: ${classifyError(error).message}`);
+    }
+  };
+}
+
+// ============================================================================
+// Research Artifacts (tool results as research:// resources)
+// ============================================================================
+
+const PREVIEW_CHARS = 2000;
+
+/**
+ * Store a successful result as an artifact and attach a resource_link
+ * Results over ARTIFACTS.LINK_THRESHOLD_CHARS are replaced by a preview + link
+ */
+function publishArtifact(
+  server: Server,
+  tool: ToolDefinition,
+  params: unknown,
+  result: CallToolResult,
+  caller: CallerContext
+): CallToolResult {
+  if (!tool.artifact) return result;
+
+  const text = result.content
+    .flatMap(block => (block.type === 'text' ? [block.text] : []))
+    .join('\n\n');
+
+  const artifact = artifactStore.save({
+    kind: tool.artifact.kind,
+    tool: tool.name,
+    title: tool.artifact.title(params),
+    text,
+    structured: result.structuredContent,
+    clientId: caller.clientId,
+  });
+
+  server.sendResourceListChanged().catch((error) => {
+    console.error(`[MCP Server] Failed to send resources/list_changed: ${classifyError(error).message}`);
+  });
+
+  const link = {
+    type: 'resource_link' as const,
+    uri: artifact.uri,
+    name: `${tool.name}-${artifact.id.slice(0, 8)}`,
+    title: artifact.title,
+    mimeType: 'text/markdown',
+    description: `Full ${tool.name} result (${text.length.toLocaleString()} chars) - read with resources/read`,
+  };
+
+  if (ARTIFACTS.LINK_THRESHOLD_CHARS === 0 || text.length <= ARTIFACTS.LINK_THRESHOLD_CHARS) {
+    return { ...result, content: [...result.content, link] };
+  }
+
+  const preview = text.length > PREVIEW_CHARS ? `${text.substring(0, PREVIEW_CHARS)}\n\n_[...preview truncated]_` : text;
+  const summary = `# ${artifact.title}\n\n` +
+    `📦 Full result is ${text.length.toLocaleString()} chars (~${Math.ceil(text.length / 4).toLocaleString()} tokens), stored as \`${artifact.uri}\`. ` +
+    `Read it with \`resources/read\` when you need the details.\n\n---\n\n${preview}`;
+
+  const structuredContent = result.structuredContent && tool.artifact.compact
+    ? tool.artifact.compact(result.structuredContent)
+    : result.structuredContent;
+
+  return { ...result, content: [{ type: 'text', text: summary }, link], structuredContent };
+}
+
+// ============================================================================
+// Prompts (research workflows)
+// ============================================================================
+
+/**
+ * Warning for plan steps the caller can't run - empty when every tool is usable
+ */
+function unavailableToolsNote(prompt: PromptDefinition, caller: CallerContext): string {
+  const lines: string[] = [];
+
+  for (const name of prompt.tools) {
+    const capability = toolRegistry.get(name)?.capability;
+    if (capability && !caller.capabilities[capability]) {
+      lines.push(`- \`${name}\`: ${getUnavailableReason(caller, capability)}`);
+    }
+  }
+
+  return lines.length > 0
+    ? `\n\n---\n\n⚠️ **Unavailable tools** - skip these steps and work with what the other steps return:\n${lines.join('\n')}`
+    : '';
+}
+
+/**
+ * Create a new MCP server dispatching to the tool registry
+ * stdio uses a single instance; HTTP creates one per session
+ */
+export function createServer(): Server {
+  const server = new Server(
+    { name: SERVER.NAME, version: SERVER.VERSION },
+    { capabilities: { tools: { listChanged: true }, resources: { listChanged: true }, prompts: {} } }
+  );
+
+  const state: ConnectedServer = {};
+  connectedServers.set(server, state);
+  server.onclose = () => {
+    connectedServers.delete(server);
+  };
+
+  server.setRequestHandler(ListToolsRequestSchema, async (_request, extra) => {
+    const caller = resolveCaller(extra.authInfo?.clientId);
+    const tools = listToolsFor(caller);
+    state.clientId = extra.authInfo?.clientId;
+    state.signature = toolListSignature(caller);
+    return { tools };
+  });
+
+  server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
+    const { name, arguments: args } = request.params;
+
+    // Keys + capabilities resolve per caller (HTTP bearer token) - falls back to process ENV
+    const caller = resolveCaller(extra.authInfo?.clientId);
+
+    try {
+      const tool = toolRegistry.get(name);
+
+      /**
+       * Protocol Error: Unknown tool requested
+       * Per MCP spec, use McpError for protocol-level errors (tool not found, invalid params)
+       * vs isError:true for tool execution failures (network, API, timeout)
+       */
+      if (!tool) {
+        throw new McpError(
+          McpErrorCode.MethodNotFound,
+          `Method not found: ${name}. Available tools: ${toolRegistry.names().join(', ')}`
+        );
+      }
+
+      // Check capability
+      if (tool.capability && !caller.capabilities[tool.capability]) {
+        return { content: [{ type: 'text', text: getUnavailableMessage(caller, tool.capability) }], isError: true };
+      }
+
+      // Split off the per-call profile unless the tool uses `profile` itself
+      const { [PROFILE_ARG]: profile, ...toolArgs } = args ?? {};
+      const ownsProfileArg = declaresProfileArg(toolRegistry.inputSchema(name) ?? {});
+      if (!ownsProfileArg && profile !== undefined && (typeof profile !== 'string' || !hasProfile(profile))) {
+        throw new McpError(
+          McpErrorCode.InvalidParams,
+          `Unknown profile: ${String(profile)}. Available profiles: ${getProfileNames().join(', ')}`
+        );
+      }
+
+      const validatedParams = tool.schema.parse(ownsProfileArg ? args ?? {} : toolArgs);
+      const result = await runWithProfile(ownsProfileArg ? undefined : profile as string | undefined, () => runWithUsage({ tool: name, clientId: caller.clientId }, async () => {
+        // Inside the profile - estimates read its budgets
+        const quotaError = await checkQuota(await tool.usage?.(validatedParams) ?? {});
+        if (quotaError) {
+          return createToolErrorFromStructured(quotaError);
+        }
+        return tool.handler(validatedParams, {
+          caller,
+          signal: extra.signal,
+          sessionId: extra.sessionId,
+          reportProgress: createProgressReporter(extra),
+        });
+      }));
+
+      // Failed results aren't worth keeping
+      return result.isError ? result : publishArtifact(server, tool, validatedParams, result, caller);
+    } catch (error) {
+      // McpError should propagate to client as protocol error
+      if (error instanceof McpError) {
+        throw error;
+      }
+      
+      // Classify the error for helpful messaging
+      const structuredError = classifyError(error);
+
+      // Log for debugging
+      console.error(`[MCP Server] Tool "${name}" error (client: ${caller.clientId}):`, {
+        code: structuredError.code,
+        message: structuredError.message,
+        retryable: structuredError.retryable,
+      });
+
+      // Create standardized error response with errorCode for client programmatic handling
+      // This response includes: content (markdown), isError: true, errorCode, and retryAfter (for rate limits)
+      return createToolErrorFromStructured(structuredError);
+    }
+  });
+
+  server.setRequestHandler(ListResourcesRequestSchema, async (_request, extra) => {
+    const caller = resolveCaller(extra.authInfo?.clientId);
+    return {
+      resources: artifactStore.list(caller.clientId).map(artifact => ({
+        uri: artifact.uri,
+        name: `${artifact.tool}-${artifact.id.slice(0, 8)}`,
+        title: artifact.title,
+        description: `${artifact.tool} result from ${artifact.createdAt.toISOString()} (${artifact.text.length.toLocaleString()} chars)`,
+        mimeType: 'text/markdown',
+      })),
+    };
+  });
+
+  server.setRequestHandler(ReadResourceRequestSchema, async (request, extra) => {
+    const { uri } = request.params;
+    const caller = resolveCaller(extra.authInfo?.clientId);
+    const artifact = artifactStore.get(uri, caller.clientId);
+
+    // Same error for "never existed", "evicted" and "someone else's" - don't leak other clients' URIs
+    if (!artifact) {
+      throw new McpError(RESOURCE_NOT_FOUND, `Resource not found: ${uri}`);
+    }
+
+    return {
+      contents: [
+        { uri: artifact.uri, mimeType: 'text/markdown', text: artifact.text },
+        ...(artifact.structured
+          ? [{ uri: artifact.uri, mimeType: 'application/json', text: JSON.stringify(artifact.structured, null, 2) }]
+          : []),
+      ],
+    };
+  });
+
+  server.setRequestHandler(ListPromptsRequestSchema, async () => ({
+    prompts: BUILTIN_PROMPTS.map(({ name, title, description, arguments: args }) => ({
+      name,
+      title,
+      description,
+      arguments: args,
+    })),
+  }));
+
+  server.setRequestHandler(GetPromptRequestSchema, async (request, extra) => {
+    const { name, arguments: args = {} } = request.params;
+    const prompt = BUILTIN_PROMPTS.find(p => p.name === name);
+
+    if (!prompt) {
+      throw new McpError(
+        McpErrorCode.InvalidParams,
+        `Unknown prompt: ${name}. Available prompts: ${BUILTIN_PROMPTS.map(p => p.name).join(', ')}`
+      );
+    }
+
+    const missing = prompt.arguments.filter(arg => arg.required && !args[arg.name]?.trim()).map(arg => arg.name);
+    if (missing.length > 0) {
+      throw new McpError(McpErrorCode.InvalidParams, `${name}: missing required argument(s): ${missing.join(', ')}`);
+    }
+
+    const caller = resolveCaller(extra.authInfo?.clientId);
+    const text = prompt.build(args) + unavailableToolsNote(prompt, caller);
+
+    return {
+      description: prompt.description,
+      messages: [{ role: 'user', content: { type: 'text', text } }],
+    };
+  });
+
+  return server;
+}
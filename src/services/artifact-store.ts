@@ -0,0 +1,93 @@
+/**
+ * Artifact Store
+ * Keeps tool results addressable as research://<kind>/<id> resources
+ * In-memory, bounded by item count and total size - oldest artifacts are evicted first
+ */
+
+import { randomUUID } from 'node:crypto';
+import { ARTIFACTS } from '../config/index.js';
+
+export type ArtifactKind = 'search' | 'reddit' | 'scrape' | 'research';
+
+export interface Artifact {
+  id: string;
+  uri: string;
+  kind: ArtifactKind;
+  tool: string;
+  title: string;
+  // Markdown exactly as the tool returned it
+  text: string;
+  structured?: Record<string, unknown>;
+  // Owner - artifacts are only listed/readable by the client that created them
+  clientId: string;
+  createdAt: Date;
+  bytes: number;
+}
+
+export class ArtifactStore {
+  // Map preserves insertion order - first entry is the oldest
+  private artifacts = new Map<string, Artifact>();
+  private totalBytes = 0;
+
+  constructor(
+    private maxItems: number = ARTIFACTS.MAX_ITEMS,
+    private maxTotalBytes: number = ARTIFACTS.MAX_TOTAL_BYTES
+  ) {}
+
+  /**
+   * Store a tool result and return its artifact
+   */
+  save(input: {
+    kind: ArtifactKind;
+    tool: string;
+    title: string;
+    text: string;
+    structured?: Record<string, unknown>;
+    clientId: string;
+  }): Artifact {
+    const id = randomUUID();
+    const structuredBytes = input.structured ? Buffer.byteLength(JSON.stringify(input.structured)) : 0;
+    const artifact: Artifact = {
+      ...input,
+      id,
+      uri: `research://${input.kind}/${id}`,
+      createdAt: new Date(),
+      bytes: Buffer.byteLength(input.text) + structuredBytes,
+    };
+
+    this.artifacts.set(artifact.uri, artifact);
+    this.totalBytes += artifact.bytes;
+    this.evict(artifact.uri);
+
+    return artifact;
+  }
+
+  /**
+   * Look up an artifact by URI for a client - undefined if missing or owned by someone else
+   */
+  get(uri: string, clientId: string): Artifact | undefined {
+    const artifact = this.artifacts.get(uri);
+    return artifact && artifact.clientId === clientId ? artifact : undefined;
+  }
+
+  /**
+   * Artifacts owned by a client, newest first
+   */
+  list(clientId: string): Artifact[] {
+    return [...this.artifacts.values()].filter(a => a.clientId === clientId).reverse();
+  }
+
+  /**
+   * Drop oldest artifacts until within limits (never the one just saved)
+   */
+  private evict(keepUri: string): void {
+    for (const [uri, artifact] of this.artifacts) {
+      if (this.artifacts.size <= this.maxItems && this.totalBytes <= this.maxTotalBytes) break;
+      if (uri === keepUri) continue;
+      this.artifacts.delete(uri);
+      this.totalBytes -= artifact.bytes;
+    }
+  }
+}
+
+export const artifactStore = new ArtifactStore();
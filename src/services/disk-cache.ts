@@ -0,0 +1,181 @@
+/**
+ * Disk Cache
+ * JSON entries under CACHE.DIR/<namespace>, one file per key (named by its SHA-256)
+ * Writes go through a temp file + rename, so concurrent server processes can share the directory
+ *
+ * Expired entries are dropped when read, and by a sweep that runs at most every CACHE.SWEEP_INTERVAL_MS
+ * (started by writes - a cache nobody writes to doesn't grow). The sweep also removes the least recently
+ * written entries while the directory is over CACHE.MAX_BYTES.
+ */
+
+import { createHash } from 'node:crypto';
+import { mkdir, readdir, readFile, rename, rm, stat, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { CACHE } from '../config/index.js';
+
+export interface CacheEntry<T> {
+  value: T;
+  storedAt: number;
+  expiresAt: number;
+}
+
+interface StoredEntry<T> extends CacheEntry<T> {
+  // Full key - guards against reading another key's file
+  key: string;
+}
+
+interface SweptFile {
+  path: string;
+  size: number;
+  writtenAt: number;
+}
+
+// A temp file this old was left behind by a process that died mid-write
+const STALE_TEMP_MS = 3600000;
+
+let lastSweep = 0;
+let sweeping: Promise<void> | undefined;
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Entry files of every namespace, with expired, unreadable and abandoned temp files removed on the way
+ */
+async function collectEntries(now: number): Promise<SweptFile[]> {
+  const files: SweptFile[] = [];
+  const namespaces = await readdir(CACHE.DIR, { withFileTypes: true }).catch(() => []);
+
+  for (const namespace of namespaces) {
+    if (!namespace.isDirectory()) continue;
+    const dir = join(CACHE.DIR, namespace.name);
+    const names = await readdir(dir).catch(() => [] as string[]);
+
+    for (const name of names) {
+      const path = join(dir, name);
+      const stats = await stat(path).catch(() => undefined);
+      if (!stats?.isFile()) continue;
+
+      if (name.endsWith('.tmp')) {
+        if (now - stats.mtimeMs > STALE_TEMP_MS) await rm(path, { force: true }).catch(() => {});
+        continue;
+      }
+      if (!name.endsWith('.json')) continue;
+
+      let expiresAt = 0;
+      try {
+        expiresAt = (JSON.parse(await readFile(path, 'utf-8')) as StoredEntry<unknown>).expiresAt;
+      } catch {
+        // Unreadable - never served, so treat as expired
+      }
+      if (!(now < expiresAt)) {
+        await rm(path, { force: true }).catch(() => {});
+        continue;
+      }
+      files.push({ path, size: stats.size, writtenAt: stats.mtimeMs });
+    }
+  }
+  return files;
+}
+
+/**
+ * Remove expired entries, then the oldest ones until the cache fits in CACHE.MAX_BYTES
+ * NEVER throws
+ */
+export async function sweepCache(): Promise<void> {
+  if (CACHE.DIR === 'off') return;
+
+  try {
+    const files = await collectEntries(Date.now());
+    let total = files.reduce((sum, file) => sum + file.size, 0);
+    if (CACHE.MAX_BYTES <= 0 || total <= CACHE.MAX_BYTES) return;
+
+    // Trim to 90% so the next few writes don't trigger another eviction pass
+    const target = CACHE.MAX_BYTES * 0.9;
+    let evicted = 0;
+    for (const file of files.sort((a, b) => a.writtenAt - b.writtenAt)) {
+      if (total <= target) break;
+      await rm(file.path, { force: true }).catch(() => {});
+      total -= file.size;
+      evicted++;
+    }
+    console.error(`[Cache] Evicted ${evicted} entries to stay under ${Math.round(CACHE.MAX_BYTES / 1048576)} MB`);
+  } catch (error) {
+    console.error(`[Cache] Sweep failed: ${errorMessage(error)}`);
+  }
+}
+
+/**
+ * Start a sweep in the background when the last one is older than CACHE.SWEEP_INTERVAL_MS
+ */
+function maybeSweep(): void {
+  if (sweeping || CACHE.SWEEP_INTERVAL_MS <= 0 || Date.now() - lastSweep < CACHE.SWEEP_INTERVAL_MS) return;
+  lastSweep = Date.now();
+  sweeping = sweepCache().finally(() => {
+    sweeping = undefined;
+  });
+}
+
+export class DiskCache<T> {
+  constructor(private namespace: string) {}
+
+  private path(key: string): string | undefined {
+    if (CACHE.DIR === 'off') return undefined;
+    return join(CACHE.DIR, this.namespace, `${createHash('sha256').update(key).digest('hex')}.json`);
+  }
+
+  /**
+   * Cached value for a key - undefined when missing, expired or unreadable
+   * NEVER throws
+   */
+  async get(key: string): Promise<CacheEntry<T> | undefined> {
+    const path = this.path(key);
+    if (!path) return undefined;
+
+    let entry: StoredEntry<T>;
+    try {
+      entry = JSON.parse(await readFile(path, 'utf-8')) as StoredEntry<T>;
+    } catch {
+      return undefined;
+    }
+
+    if (entry.key !== key) return undefined;
+    if (Date.now() >= entry.expiresAt) {
+      await this.delete(key);
+      return undefined;
+    }
+    return { value: entry.value, storedAt: entry.storedAt, expiresAt: entry.expiresAt };
+  }
+
+  /**
+   * Store a value for ttlMs (0 or less stores nothing)
+   * NEVER throws - a cache that can't be written just misses next time
+   */
+  async set(key: string, value: T, ttlMs: number): Promise<void> {
+    const path = this.path(key);
+    if (!path || ttlMs <= 0) return;
+
+    const now = Date.now();
+    const entry: StoredEntry<T> = { key, value, storedAt: now, expiresAt: now + ttlMs };
+    try {
+      await mkdir(join(CACHE.DIR, this.namespace), { recursive: true });
+      const temp = `${path}.${process.pid}.tmp`;
+      await writeFile(temp, JSON.stringify(entry));
+      await rename(temp, path);
+    } catch (error) {
+      console.error(`[Cache] Cannot write ${this.namespace} entry: ${errorMessage(error)}`);
+    }
+    maybeSweep();
+  }
+
+  async delete(key: string): Promise<void> {
+    const path = this.path(key);
+    if (!path) return;
+    try {
+      await rm(path, { force: true });
+    } catch {
+      // Already gone or unwritable - either way it won't be served
+    }
+  }
+}
@@ -0,0 +1,71 @@
+/**
+ * Error Stats
+ * Rolling window of recent API failures for the server_status tool
+ * In-memory, bounded by age and count - cancellations are not failures and are not recorded
+ * Each failure belongs to the client whose tool call hit it, and clients only see their own -
+ * messages can carry URLs and queries
+ */
+
+import { ErrorCode, type StructuredError } from '../utils/errors.js';
+import { currentClientId } from './usage-ledger.js';
+
+export type ErrorService = 'search' | 'scraper' | 'reddit' | 'research' | 'llm';
+
+interface ErrorEvent {
+  at: number;
+  // undefined outside a tool call - shown to no client
+  clientId?: string;
+  service: ErrorService;
+  code: StructuredError['code'];
+  message: string;
+}
+
+export interface ErrorCodeStats {
+  count: number;
+  services: Partial<Record<ErrorService, number>>;
+  last_message: string;
+  last_at: string;
+}
+
+const WINDOW_MS = 60 * 60 * 1000;
+const MAX_EVENTS = 1000;
+
+// Oldest first
+const events: ErrorEvent[] = [];
+
+function prune(now: number): void {
+  while (events.length > 0 && (events.length > MAX_EVENTS || now - events[0]!.at > WINDOW_MS)) {
+    events.shift();
+  }
+}
+
+/**
+ * Record a failed API attempt (each retry counts)
+ * NEVER throws
+ */
+export function recordError(service: ErrorService, error: StructuredError): void {
+  if (error.code === ErrorCode.CANCELLED) return;
+  const now = Date.now();
+  events.push({ at: now, clientId: currentClientId(), service, code: error.code, message: error.message });
+  prune(now);
+}
+
+/**
+ * A client's failures in the window grouped by ErrorCode, most frequent first
+ */
+export function getErrorStats(clientId: string): { window_minutes: number; total: number; by_code: Record<string, ErrorCodeStats> } {
+  prune(Date.now());
+
+  const own = events.filter(event => event.clientId === clientId);
+  const byCode: Record<string, ErrorCodeStats> = {};
+  for (const event of own) {
+    const stats = byCode[event.code] ??= { count: 0, services: {}, last_message: '', last_at: '' };
+    stats.count++;
+    stats.services[event.service] = (stats.services[event.service] ?? 0) + 1;
+    stats.last_message = event.message;
+    stats.last_at = new Date(event.at).toISOString();
+  }
+
+  const sorted = Object.entries(byCode).sort(([, a], [, b]) => b.count - a.count);
+  return { window_minutes: WINDOW_MS / 60000, total: own.length, by_code: Object.fromEntries(sorted) };
+}
@@ -0,0 +1,226 @@
+/**
+ * Record/Replay Fixtures
+ * fetch replacement under fetchWithTimeout (below) and the OpenAI clients, switched by MCP_FIXTURES:
+ *   record - requests go out as usual, every response is saved under FIXTURES.DIR
+ *   replay - responses are served from FIXTURES.DIR, nothing touches the network
+ *
+ * One file per distinct request (method, URL without the Scrape.do token, body) holding the
+ * responses in the order they arrived - a retried request replays its 429 and then its 200.
+ * API keys travel in headers (or the redacted token parameter), so fixtures hold no secrets.
+ *
+ * A request without a fixture is answered with a 400 - every client treats that as a permanent
+ * failure, while a thrown error would look like a network fault and be retried with backoff.
+ */
+
+import { createHash } from 'node:crypto';
+import { mkdirSync, readFileSync, renameSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import type { ClientOptions } from 'openai';
+import { FIXTURES } from '../config/index.js';
+
+interface RecordedResponse {
+  status: number;
+  statusText: string;
+  headers: Record<string, string>;
+  body: string;
+}
+
+interface Fixture {
+  request: { method: string; url: string; body: string };
+  responses: RecordedResponse[];
+}
+
+// Query parameters that carry credentials
+const SECRET_PARAMS = new Set(['token', 'key', 'api_key', 'apikey']);
+// Response headers that no longer describe the stored (decoded) body, or aren't worth keeping
+const DROPPED_HEADERS = new Set(['content-encoding', 'content-length', 'transfer-encoding', 'set-cookie']);
+
+// Responses served/recorded per fixture file in this process
+const sequence = new Map<string, number>();
+
+function redactUrl(url: string): string {
+  try {
+    const parsed = new URL(url);
+    for (const name of [...parsed.searchParams.keys()]) {
+      if (SECRET_PARAMS.has(name.toLowerCase())) parsed.searchParams.set(name, 'REDACTED');
+    }
+    return parsed.toString();
+  } catch {
+    return url;
+  }
+}
+
+function bodyText(body: RequestInit['body']): string {
+  if (body == null) return '';
+  if (typeof body === 'string') return body;
+  if (body instanceof URLSearchParams) return body.toString();
+  // Streams, blobs and buffers don't occur in our clients - keep the key stable anyway
+  return `[${Object.prototype.toString.call(body)}]`;
+}
+
+/**
+ * Reddit returns a bearer token - replay doesn't need the real one
+ */
+function redactBody(body: string): string {
+  if (!body.includes('"access_token"')) return body;
+  try {
+    const parsed = JSON.parse(body) as Record<string, unknown>;
+    if (typeof parsed.access_token !== 'string') return body;
+    return JSON.stringify({ ...parsed, access_token: 'fixture-token' });
+  } catch {
+    return body;
+  }
+}
+
+function fixturePath(request: Fixture['request']): string {
+  const hash = createHash('sha256').update(JSON.stringify([request.method, request.url, request.body])).digest('hex');
+  let host = 'request';
+  try {
+    host = new URL(request.url).hostname;
+  } catch {
+    // Keep the generic prefix
+  }
+  return join(FIXTURES.DIR, `${host}-${hash.slice(0, 16)}.json`);
+}
+
+function toResponse(recorded: RecordedResponse): Response {
+  // Null-body statuses can't be constructed with a body
+  const body = [101, 204, 205, 304].includes(recorded.status) ? null : recorded.body;
+  return new Response(body, { status: recorded.status, statusText: recorded.statusText, headers: recorded.headers });
+}
+
+function nextIndex(path: string): number {
+  const index = sequence.get(path) ?? 0;
+  sequence.set(path, index + 1);
+  return index;
+}
+
+async function record(path: string, request: Fixture['request'], input: string | URL | Request, init?: RequestInit): Promise<Response> {
+  const response = await fetch(input, init);
+  const recorded: RecordedResponse = {
+    status: response.status,
+    statusText: response.statusText,
+    headers: Object.fromEntries([...response.headers.entries()].filter(([name]) => !DROPPED_HEADERS.has(name))),
+    body: redactBody(await response.text()),
+  };
+
+  // The first response in this process starts the file over - re-recording replaces old fixtures
+  let fixture: Fixture = { request, responses: [] };
+  if (nextIndex(path) > 0) {
+    try {
+      fixture = JSON.parse(readFileSync(path, 'utf-8')) as Fixture;
+    } catch {
+      // Rewritten below
+    }
+  }
+  fixture.responses.push(recorded);
+
+  try {
+    mkdirSync(FIXTURES.DIR, { recursive: true });
+    const temp = `${path}.${process.pid}.tmp`;
+    writeFileSync(temp, JSON.stringify(fixture, null, 2));
+    renameSync(temp, path);
+  } catch (error) {
+    console.error(`[Fixtures] Cannot write ${path}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  return toResponse(recorded);
+}
+
+const MISS_HEADER = 'x-fixture-miss';
+
+/**
+ * Answer for a request replay can't serve - non-retryable, so the call fails at once
+ */
+function replayMiss(message: string): Response {
+  console.error(`[Fixtures] ${message}`);
+  return toResponse({
+    status: 400,
+    statusText: 'No Recorded Fixture',
+    headers: { 'content-type': 'application/json', [MISS_HEADER]: '1' },
+    body: JSON.stringify({ error: { code: 'fixture_missing', message } }),
+  });
+}
+
+/**
+ * True for the response replay gives when it has no fixture - retry loops outside the clients check this
+ */
+export function isReplayMiss(response: Pick<Response, 'headers'>): boolean {
+  return response.headers.get(MISS_HEADER) !== null;
+}
+
+function replay(path: string, request: Fixture['request'], init?: RequestInit): Response {
+  if (init?.signal?.aborted) {
+    throw init.signal.reason ?? new DOMException('The operation was aborted', 'AbortError');
+  }
+
+  let fixture: Fixture;
+  try {
+    fixture = JSON.parse(readFileSync(path, 'utf-8')) as Fixture;
+  } catch {
+    return replayMiss(`No recorded fixture for ${request.method} ${request.url} (expected ${path}) - record it with MCP_FIXTURES=record`);
+  }
+
+  // Past the end of the recording, the last response repeats
+  const index = Math.min(nextIndex(path), fixture.responses.length - 1);
+  const recorded = fixture.responses[index];
+  if (!recorded) {
+    return replayMiss(`Fixture ${path} has no responses`);
+  }
+  return toResponse(recorded);
+}
+
+/**
+ * Drop-in fetch - passes through when MCP_FIXTURES is off
+ * Throws like fetch does on network errors while recording; replay misses answer 400 (see replayMiss)
+ */
+export async function fixtureFetch(input: string | URL | Request, init?: RequestInit): Promise<Response> {
+  if (FIXTURES.MODE === 'off') {
+    return fetch(input, init);
+  }
+
+  const url = typeof input === 'string' ? input : input instanceof URL ? input.toString() : input.url;
+  const request: Fixture['request'] = {
+    method: (init?.method ?? (input instanceof Request ? input.method : 'GET')).toUpperCase(),
+    url: redactUrl(url),
+    body: bodyText(init?.body),
+  };
+  const path = fixturePath(request);
+
+  return FIXTURES.MODE === 'record' ? record(path, request, input, init) : replay(path, request, init);
+}
+
+/**
+ * fetch option for the OpenAI clients - undefined (the SDK's own fetch) when fixtures are off
+ * The SDK types it against node-fetch, but calls it with a URL string and a plain RequestInit
+ */
+export const openAIFetch = FIXTURES.MODE === 'off'
+  ? undefined
+  : fixtureFetch as unknown as NonNullable<ClientOptions['fetch']>;
+
+/**
+ * Wrap a fetch call with timeout via AbortController
+ * Goes through fixtureFetch, which is plain fetch unless MCP_FIXTURES records or replays
+ */
+export function fetchWithTimeout(
+  url: string,
+  options: RequestInit & { timeoutMs?: number } = {}
+): Promise<Response> {
+  const { timeoutMs = 30000, signal: externalSignal, ...fetchOptions } = options;
+
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
+
+  // Combine with external signal if provided (cancellation from the MCP client)
+  const onAbort = () => controller.abort();
+  if (externalSignal?.aborted) {
+    controller.abort();
+  } else {
+    externalSignal?.addEventListener('abort', onAbort, { once: true });
+  }
+
+  return fixtureFetch(url, { ...fetchOptions, signal: controller.signal }).finally(() => {
+    clearTimeout(timeoutId);
+    externalSignal?.removeEventListener('abort', onAbort);
+  });
+}
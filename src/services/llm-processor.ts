@@ -5,13 +5,17 @@
  */
 
 import OpenAI from 'openai';
-import { RESEARCH, LLM_EXTRACTION, getCapabilities } from '../config/index.js';
+import { RESEARCH, LLM_EXTRACTION, parseEnv } from '../config/index.js';
 import {
   classifyError,
+  createCancelledError,
   sleep,
   ErrorCode,
   type StructuredError,
 } from '../utils/errors.js';
+import { recordError } from './error-stats.js';
+import { reserveQuota, type QuotaReservation } from './usage-ledger.js';
+import { openAIFetch } from './fixtures.js';
 
 interface ProcessingConfig {
   use_llm: boolean;
@@ -41,18 +45,30 @@ const RETRYABLE_LLM_ERROR_CODES = new Set([
   'service_unavailable',
 ]);
 
-let llmClient: OpenAI | null = null;
+// One client per base URL and API key (HTTP callers may bring their own OpenRouter key)
+const llmClients = new Map<string, OpenAI>();
 
-export function createLLMProcessor(): OpenAI | null {
-  if (!getCapabilities().llmExtraction) return null;
-  
+/**
+ * Drop cached clients (after a key reload, so rotated keys don't linger)
+ */
+export function resetLLMClients(): void {
+  llmClients.clear();
+}
+
+export function createLLMProcessor(apiKey: string | undefined = parseEnv().RESEARCH_API_KEY): OpenAI | null {
+  if (!apiKey) return null;
+
+  const cacheKey = `${RESEARCH.BASE_URL}\n${apiKey}`;
+  let llmClient = llmClients.get(cacheKey);
   if (!llmClient) {
     llmClient = new OpenAI({
       baseURL: RESEARCH.BASE_URL,
-      apiKey: RESEARCH.API_KEY,
+      apiKey,
       timeout: 120000,
       maxRetries: 0, // We handle retries ourselves for more control
+      fetch: openAIFetch,
     });
+    llmClients.set(cacheKey, llmClient);
   }
   return llmClient;
 }
@@ -116,7 +132,8 @@ function calculateLLMBackoff(attempt: number): number {
 export async function processContentWithLLM(
   content: string,
   config: ProcessingConfig,
-  processor?: OpenAI | null
+  processor?: OpenAI | null,
+  signal?: AbortSignal
 ): Promise<LLMResult> {
   // Early returns for invalid/skip conditions
   if (!config.use_llm) {
@@ -161,10 +178,38 @@ export async function processContentWithLLM(
     requestBody.reasoning = { enabled: true };
   }
 
+  const { reservation, error: quotaError } = await reserveQuota({ openrouter: requestBody.max_tokens as number });
+  if (quotaError) {
+    return { content, processed: false, error: `LLM extraction skipped: ${quotaError.message}`, errorDetails: quotaError };
+  }
+
+  try {
+    return await extractWithRetries(content, requestBody, processor, reservation, signal);
+  } finally {
+    reservation.release();
+  }
+}
+
+/**
+ * Send the extraction request, retrying transient failures - tokens are recorded against the reservation
+ * NEVER throws - falls back to the original content
+ */
+async function extractWithRetries(
+  content: string,
+  requestBody: Record<string, unknown>,
+  processor: OpenAI,
+  reservation: QuotaReservation,
+  signal?: AbortSignal
+): Promise<LLMResult> {
   let lastError: StructuredError | undefined;
 
   // Retry loop
   for (let attempt = 0; attempt <= LLM_RETRY_CONFIG.maxRetries; attempt++) {
+    if (signal?.aborted) {
+      lastError = createCancelledError();
+      break;
+    }
+
     try {
       if (attempt === 0) {
         console.error(`[LLM Processor] Starting extraction with ${LLM_EXTRACTION.MODEL}`);
@@ -172,7 +217,8 @@ export async function processContentWithLLM(
         console.error(`[LLM Processor] Retry attempt ${attempt}/${LLM_RETRY_CONFIG.maxRetries}`);
       }
 
-      const response = await processor.chat.completions.create(requestBody as any);
+      const response = await processor.chat.completions.create(requestBody as any, { signal });
+      reservation.record({ openrouter: response.usage?.total_tokens });
 
       const result = response.choices?.[0]?.message?.content;
       if (result && result.trim()) {
@@ -194,7 +240,13 @@ export async function processContentWithLLM(
       };
 
     } catch (err) {
+      if (signal?.aborted) {
+        lastError = createCancelledError();
+        break;
+      }
+
       lastError = classifyError(err);
+      recordError('llm', lastError);
 
       // Log the error
       const errDetails = err as { status?: number; code?: string };
@@ -208,7 +260,7 @@ export async function processContentWithLLM(
       if (isRetryableLLMError(err) && attempt < LLM_RETRY_CONFIG.maxRetries) {
         const delayMs = calculateLLMBackoff(attempt);
         console.error(`[LLM Processor] Retrying in ${delayMs}ms...`);
-        await sleep(delayMs);
+        await sleep(delayMs, signal).catch(() => {});
         continue;
       }
 
@@ -0,0 +1,202 @@
+/**
+ * Query Expander - turns a single research topic into a diverse set of search queries
+ * Uses OpenRouter via OPENROUTER_API_KEY (same client as the LLM processor)
+ * NEVER throws - failures come back as an error next to an empty query list
+ */
+
+import type OpenAI from 'openai';
+import { QUERY_EXPANSION, getQueryExpansionModel, parseEnv, type EnvConfig } from '../config/index.js';
+import {
+  classifyError,
+  createCancelledError,
+  sleep,
+  ErrorCode,
+  type StructuredError,
+} from '../utils/errors.js';
+import { createLLMProcessor } from './llm-processor.js';
+import { recordError } from './error-stats.js';
+import { reserveQuota, type QuotaReservation } from './usage-ledger.js';
+
+export type ExpansionTarget = 'web' | 'reddit';
+
+export interface QueryExpansion {
+  queries: string[];
+  error?: StructuredError;
+}
+
+const MAX_ATTEMPTS = 2;
+const MAX_QUERY_LENGTH = 500;
+// The prompt asks for 2-8 words - a longer line in a non-JSON reply is prose, not a query
+const MAX_QUERY_WORDS = 10;
+
+// Angles each target should cover - mirrors the query categories in the tool descriptions
+const CATEGORIES: Record<ExpansionTarget, string[]> = {
+  web: [
+    'direct topic variations',
+    'recommendations and best-of',
+    'specific tools, products or projects by name',
+    'comparisons ("X vs Y")',
+    'alternatives and replacements',
+    'problems, issues and limitations',
+    'year-specific queries for recency',
+    'documentation, tutorials and official sources',
+  ],
+  reddit: [
+    'direct topic variations',
+    'recommendations and best-of',
+    'specific tools, products or projects by name',
+    'comparisons ("X vs Y")',
+    'alternatives and replacements',
+    'subreddit-specific queries ("r/<subreddit> <topic>")',
+    'problems and issues',
+    'year-specific queries for recency',
+    'features',
+    'developer / GitHub projects',
+  ],
+};
+
+function buildPrompt(topic: string, target: ExpansionTarget, count: number): string {
+  const year = new Date().getFullYear();
+  const where = target === 'reddit'
+    ? 'Google searches restricted to reddit.com (site:reddit.com is added automatically - do not include it)'
+    : 'Google web searches';
+
+  return [
+    `Write ${count} distinct ${where} for researching this topic:`,
+    '',
+    topic,
+    '',
+    'Spread the queries across these angles:',
+    ...CATEGORIES[target].map(category => `- ${category}`),
+    '',
+    `The current year is ${year}. Keep each query short (2-8 words), the way a person types into Google. Google operators (site:, "exact phrase", -exclusion) are allowed. No duplicates or near-duplicates.`,
+    `Reply with a JSON array of ${count} strings and nothing else.`,
+  ].join('\n');
+}
+
+/**
+ * Pull queries out of the model's reply - a JSON array, or one query per line as a fallback
+ * The fallback skips preamble ("Here are 8 queries:"), code fences and sentences
+ */
+export function parseQueries(reply: string): string[] {
+  const array = reply.match(/\[[\s\S]*\]/);
+  if (array) {
+    try {
+      const parsed: unknown = JSON.parse(array[0]);
+      if (Array.isArray(parsed)) {
+        return parsed.filter((item): item is string => typeof item === 'string');
+      }
+    } catch {
+      // Not valid JSON - fall through to line splitting
+    }
+  }
+
+  return reply
+    .split('\n')
+    .filter(line => !line.trim().startsWith('```'))
+    .map(line => line.trim().replace(/^(?:[-*•]|\d+[.)])\s*/, '').replace(/^["'`]|["'`],?$/g, '').trim())
+    .filter(line => line && !line.endsWith(':') && line.split(/\s+/).length <= MAX_QUERY_WORDS);
+}
+
+/**
+ * Combine caller-supplied and generated queries - case-insensitive dedupe, capped at `max`
+ */
+export function mergeQueries(given: readonly string[], generated: readonly string[], max: number): string[] {
+  const seen = new Set<string>();
+  const merged: string[] = [];
+  for (const query of [...given, ...generated]) {
+    const key = query.trim().toLowerCase();
+    if (!key || seen.has(key)) continue;
+    seen.add(key);
+    merged.push(query.trim());
+    if (merged.length >= max) break;
+  }
+  return merged;
+}
+
+/**
+ * Generate search queries for a topic
+ * NEVER throws - returns an empty list with an error when no queries could be generated
+ */
+export async function expandTopic(
+  topic: string,
+  target: ExpansionTarget,
+  env: EnvConfig = parseEnv(),
+  signal?: AbortSignal
+): Promise<QueryExpansion> {
+  const count = target === 'reddit' ? QUERY_EXPANSION.REDDIT_QUERIES : QUERY_EXPANSION.WEB_QUERIES;
+  // createLLMProcessor() falls back to the server's key - callers without one must not use it
+  const processor = env.RESEARCH_API_KEY ? createLLMProcessor(env.RESEARCH_API_KEY) : null;
+  if (!processor) {
+    return {
+      queries: [],
+      error: { code: ErrorCode.AUTH_ERROR, message: 'Query expansion requires OPENROUTER_API_KEY', retryable: false },
+    };
+  }
+
+  // Room for every attempt - a retry is another completion
+  const { reservation, error: quotaError } = await reserveQuota({ openrouter: QUERY_EXPANSION.MAX_TOKENS * MAX_ATTEMPTS });
+  if (quotaError) {
+    return { queries: [], error: quotaError };
+  }
+
+  try {
+    return await generateQueries(processor, buildPrompt(topic, target, count), target, count, reservation, signal);
+  } finally {
+    reservation.release();
+  }
+}
+
+/**
+ * Ask the model for queries, retrying once - tokens are recorded against the reservation
+ * NEVER throws
+ */
+async function generateQueries(
+  processor: OpenAI,
+  prompt: string,
+  target: ExpansionTarget,
+  count: number,
+  reservation: QuotaReservation,
+  signal?: AbortSignal
+): Promise<QueryExpansion> {
+  const model = getQueryExpansionModel();
+  let lastError: StructuredError | undefined;
+
+  for (let attempt = 0; attempt < MAX_ATTEMPTS; attempt++) {
+    if (signal?.aborted) {
+      return { queries: [], error: createCancelledError() };
+    }
+
+    try {
+      const response = await processor.chat.completions.create({
+        model,
+        messages: [{ role: 'user', content: prompt }],
+        max_tokens: QUERY_EXPANSION.MAX_TOKENS,
+      }, { signal });
+      reservation.record({ openrouter: response.usage?.total_tokens });
+
+      const parsed = parseQueries(response.choices?.[0]?.message?.content ?? '').filter(query => query.length <= MAX_QUERY_LENGTH);
+      const queries = mergeQueries([], parsed, count);
+      if (queries.length > 0) {
+        console.error(`[Query Expander] Generated ${queries.length} ${target} queries with ${model}`);
+        return { queries };
+      }
+
+      lastError = { code: ErrorCode.INTERNAL_ERROR, message: 'Query expansion returned no queries', retryable: true };
+    } catch (err) {
+      if (signal?.aborted) {
+        return { queries: [], error: createCancelledError() };
+      }
+      lastError = classifyError(err);
+      recordError('llm', lastError);
+      console.error(`[Query Expander] Error (attempt ${attempt + 1}): ${lastError.message}`);
+      if (!lastError.retryable) break;
+    }
+
+    if (attempt < MAX_ATTEMPTS - 1) {
+      await sleep(1000 * (attempt + 1), signal).catch(() => {});
+    }
+  }
+
+  return { queries: [], error: lastError };
+}
@@ -0,0 +1,478 @@
+/**
+ * Usage Ledger
+ * Persistent record of provider spending per tool call - Serper queries, Scrape.do credits, OpenRouter tokens
+ * Enforces the daily/monthly caps from getUsageCaps() (calendar days and months in UTC)
+ *
+ * The ledger file holds daily totals per client and tool. Each flush re-reads the file and adds
+ * this process's pending usage, so several server processes (one per stdio client) share one ledger.
+ * Flushes hold a lock file (<ledger>.lock) from read to rename, so concurrent flushes don't drop each other's usage.
+ * Cap checks re-read the file first (at most every LEDGER_REFRESH_MS), so other processes' spending counts too.
+ * All file access is async - waiting for another process's lock never blocks the event loop.
+ */
+
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { mkdir, open, readFile, rename, stat, unlink, writeFile } from 'node:fs/promises';
+import { dirname } from 'node:path';
+import { setTimeout as delay } from 'node:timers/promises';
+import { USAGE, USAGE_PROVIDERS, USAGE_UNITS, getUsageCaps, type UsageProvider } from '../config/index.js';
+import { ErrorCode, type StructuredError } from '../utils/errors.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type UsageAmounts = Partial<Record<UsageProvider, number>>;
+
+type UsageCounters = { calls: number } & Record<UsageProvider, number>;
+
+// Day (YYYY-MM-DD) -> client ID -> tool -> counters
+type LedgerDays = Record<string, Record<string, Record<string, UsageCounters>>>;
+
+interface UsageCall {
+  tool: string;
+  clientId: string;
+}
+
+export type UsagePeriod = 'day' | 'month';
+
+export interface QuotaReservation {
+  /** Record spending - like recordUsage, and frees the same amount of the reserved estimate */
+  record(amounts: UsageAmounts): void;
+  /** Free whatever the work did not spend - call once it is done, successful or not */
+  release(): void;
+}
+
+export type QuotaReservationResult =
+  | { reservation: QuotaReservation; error?: undefined }
+  | { reservation?: undefined; error: StructuredError };
+
+export interface UsageReport {
+  period: string;
+  ledger: string;
+  providers: Array<{
+    provider: UsageProvider;
+    unit: string;
+    today: number;
+    this_month: number;
+    daily_cap: number;
+    monthly_cap: number;
+  }>;
+  by_tool: Array<{ tool: string } & UsageCounters>;
+  by_client: Array<{ client_id: string } & UsageCounters>;
+}
+
+// ============================================================================
+// State
+// ============================================================================
+
+// Tool call the current async context belongs to (set by runWithUsage)
+const currentCall = new AsyncLocalStorage<UsageCall>();
+
+// Spending outside a tool call is still counted, just not attributed
+const UNATTRIBUTED: UsageCall = { tool: '(none)', clientId: '(none)' };
+
+// Ledger as of the last read/flush, usage a flush is writing right now, and usage not yet written
+let persisted: LedgerDays | undefined;
+let flushing: LedgerDays | undefined;
+let pending: LedgerDays = {};
+
+// Ledger reads and flushes of this process run one at a time - the lock file only guards against other processes
+let ledgerQueue: Promise<unknown> = Promise.resolve();
+let refreshing: Promise<void> | undefined;
+let refreshedAt = 0;
+
+// Estimates held by work in flight (reserveQuota) - they count against the caps until recorded or released
+const reserved = Object.fromEntries(USAGE_PROVIDERS.map(provider => [provider, 0])) as Record<UsageProvider, number>;
+
+// A flush holds the lock for milliseconds - one older than this belongs to a process that died mid-flush
+const LOCK_STALE_MS = 10000;
+const LOCK_WAIT_MS = 2000;
+const LOCK_POLL_MS = 20;
+// How stale this process's copy of the ledger may be when checking caps
+const LEDGER_REFRESH_MS = 1000;
+
+function emptyCounters(): UsageCounters {
+  return { calls: 0, ...Object.fromEntries(USAGE_PROVIDERS.map(provider => [provider, 0])) } as UsageCounters;
+}
+
+function add(days: LedgerDays, day: string, call: UsageCall, delta: Partial<UsageCounters>): void {
+  const tools = (days[day] ??= {})[call.clientId] ??= {};
+  const counters = tools[call.tool] ??= emptyCounters();
+  for (const [key, value] of Object.entries(delta)) {
+    counters[key as keyof UsageCounters] = (counters[key as keyof UsageCounters] ?? 0) + value;
+  }
+}
+
+function merge(into: LedgerDays, from: LedgerDays): void {
+  for (const [day, clients] of Object.entries(from)) {
+    for (const [clientId, tools] of Object.entries(clients)) {
+      for (const [tool, counters] of Object.entries(tools)) {
+        add(into, day, { clientId, tool }, counters);
+      }
+    }
+  }
+}
+
+function dayKey(now = new Date()): string {
+  return now.toISOString().slice(0, 10);
+}
+
+function persistenceEnabled(): boolean {
+  return USAGE.LEDGER_FILE !== 'off';
+}
+
+// ============================================================================
+// Persistence
+// ============================================================================
+
+/**
+ * Read the ledger file - a missing file is an empty ledger, a corrupt one is moved aside
+ * NEVER throws - returns undefined when the file can't be read at all
+ */
+async function readLedgerFile(): Promise<LedgerDays | undefined> {
+  const file = USAGE.LEDGER_FILE;
+  let raw: string;
+  try {
+    raw = await readFile(file, 'utf-8');
+  } catch (error) {
+    if ((error as { code?: string }).code === 'ENOENT') return {};
+    console.error(`[Usage] Cannot read ledger ${file}: ${error instanceof Error ? error.message : String(error)}`);
+    return undefined;
+  }
+
+  try {
+    const parsed = JSON.parse(raw) as { days?: unknown };
+    if (!parsed || typeof parsed.days !== 'object' || parsed.days === null) {
+      throw new Error('missing "days"');
+    }
+    return parsed.days as LedgerDays;
+  } catch (error) {
+    const aside = `${file}.corrupt-${Date.now()}`;
+    console.error(`[Usage] Ledger ${file} is unreadable (${error instanceof Error ? error.message : String(error)}) - moved to ${aside}, starting a new one`);
+    await rename(file, aside).catch(() => {
+      // Overwritten on the next flush
+    });
+    return {};
+  }
+}
+
+function prune(days: LedgerDays): void {
+  const cutoff = dayKey(new Date(Date.now() - USAGE.RETENTION_DAYS * 86400000));
+  for (const day of Object.keys(days)) {
+    if (day < cutoff) delete days[day];
+  }
+}
+
+/**
+ * Run fn while holding the ledger lock file - after this process's earlier ledger work has finished
+ * Returns false without running fn when another process keeps the lock past LOCK_WAIT_MS
+ */
+function withLedgerLock(fn: () => Promise<void>): Promise<boolean> {
+  const run = ledgerQueue.then(() => lockAndRun(fn));
+  ledgerQueue = run.catch(() => {});
+  return run;
+}
+
+async function lockAndRun(fn: () => Promise<void>): Promise<boolean> {
+  const lock = `${USAGE.LEDGER_FILE}.lock`;
+  const deadline = Date.now() + LOCK_WAIT_MS;
+  await mkdir(dirname(lock), { recursive: true });
+
+  for (;;) {
+    try {
+      await (await open(lock, 'wx')).close();
+      break;
+    } catch (error) {
+      if ((error as { code?: string }).code !== 'EEXIST') throw error;
+    }
+
+    try {
+      if (Date.now() - (await stat(lock)).mtimeMs > LOCK_STALE_MS) {
+        console.error(`[Usage] Removing stale ledger lock ${lock}`);
+        await unlink(lock);
+        continue;
+      }
+    } catch {
+      // Released between our attempts - try again right away
+      continue;
+    }
+
+    if (Date.now() >= deadline) return false;
+    await delay(LOCK_POLL_MS);
+  }
+
+  try {
+    await fn();
+    return true;
+  } finally {
+    await unlink(lock).catch(() => {
+      // Already gone - nothing to release
+    });
+  }
+}
+
+/**
+ * Re-read the ledger file so cap checks see other processes' flushed spending - at most every LEDGER_REFRESH_MS
+ * NEVER throws - on failure the last copy read stays in use
+ */
+async function refreshLedger(): Promise<void> {
+  if (!persistenceEnabled()) {
+    persisted ??= {};
+    return;
+  }
+  if (persisted && Date.now() - refreshedAt < LEDGER_REFRESH_MS) return;
+
+  const file = USAGE.LEDGER_FILE;
+  refreshing ??= withLedgerLock(async () => {
+    const latest = await readLedgerFile();
+    if (latest) persisted = latest;
+  })
+    .then(locked => {
+      if (!locked) console.error(`[Usage] Ledger ${file} is locked by another process - checking caps against the last copy read`);
+    }, error => {
+      console.error(`[Usage] Cannot read ledger ${file}: ${error instanceof Error ? error.message : String(error)}`);
+    })
+    .finally(() => {
+      refreshedAt = Date.now();
+      refreshing = undefined;
+    });
+  await refreshing;
+}
+
+/**
+ * Write pending usage to the ledger file (re-read under the lock so other processes' usage is kept)
+ * NEVER throws - on failure the usage stays pending and is retried on the next flush
+ */
+export async function flushUsage(): Promise<void> {
+  if (Object.keys(pending).length === 0) return;
+
+  if (!persistenceEnabled()) {
+    merge(persisted ??= {}, pending);
+    pending = {};
+    return;
+  }
+
+  const file = USAGE.LEDGER_FILE;
+  try {
+    const locked = await withLedgerLock(async () => {
+      // An earlier queued flush may have written everything already
+      if (Object.keys(pending).length === 0) return;
+      const latest = await readLedgerFile();
+      if (!latest) return;
+
+      // Usage recorded while writing stays pending for the next flush
+      flushing = pending;
+      pending = {};
+      try {
+        merge(latest, flushing);
+        prune(latest);
+
+        const temp = `${file}.${process.pid}.tmp`;
+        await writeFile(temp, JSON.stringify({ version: 1, days: latest }, null, 2));
+        await rename(temp, file);
+        persisted = latest;
+        refreshedAt = Date.now();
+      } catch (error) {
+        merge(pending, flushing);
+        throw error;
+      } finally {
+        flushing = undefined;
+      }
+    });
+    if (!locked) {
+      console.error(`[Usage] Ledger ${file} is locked by another process - usage stays pending until the next flush`);
+    }
+  } catch (error) {
+    console.error(`[Usage] Cannot write ledger ${file}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+// ============================================================================
+// Recording
+// ============================================================================
+
+/**
+ * Run a tool call with its spending attributed to the tool and client - the ledger is flushed when it ends
+ */
+export async function runWithUsage<T>(call: UsageCall, fn: () => Promise<T>): Promise<T> {
+  add(pending, dayKey(), call, { calls: 1 });
+  try {
+    return await currentCall.run(call, fn);
+  } finally {
+    await flushUsage();
+  }
+}
+
+/**
+ * Client the current tool call belongs to - undefined outside a tool call
+ */
+export function currentClientId(): string | undefined {
+  return currentCall.getStore()?.clientId;
+}
+
+/**
+ * Record provider spending for the current tool call
+ * NEVER throws
+ */
+export function recordUsage(amounts: UsageAmounts): void {
+  const delta = Object.fromEntries(Object.entries(amounts).filter(([, value]) => value && value > 0));
+  if (Object.keys(delta).length === 0) return;
+  add(pending, dayKey(), currentCall.getStore() ?? UNATTRIBUTED, delta);
+}
+
+/**
+ * Provider totals for a day ("YYYY-MM-DD") or month ("YYYY-MM"), optionally for one client
+ */
+function collect(prefix: string, clientId?: string): Array<{ clientId: string; tool: string; counters: UsageCounters }> {
+  const rows: Array<{ clientId: string; tool: string; counters: UsageCounters }> = [];
+  for (const days of [persisted ?? {}, flushing ?? {}, pending]) {
+    for (const [day, clients] of Object.entries(days)) {
+      if (!day.startsWith(prefix)) continue;
+      for (const [id, tools] of Object.entries(clients)) {
+        if (clientId !== undefined && id !== clientId) continue;
+        for (const [tool, counters] of Object.entries(tools)) {
+          rows.push({ clientId: id, tool, counters });
+        }
+      }
+    }
+  }
+  return rows;
+}
+
+function used(provider: UsageProvider, prefix: string): number {
+  // Ledgers written before a provider existed have no counter for it
+  return collect(prefix).reduce((sum, row) => sum + (row.counters[provider] ?? 0), 0);
+}
+
+// ============================================================================
+// Caps
+// ============================================================================
+
+/**
+ * Check that spending `estimate` now stays within every daily and monthly cap, counting estimates reserved by work in flight
+ * Returns a QUOTA_EXCEEDED error to refuse the call - a zero estimate always passes (cached results cost nothing)
+ * Only checks - work that spends should use reserveQuota, so concurrent calls can't all pass against the same headroom
+ */
+export async function checkQuota(estimate: UsageAmounts): Promise<StructuredError | undefined> {
+  await refreshLedger();
+  return checkCaps(estimate);
+}
+
+/**
+ * checkQuota against the ledger as last read
+ */
+function checkCaps(estimate: UsageAmounts): StructuredError | undefined {
+  const caps = getUsageCaps();
+  const now = new Date();
+  const today = dayKey(now);
+
+  for (const provider of USAGE_PROVIDERS) {
+    const amount = estimate[provider];
+    if (!amount) continue;
+
+    for (const period of ['daily', 'monthly'] as const) {
+      const cap = caps[provider][period];
+      if (!cap) continue;
+
+      const spent = used(provider, period === 'daily' ? today : today.slice(0, 7)) + reserved[provider];
+      if (spent + amount > cap) {
+        const resets = period === 'daily'
+          ? new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1))
+          : new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1));
+        const unit = USAGE_UNITS[provider];
+        return {
+          code: ErrorCode.QUOTA_EXCEEDED,
+          message: `${provider} ${period} cap of ${cap.toLocaleString()} ${unit} would be exceeded (${spent.toLocaleString()} used or reserved, this call needs ~${amount.toLocaleString()}). Resets ${resets.toISOString()}.`,
+          retryable: false,
+        };
+      }
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Check the caps like checkQuota and hold `estimate` against them until the work records its spending and releases the rest
+ * Returns the QUOTA_EXCEEDED error instead when the estimate doesn't fit
+ */
+export async function reserveQuota(estimate: UsageAmounts): Promise<QuotaReservationResult> {
+  await refreshLedger();
+  // No await from here on - the check and the reservation happen together
+  const error = checkCaps(estimate);
+  if (error) return { error };
+
+  const held: UsageAmounts = {};
+  for (const provider of USAGE_PROVIDERS) {
+    const amount = estimate[provider];
+    if (!amount || amount < 0) continue;
+    held[provider] = amount;
+    reserved[provider] += amount;
+  }
+
+  const free = (provider: UsageProvider, amount: number): void => {
+    const freed = Math.max(0, Math.min(held[provider] ?? 0, amount));
+    held[provider] = (held[provider] ?? 0) - freed;
+    reserved[provider] -= freed;
+  };
+
+  return {
+    reservation: {
+      record(amounts) {
+        recordUsage(amounts);
+        for (const provider of USAGE_PROVIDERS) free(provider, amounts[provider] ?? 0);
+      },
+      release() {
+        for (const provider of USAGE_PROVIDERS) free(provider, held[provider] ?? 0);
+      },
+    },
+  };
+}
+
+// ============================================================================
+// Report
+// ============================================================================
+
+function sumBy<K extends string>(
+  rows: Array<{ clientId: string; tool: string; counters: UsageCounters }>,
+  key: (row: { clientId: string; tool: string }) => string,
+  label: K
+): Array<Record<K, string> & UsageCounters> {
+  const totals = new Map<string, UsageCounters>();
+  for (const row of rows) {
+    const counters = totals.get(key(row)) ?? emptyCounters();
+    for (const field of Object.keys(counters) as Array<keyof UsageCounters>) {
+      counters[field] += row.counters[field] ?? 0;
+    }
+    totals.set(key(row), counters);
+  }
+  return [...totals]
+    .map(([name, counters]) => ({ [label]: name, ...counters }) as Record<K, string> & UsageCounters)
+    .sort((a, b) => b.calls - a.calls);
+}
+
+/**
+ * Spending for the current day or month per tool and per client, plus provider totals against the caps
+ * Pass clientId to limit the tool/client breakdown to one client (provider totals stay global - caps are)
+ */
+export async function getUsageReport(period: UsagePeriod, clientId?: string): Promise<UsageReport> {
+  await refreshLedger();
+  const today = dayKey();
+  const month = today.slice(0, 7);
+  const rows = collect(period === 'day' ? today : month, clientId);
+  const caps = getUsageCaps();
+
+  return {
+    period: period === 'day' ? today : month,
+    ledger: persistenceEnabled() ? USAGE.LEDGER_FILE : 'in memory',
+    providers: USAGE_PROVIDERS.map(provider => ({
+      provider,
+      unit: USAGE_UNITS[provider],
+      today: used(provider, today),
+      this_month: used(provider, month),
+      daily_cap: caps[provider].daily,
+      monthly_cap: caps[provider].monthly,
+    })),
+    by_tool: sumBy(rows, row => row.tool, 'tool'),
+    by_client: sumBy(rows, row => row.clientId, 'client_id'),
+  };
+}
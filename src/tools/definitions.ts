@@ -1,16 +1,49 @@
 /**
  * MCP Tool Definitions
- * Extracted from index.ts for cleaner separation
+ * Each built-in tool declares its schema, required capability and handler here
  */
 
-import { zodToJsonSchema } from 'zod-to-json-schema';
-import { deepResearchParamsSchema } from '../schemas/deep-research.js';
-import { scrapeLinksParamsSchema } from '../schemas/scrape-links.js';
-import { webSearchParamsSchema } from '../schemas/web-search.js';
+import { defineTool, type ToolDefinition, type ToolContext } from './registry.js';
+import { handleSearchReddit, handleGetRedditPosts } from './reddit.js';
+import { handleDeepResearch } from './research.js';
+import { handleScrapeLinks } from './scrape.js';
+import { handleWebSearch } from './search.js';
+import { handleServerStatus } from './status.js';
+import { handleUsageReport } from './usage.js';
+import { deepResearchParamsSchema, deepResearchOutputSchema, type DeepResearchOutput } from '../schemas/deep-research.js';
+import { getRedditPostParamsSchema, getRedditPostOutputSchema, type GetRedditPostOutput } from '../schemas/get-reddit-post.js';
+import { scrapeLinksParamsSchema, scrapeLinksOutputSchema, type ScrapeLinksOutput } from '../schemas/scrape-links.js';
+import { searchRedditParamsSchema, searchRedditOutputSchema } from '../schemas/search-reddit.js';
+import { webSearchParamsSchema, webSearchOutputSchema } from '../schemas/web-search.js';
+import { QUERY_EXPANSION, RESEARCH, SCRAPER, SEARCH } from '../config/index.js';
+import { LOCAL_CLIENT_ID } from '../config/clients.js';
+import { countUncachedQueries, estimateSearchUsage } from '../clients/search.js';
+import { estimateScrapeCredits } from '../clients/scraper.js';
+import { serverStatusParamsSchema, serverStatusOutputSchema } from '../schemas/server-status.js';
+import { usageReportParamsSchema, usageReportOutputSchema } from '../schemas/usage-report.js';
 
-export const TOOLS = [
+/**
+ * Route a handler's logger to MCP progress notifications
+ * Handlers only log when a sessionId is set - stdio has none, so use a fixed one
+ */
+function progressLogging(context: ToolContext) {
+  return {
+    sessionId: context.sessionId ?? 'stdio',
+    logger: async (_level: 'info' | 'error' | 'debug', message: string) => context.reportProgress(message),
+  };
+}
+
+/**
+ * Short artifact title from the first few inputs - e.g. `"a", "b" +3 more`
+ */
+function summarizeInputs(items: string[], max = 3): string {
+  const shown = items.slice(0, max).map(item => `"${item.length > 60 ? `${item.substring(0, 57)}...` : item}"`).join(', ');
+  return items.length > max ? `${shown} +${items.length - max} more` : shown;
+}
+
+export const BUILTIN_TOOLS: ToolDefinition[] = [
   // === REDDIT TOOLS ===
-  {
+  defineTool({
     name: 'search_reddit',
     description: `**Comprehensive Reddit research via Google (10 results/query, 10-50 queries supported).**
 
@@ -37,37 +70,34 @@ MUST call get_reddit_post after to fetch full post content and comments.
 - Problem/issue queries (3-5 queries)
 - Year-specific queries for recency (2-3 queries)
 
-**OPERATORS:** intitle:, "exact phrase", OR, -exclude. Auto-adds site:reddit.com.`,
-    inputSchema: {
-      type: 'object' as const,
-      properties: {
-        queries: {
-          type: 'array',
-          items: { type: 'string' },
-          description: `**3-50 queries for Reddit research.** Minimum 3 required, but generate at least 10 for meaningful consensus. More queries = better consensus detection.
-
-**QUERY CATEGORIES (aim for coverage across all):**
-
-1. **Direct Topic (3-5):** "YouTube Music Mac app", "YTM desktop application"
-2. **Recommendations (3-5):** "best YouTube Music client Mac", "recommended YTM app"
-3. **Specific Tools (5-10):** "YTMDesktop Mac", "th-ch youtube-music", "steve228uk YT Music"
-4. **Comparisons (3-5):** "YouTube Music vs Spotify Mac", "YTM vs Apple Music desktop"
-5. **Alternatives (3-5):** "YouTube Music Mac alternative", "YTM replacement app"
-6. **Subreddits (5-10):** "r/YoutubeMusic desktop", "r/macapps YouTube Music", "r/opensource YTM"
-7. **Problems/Issues (3-5):** "YouTube Music desktop performance", "YTM app crashes Mac"
-8. **Year-Specific (2-3):** "best YouTube Music app 2024", "YTM desktop 2025"
-9. **Features (3-5):** "YouTube Music offline Mac", "YTM lyrics desktop"
-10. **Developer/GitHub (3-5):** "youtube-music electron app", "YTM github project"`,
-        },
-        date_after: {
-          type: 'string',
-          description: 'Filter results after date (YYYY-MM-DD). Optional.',
-        },
-      },
-      required: ['queries'],
+**OPERATORS:** intitle:, "exact phrase", OR, -exclude. Auto-adds site:reddit.com.
+
+**TOPIC:** Pass \`topic\` instead of (or alongside) queries to have a query set generated across the categories above (requires OPENROUTER_API_KEY). The generated queries are listed in the output.
+
+**MARKETS:** country / language / location target a locale (Google gl / hl / location), e.g. country "de" + language "de" for German threads.
+
+**CACHE:** Repeated queries are served from cache (marked in the output) - set fresh: true to refetch.`,
+    schema: searchRedditParamsSchema,
+    outputSchema: searchRedditOutputSchema,
+    capability: 'search',
+    // Cached queries are free
+    usage: async ({ queries = [], topic, date_after, fresh, country, language, location }) => {
+      const locale = { country, language, location };
+      // Generated queries aren't known yet - assume none of them are cached
+      const generated = topic ? QUERY_EXPANSION.REDDIT_QUERIES : 0;
+      const searches = estimateSearchUsage(await countUncachedQueries('reddit', queries.slice(0, 50), { dateAfter: date_after, fresh, locale }) + generated, { locale, dateAfter: date_after });
+      return topic ? { ...searches, openrouter: QUERY_EXPANSION.MAX_TOKENS } : searches;
+    },
+    artifact: {
+      kind: 'search',
+      title: ({ queries, topic }) => `Reddit search: ${summarizeInputs(topic ? [topic, ...queries ?? []] : queries ?? [])}`,
+    },
+    handler: async ({ queries, topic, date_after, fresh, country, language, location }, { caller, signal }) => {
+      const { content, structuredContent } = await handleSearchReddit(queries ?? [], caller.env, date_after, signal, fresh, { country, language, location }, topic);
+      return { content: [{ type: 'text', text: content }], structuredContent };
     },
-  },
-  {
+  }),
+  defineTool({
     name: 'get_reddit_post',
     description: `**Fetch Reddit posts with smart comment allocation (2-50 posts supported).**
 
@@ -82,31 +112,31 @@ MUST call get_reddit_post after to fetch full post content and comments.
 - \`max_comments\`: Override auto-allocation if needed.
 
 **USE:** After search_reddit. Maximize post count for research breadth. Comment allocation is automatic and optimized.`,
-    inputSchema: {
-      type: 'object' as const,
-      properties: {
-        urls: {
-          type: 'array',
-          items: { type: 'string' },
-          description: 'Reddit URLs (2-50). More posts = broader community perspective.',
-        },
-        fetch_comments: {
-          type: 'boolean',
-          description: 'Fetch comments? Set false for quick post overview. Default: true',
-          default: true,
-        },
-        max_comments: {
-          type: 'number',
-          description: 'Override auto-allocation. Leave empty for smart allocation.',
-          default: 100,
-        },
+    schema: getRedditPostParamsSchema,
+    outputSchema: getRedditPostOutputSchema,
+    capability: 'reddit',
+    artifact: {
+      kind: 'reddit',
+      title: ({ urls }) => `Reddit posts: ${urls.length} post(s)`,
+      compact: (structured) => {
+        const output = structured as GetRedditPostOutput;
+        return { ...output, posts: output.posts.map(({ body: _body, comments: _comments, ...post }) => post) };
       },
-      required: ['urls'],
     },
-  },
+    handler: async ({ urls, max_comments, fetch_comments }, context) => {
+      const { env } = context.caller;
+      const { content, structuredContent } = await handleGetRedditPosts(urls, env.REDDIT_CLIENT_ID!, env.REDDIT_CLIENT_SECRET!, max_comments, {
+        fetchComments: fetch_comments,
+        maxCommentsOverride: max_comments !== 100 ? max_comments : undefined,
+        signal: context.signal,
+        ...progressLogging(context),
+      });
+      return { content: [{ type: 'text', text: content }], structuredContent };
+    },
+  }),
 
   // === DEEP RESEARCH TOOL ===
-  {
+  defineTool({
     name: 'deep_research',
     description: `**Batch deep research (2-10 questions) with dynamic token allocation.**
 
@@ -127,11 +157,31 @@ MUST call get_reddit_post after to fetch full post content and comments.
 - Specific sub-questions (2-5 per topic)
 
 **USE:** Maximize question count for comprehensive coverage. All questions run in parallel. Group related questions for coherent research.`,
-    inputSchema: zodToJsonSchema(deepResearchParamsSchema, { $refStrategy: 'none' }),
-  },
+    schema: deepResearchParamsSchema,
+    outputSchema: deepResearchOutputSchema,
+    capability: 'deepResearch',
+    // Output budget only - prompt and search context tokens come on top
+    usage: () => ({ openrouter: RESEARCH.TOKEN_BUDGET }),
+    artifact: {
+      kind: 'research',
+      title: ({ questions }) => `Deep research: ${summarizeInputs(questions.map(q => q.question), 1)}`,
+      compact: (structured) => {
+        const output = structured as DeepResearchOutput;
+        return { ...output, results: output.results.map(({ content: _content, ...result }) => result) };
+      },
+    },
+    handler: async (params, context) => {
+      const { content, structuredContent } = await handleDeepResearch(params, {
+        apiKey: context.caller.env.RESEARCH_API_KEY,
+        signal: context.signal,
+        ...progressLogging(context),
+      });
+      return { content: [{ type: 'text', text: content }], structuredContent, ...(structuredContent.error ? { isError: true } : {}) };
+    },
+  }),
 
   // === SCRAPE LINKS TOOL ===
-  {
+  defineTool({
     name: 'scrape_links',
     description: `**Universal URL content extraction (3-50 URLs) with dynamic token allocation.**
 
@@ -140,28 +190,119 @@ MUST call get_reddit_post after to fetch full post content and comments.
 - 10 URLs: 3,200 tokens/URL (detailed)
 - 50 URLs: 640 tokens/URL (high-level scan)
 
-**AUTOMATIC FALLBACK:** Basic → JavaScript → JavaScript+US geo-targeting.
+**AUTOMATIC FALLBACK:** Basic → JavaScript → JavaScript+US geo-targeting. Starts with the mode that last worked for the domain.
+
+**CACHE:** Recently scraped URLs are served from cache (no credits). Set fresh=true to scrape again.
 
 **AI EXTRACTION:** Set use_llm=true with what_to_extract for intelligent filtering. Extraction is concise + comprehensive (high info density).
 
 **BATCHING:** Max 30 concurrent requests. 50 URLs = [30] then [20] batches.
 
 **USE:** Provide 3-50 URLs. More URLs = broader coverage, fewer tokens per URL. Choose based on research scope. Maximize URL count for comprehensive research.`,
-    inputSchema: zodToJsonSchema(scrapeLinksParamsSchema, { $refStrategy: 'none' }),
-  },
+    schema: scrapeLinksParamsSchema,
+    outputSchema: scrapeLinksOutputSchema,
+    capability: 'scraping',
+    // Uncached URLs in the mode each would start with - further fallbacks are checked per request
+    usage: async ({ urls, use_llm, fresh }) => ({ scrapedo: await estimateScrapeCredits(urls, { fresh }), ...(use_llm ? { openrouter: SCRAPER.MAX_TOKENS_BUDGET } : {}) }),
+    artifact: {
+      kind: 'scrape',
+      title: ({ urls }) => `Scrape: ${summarizeInputs(urls, 2)}`,
+      compact: (structured) => {
+        const output = structured as ScrapeLinksOutput;
+        return { ...output, results: output.results.map(({ content: _content, ...result }) => result) };
+      },
+    },
+    handler: async (params, context) => {
+      const { caller } = context;
+      // Warn if use_llm requested but LLM not available
+      if (params.use_llm && !caller.capabilities.llmExtraction) {
+        console.error(`[scrape_links] use_llm requested but AI extraction unavailable for client "${caller.clientId}" - proceeding without AI extraction`);
+        params.use_llm = false;
+      }
+
+      const { content, structuredContent } = await handleScrapeLinks(params, {
+        apiKey: caller.env.SCRAPER_API_KEY,
+        llmApiKey: caller.capabilities.llmExtraction ? caller.env.RESEARCH_API_KEY : undefined,
+        signal: context.signal,
+        ...progressLogging(context),
+      });
+      const allFailed = structuredContent.metadata.failed === structuredContent.metadata.total_urls;
+      return { content: [{ type: 'text', text: content }], structuredContent, ...(allFailed ? { isError: true } : {}) };
+    },
+  }),
 
   // === WEB SEARCH TOOL ===
-  {
+  defineTool({
     name: 'web_search',
     description: `**Batch web search** using Google via SERPER API. Search up to 100 keywords in parallel, get top 10 results per keyword with snippets, links, and related searches.
 
 **FEATURES:**
+- \`type\` switches to news, scholar, images, videos, places or shopping results (publication dates, citations and PDFs, image URLs, prices, ratings...)
+- \`time_range\` (hour/day/week/month/year) or \`date_after\` / \`date_before\` (YYYY-MM-DD) restrict results by recency
+- \`depth\` (10-50) fetches results beyond the top 10 for exhaustive sweeps - one search query per 10 results
+- \`follow_related\` (1-3) runs the related searches Google suggests as extra rounds and ranks everything together - finds sources your keywords miss
+- \`topic\` generates a diverse keyword set with an LLM (comparisons, alternatives, problems, year-specific...) - requires OPENROUTER_API_KEY; the keywords are returned with the results
+- \`country\` / \`language\` / \`location\` target a market (Google gl / hl / location) - e.g. country "jp" + language "ja"
 - Supports Google search operators (site:, -exclusion, "exact phrase", filetype:)
 - Returns clickable markdown links with snippets
-- Provides related search suggestions
+- Direct answers (answer box, knowledge graph, top stories) - often no scrape needed
+- Provides related search suggestions and People Also Ask questions as follow-up queries
 - Identifies frequently appearing URLs across queries
+- Repeated keywords are served from cache (no search credits) - set fresh: true to refetch
 
 **USE:** For research tasks requiring multiple perspectives. Use distinct keywords to maximize coverage. Follow up with scrape_links to extract full content from promising URLs.`,
-    inputSchema: zodToJsonSchema(webSearchParamsSchema, { $refStrategy: 'none' }),
-  },
+    schema: webSearchParamsSchema,
+    outputSchema: webSearchOutputSchema,
+    capability: 'search',
+    usage: async ({ keywords = [], topic, follow_related, type, depth, time_range, date_after, date_before, fresh, country, language, location }) => {
+      const locale = { country, language, location };
+      const dates = { timeRange: time_range, dateAfter: date_after, dateBefore: date_before };
+      // Generated and related keywords aren't known yet - assume none of them are cached, and the full related budget
+      const extraKeywords = (topic ? QUERY_EXPANSION.WEB_QUERIES : 0) + (follow_related > 0 ? SEARCH.RELATED_BUDGET : 0);
+      const extra = extraKeywords * Math.ceil(depth / 10);
+      const searches = estimateSearchUsage(await countUncachedQueries(type, keywords, { fresh, locale, depth, ...dates }) + extra, { vertical: type, locale, ...dates });
+      return topic ? { ...searches, openrouter: QUERY_EXPANSION.MAX_TOKENS } : searches;
+    },
+    artifact: {
+      kind: 'search',
+      title: ({ keywords, topic }) => `Web search: ${summarizeInputs(topic ? [topic, ...keywords ?? []] : keywords ?? [])}`,
+    },
+    handler: async (params, context) => {
+      const { content, structuredContent } = await handleWebSearch(params, { env: context.caller.env, signal: context.signal, ...progressLogging(context) });
+      const noResults = structuredContent.metadata.total_results === 0;
+      return { content: [{ type: 'text', text: content }], structuredContent, ...(noResults ? { isError: true } : {}) };
+    },
+  }),
+
+  // === DIAGNOSTICS TOOL ===
+  defineTool({
+    name: 'server_status',
+    description: `**Server diagnostics** - call this first when another tool fails or seems misconfigured.
+
+Reports the server version, which capabilities are enabled (and the missing key or permission behind each disabled one), the configured research and extraction models, the token/comment budgets and retry counts in effect, API failures from the last hour grouped by error code, and the Reddit token cache.
+
+**USE:** Diagnose "research is broken" yourself: e.g. AUTH_ERROR from research means a bad OPENROUTER_API_KEY, RATE_LIMITED from search means the search provider is throttling. No API calls are made.`,
+    schema: serverStatusParamsSchema,
+    outputSchema: serverStatusOutputSchema,
+    handler: async (_params, { caller }) => {
+      const { content, structuredContent } = handleServerStatus(caller);
+      return { content: [{ type: 'text', text: content }], structuredContent };
+    },
+  }),
+  defineTool({
+    name: 'usage_report',
+    description: `**Provider spending report** - search provider queries, Scrape.do credits and OpenRouter tokens used today and this month, against the configured caps, broken down per tool and per client.
+
+**PARAMETERS:**
+- \`period\`: "day" or "month" (default) for the per-tool/per-client breakdown.
+
+**USE:** Before a large research run, or after a call was refused with QUOTA_EXCEEDED, to see how much budget is left and when it resets. No API calls are made.`,
+    schema: usageReportParamsSchema,
+    outputSchema: usageReportOutputSchema,
+    handler: async ({ period }, { caller }) => {
+      // Remote clients only see their own breakdown - provider totals are shared like the caps
+      const { content, structuredContent } = await handleUsageReport(period, caller.clientId === LOCAL_CLIENT_ID ? undefined : caller.clientId);
+      return { content: [{ type: 'text', text: content }], structuredContent };
+    },
+  }),
 ];
@@ -3,11 +3,15 @@
  * NEVER throws - always returns structured response for graceful degradation
  */
 
-import { SearchClient } from '../clients/search.js';
+import { SearchClient, localeKey } from '../clients/search.js';
+import type { SearchLocale } from '../clients/search-providers.js';
 import { RedditClient, calculateCommentAllocation, type PostResult, type Comment } from '../clients/reddit.js';
-import { aggregateAndRankReddit, generateRedditEnhancedOutput } from '../utils/url-aggregator.js';
-import { REDDIT } from '../config/index.js';
-import { classifyError } from '../utils/errors.js';
+import { aggregateAndRankReddit, formatTopicExpansion, generateRedditEnhancedOutput, markLocale } from '../utils/url-aggregator.js';
+import { expandTopic, mergeQueries, type QueryExpansion } from '../services/query-expander.js';
+import { REDDIT, type EnvConfig } from '../config/index.js';
+import { classifyError, ErrorCode } from '../utils/errors.js';
+import type { SearchRedditOutput } from '../schemas/search-reddit.js';
+import type { GetRedditPostOutput } from '../schemas/get-reddit-post.js';
 
 // ============================================================================
 // Formatters
@@ -52,13 +56,46 @@ function formatPost(result: PostResult, fetchComments: boolean): string {
 
 export async function handleSearchReddit(
   queries: string[],
-  apiKey: string,
-  dateAfter?: string
-): Promise<string> {
+  env: EnvConfig,
+  dateAfter?: string,
+  signal?: AbortSignal,
+  fresh = false,
+  locale?: SearchLocale,
+  topic?: string
+): Promise<{ content: string; structuredContent: SearchRedditOutput }> {
+  let limited = queries.slice(0, 50);
+  const market = localeKey(locale) ? { locale } : {};
+  let expansion: QueryExpansion | undefined;
+  const topicMetadata = () => topic ? {
+    topic,
+    ...(expansion?.queries.length ? { generated_queries: expansion.queries } : {}),
+    ...(expansion?.error ? { expansion_error: expansion.error.message } : {}),
+  } : {};
+
   try {
-    const limited = queries.slice(0, 50);
-    const client = new SearchClient(apiKey);
-    const results = await client.searchRedditMultiple(limited, dateAfter);
+    if (topic) {
+      expansion = await expandTopic(topic, 'reddit', env, signal);
+      limited = mergeQueries(limited, expansion.queries, 50);
+    }
+    const expansionNote = formatTopicExpansion(topic, expansion, 'queries');
+
+    if (limited.length === 0) {
+      return {
+        content: `# ❌ search_reddit: No Queries\n\n${expansionNote}**Tip:** Pass \`queries\` directly, or set OPENROUTER_API_KEY for topic expansion.`,
+        structuredContent: {
+          metadata: { total_queries: 0, ...topicMetadata(), ...market, total_results: 0, total_unique_urls: 0, errorCode: expansion?.error?.code ?? ErrorCode.INVALID_INPUT },
+          ranked_posts: [],
+          searches: [],
+        },
+      };
+    }
+
+    const client = new SearchClient(env);
+    const responses = await client.searchRedditMultiple(limited, dateAfter, signal, { fresh, locale });
+    const results = new Map([...responses].map(([query, response]) => [query, response.results]));
+    const cachedAt = new Map(
+      [...responses].flatMap(([query, response]) => response.cachedAt ? [[query, response.cachedAt] as const] : [])
+    );
 
     // Check if any results were found
     let totalResults = 0;
@@ -66,21 +103,66 @@ export async function handleSearchReddit(
       totalResults += items.length;
     }
 
+    const searches = [...results].map(([query, items]) => ({
+      query,
+      results: items.map(r => ({ title: r.title, url: r.url, snippet: r.snippet, date: r.date })),
+      ...(cachedAt.has(query) ? { cached_at: cachedAt.get(query) } : {}),
+    }));
+
     if (totalResults === 0) {
-      return `# 🔍 Reddit Search Results\n\n_No results found for any of the ${limited.length} queries._`;
+      return {
+        content: `# 🔍 Reddit Search Results${markLocale(locale)}\n\n${expansionNote}_No results found for any of the ${limited.length} queries._`,
+        structuredContent: {
+          metadata: { total_queries: limited.length, ...topicMetadata(), ...market, total_results: 0, total_unique_urls: 0, cache_hits: cachedAt.size },
+          ranked_posts: [],
+          searches,
+        },
+      };
     }
 
     // Aggregate and rank results by CTR
     const aggregation = aggregateAndRankReddit(results, 3);
 
     // Generate enhanced output with consensus highlighting AND per-query raw results
-    return generateRedditEnhancedOutput(aggregation, limited, results);
+    return {
+      content: expansionNote + generateRedditEnhancedOutput(aggregation, limited, results, cachedAt, locale),
+      structuredContent: {
+        metadata: {
+          total_queries: limited.length,
+          ...topicMetadata(),
+          ...market,
+          total_results: totalResults,
+          total_unique_urls: aggregation.totalUniqueUrls,
+          frequency_threshold: aggregation.frequencyThreshold,
+          cache_hits: cachedAt.size,
+        },
+        ranked_posts: aggregation.rankedUrls.map(post => ({
+          rank: post.rank,
+          url: post.url,
+          title: post.title,
+          snippet: post.snippet,
+          date: post.date,
+          score: post.score,
+          frequency: post.frequency,
+          queries: post.queries,
+          is_consensus: post.isConsensus,
+        })),
+        searches,
+      },
+    };
   } catch (error) {
     const structuredError = classifyError(error);
     const retryHint = structuredError.retryable 
       ? '\n\n💡 This error may be temporary. Try again in a moment.' 
       : '';
-    return `# ❌ search_reddit: Search Failed\n\n**${structuredError.code}:** ${structuredError.message}${retryHint}\n\n**Tip:** Make sure SERPER_API_KEY is set in your environment variables.`;
+    return {
+      content: `# ❌ search_reddit: Search Failed\n\n**${structuredError.code}:** ${structuredError.message}${retryHint}\n\n**Tip:** Make sure SERPER_API_KEY is set in your environment variables.`,
+      structuredContent: {
+        metadata: { total_queries: limited.length, ...topicMetadata(), ...market, total_results: 0, total_unique_urls: 0, errorCode: structuredError.code },
+        ranked_posts: [],
+        searches: [],
+      },
+    };
   }
 }
 
@@ -91,6 +173,9 @@ export async function handleSearchReddit(
 interface GetRedditPostsOptions {
   fetchComments?: boolean;
   maxCommentsOverride?: number;
+  signal?: AbortSignal;
+  sessionId?: string;
+  logger?: (level: 'info' | 'error' | 'debug', message: string, sessionId: string) => Promise<void>;
 }
 
 export async function handleGetRedditPosts(
@@ -99,23 +184,39 @@ export async function handleGetRedditPosts(
   clientSecret: string,
   maxComments = 100,
   options: GetRedditPostsOptions = {}
-): Promise<string> {
+): Promise<{ content: string; structuredContent: GetRedditPostOutput }> {
+  // Output for a request that failed before any post was fetched
+  const createErrorResponse = (content: string, errorCode: string, message: string): { content: string; structuredContent: GetRedditPostOutput } => ({
+    content,
+    structuredContent: {
+      metadata: { total_posts: urls.length, successful: 0, failed: urls.length, comments_per_post: 0, batches_processed: 0, rate_limit_hits: 0, errorCode },
+      posts: urls.map(url => ({ url, success: false, error: message })),
+    },
+  });
+
   try {
-    const { fetchComments = true, maxCommentsOverride } = options;
+    const { fetchComments = true, maxCommentsOverride, signal, sessionId, logger } = options;
 
     if (urls.length < REDDIT.MIN_POSTS) {
-      return `# ❌ get_reddit_post: Validation Error\n\nMinimum ${REDDIT.MIN_POSTS} Reddit posts required. Received: ${urls.length}`;
+      return createErrorResponse(`# ❌ get_reddit_post: Validation Error\n\nMinimum ${REDDIT.MIN_POSTS} Reddit posts required. Received: ${urls.length}`, ErrorCode.INVALID_INPUT, `Minimum ${REDDIT.MIN_POSTS} posts required`);
     }
     if (urls.length > REDDIT.MAX_POSTS) {
-      return `# ❌ get_reddit_post: Validation Error\n\nMaximum ${REDDIT.MAX_POSTS} Reddit posts allowed. Received: ${urls.length}. Please remove ${urls.length - REDDIT.MAX_POSTS} URL(s) and retry.`;
+      return createErrorResponse(`# ❌ get_reddit_post: Validation Error\n\nMaximum ${REDDIT.MAX_POSTS} Reddit posts allowed. Received: ${urls.length}. Please remove ${urls.length - REDDIT.MAX_POSTS} URL(s) and retry.`, ErrorCode.INVALID_INPUT, `Maximum ${REDDIT.MAX_POSTS} posts allowed`);
     }
 
     const allocation = calculateCommentAllocation(urls.length);
     const commentsPerPost = fetchComments ? (maxCommentsOverride || allocation.perPostCapped) : 0;
     const totalBatches = Math.ceil(urls.length / REDDIT.BATCH_SIZE);
 
+    // Logger failures must never crash the tool
+    const onBatchComplete = (batch: number, total: number, processed: number) => {
+      if (sessionId && logger) {
+        logger('info', `Batch ${batch}/${total} done - ${processed}/${urls.length} posts`, sessionId).catch(() => {});
+      }
+    };
+
     const client = new RedditClient(clientId, clientSecret);
-    const batchResult = await client.batchGetPosts(urls, commentsPerPost, fetchComments);
+    const batchResult = await client.batchGetPosts(urls, commentsPerPost, fetchComments, onBatchComplete, signal);
     const results = batchResult.results;
 
     let md = `# Reddit Posts (${urls.length} posts)\n\n`;
@@ -130,15 +231,32 @@ export async function handleGetRedditPosts(
 
     let successful = 0;
     let failed = 0;
+    const posts: GetRedditPostOutput['posts'] = [];
 
     for (const [url, result] of results) {
       if (result instanceof Error) {
         failed++;
         md += `## ❌ Failed: ${url}\n\n_${result.message}_\n\n---\n\n`;
+        posts.push({ url, success: false, error: result.message });
       } else {
         successful++;
         md += formatPost(result, fetchComments);
         md += '\n---\n\n';
+        posts.push({
+          url,
+          success: true,
+          title: result.post.title,
+          subreddit: result.post.subreddit,
+          author: result.post.author,
+          score: result.post.score,
+          comment_count: result.post.commentCount,
+          permalink: result.post.url,
+          created: result.post.created.toISOString(),
+          body: result.post.body,
+          comments: fetchComments
+            ? result.comments.map(c => ({ author: c.author, body: c.body, score: c.score, depth: c.depth, is_op: c.isOP }))
+            : undefined,
+        });
       }
     }
 
@@ -147,12 +265,29 @@ export async function handleGetRedditPosts(
       md += ` | ⚠️ ${batchResult.rateLimitHits} rate limit retries`;
     }
 
-    return md.trim();
+    return {
+      content: md.trim(),
+      structuredContent: {
+        metadata: {
+          total_posts: urls.length,
+          successful,
+          failed,
+          comments_per_post: commentsPerPost,
+          batches_processed: batchResult.batchesProcessed,
+          rate_limit_hits: batchResult.rateLimitHits,
+        },
+        posts,
+      },
+    };
   } catch (error) {
     const structuredError = classifyError(error);
     const retryHint = structuredError.retryable 
       ? '\n\n💡 This error may be temporary. Try again in a moment.' 
       : '';
-    return `# ❌ get_reddit_post: Operation Failed\n\n**${structuredError.code}:** ${structuredError.message}${retryHint}\n\n**Tip:** Make sure REDDIT_CLIENT_ID and REDDIT_CLIENT_SECRET are set in your environment variables.`;
+    return createErrorResponse(
+      `# ❌ get_reddit_post: Operation Failed\n\n**${structuredError.code}:** ${structuredError.message}${retryHint}\n\n**Tip:** Make sure REDDIT_CLIENT_ID and REDDIT_CLIENT_SECRET are set in your environment variables.`,
+      structuredError.code,
+      structuredError.message
+    );
   }
 }
@@ -0,0 +1,208 @@
+/**
+ * Tool Registry
+ * Single place where each tool declares its schema, required capability and handler
+ *
+ * Third-party tools: set MCP_TOOLS_DIR to a directory of ES modules (.js / .mjs).
+ * Each module default-exports a ToolDefinition (or an array of them), or exports `tools`.
+ */
+
+import { readdir } from 'node:fs/promises';
+import { join, resolve, extname } from 'node:path';
+import { pathToFileURL } from 'node:url';
+import type { z } from 'zod';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+
+import type { CapabilityName } from '../config/index.js';
+import type { CallerContext } from '../config/clients.js';
+import type { ArtifactKind } from '../services/artifact-store.js';
+import type { UsageAmounts } from '../services/usage-ledger.js';
+import { classifyError } from '../utils/errors.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Per-call context handed to every tool handler
+ */
+export interface ToolContext {
+  caller: CallerContext;
+  // Aborted when the MCP client cancels the request - pass it to every API call
+  signal: AbortSignal;
+  // MCP session (HTTP) - undefined on stdio
+  sessionId?: string;
+  // Sends notifications/progress when the request carried a progressToken - NEVER throws
+  reportProgress: (message: string) => Promise<void>;
+}
+
+export interface ToolDefinition<S extends z.ZodTypeAny = z.ZodTypeAny> {
+  name: string;
+  description: string;
+  schema: S;
+  // Shape of structuredContent in successful results (advertised as outputSchema)
+  outputSchema?: z.ZodTypeAny;
+  // Capability the caller must have - omit for tools that need no API keys
+  capability?: CapabilityName;
+  // Keep successful results as research://<kind>/<id> resources
+  artifact?: {
+    kind: ArtifactKind;
+    title(params: z.infer<S>): string;
+    // Slimmer structuredContent for results returned as a resource_link (drop bulky text fields)
+    compact?(structured: Record<string, unknown>): Record<string, unknown>;
+  };
+  // Minimum provider spending for a call - checked against the usage caps before the handler runs
+  usage?(params: z.infer<S>): Promise<UsageAmounts> | UsageAmounts;
+  // Method syntax keeps typed definitions assignable to ToolDefinition (bivariant params)
+  handler(params: z.infer<S>, context: ToolContext): Promise<CallToolResult>;
+}
+
+interface RegisteredTool {
+  definition: ToolDefinition;
+  inputSchema: Record<string, unknown>;
+  outputSchema?: Record<string, unknown>;
+}
+
+/**
+ * Define a tool with handler params inferred from its zod schema
+ */
+export function defineTool<S extends z.ZodTypeAny>(definition: ToolDefinition<S>): ToolDefinition<S> {
+  return definition;
+}
+
+// ============================================================================
+// Registry
+// ============================================================================
+
+const TOOL_NAME_PATTERN = /^[a-zA-Z0-9_-]{1,64}$/;
+
+export class ToolRegistry {
+  private tools = new Map<string, RegisteredTool>();
+  private listeners = new Set<() => void>();
+
+  /**
+   * Subscribe to registry changes - returns an unsubscribe function
+   */
+  onChange(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  /**
+   * Register tools - throws on invalid or duplicate names
+   */
+  register(...definitions: ToolDefinition[]): void {
+    for (const definition of definitions) {
+      if (!TOOL_NAME_PATTERN.test(definition.name)) {
+        throw new Error(`Invalid tool name "${definition.name}"`);
+      }
+      if (this.tools.has(definition.name)) {
+        throw new Error(`Tool "${definition.name}" is already registered`);
+      }
+      this.tools.set(definition.name, {
+        definition,
+        inputSchema: zodToJsonSchema(definition.schema, { $refStrategy: 'none' }) as Record<string, unknown>,
+        outputSchema: definition.outputSchema
+          ? zodToJsonSchema(definition.outputSchema, { $refStrategy: 'none' }) as Record<string, unknown>
+          : undefined,
+      });
+    }
+
+    for (const listener of this.listeners) {
+      try {
+        listener();
+      } catch (error) {
+        console.error(`[Tools] Registry change listener failed: ${classifyError(error).message}`);
+      }
+    }
+  }
+
+  get(name: string): ToolDefinition | undefined {
+    return this.tools.get(name)?.definition;
+  }
+
+  /**
+   * JSON Schema advertised for a tool's arguments
+   */
+  inputSchema(name: string): Record<string, unknown> | undefined {
+    return this.tools.get(name)?.inputSchema;
+  }
+
+  names(): string[] {
+    return [...this.tools.keys()];
+  }
+
+  /**
+   * Tool entries for tools/list, with the capability each one requires
+   */
+  list(): Array<{
+    name: string;
+    description: string;
+    inputSchema: Record<string, unknown>;
+    outputSchema?: Record<string, unknown>;
+    capability?: CapabilityName;
+  }> {
+    return [...this.tools.values()].map(({ definition, inputSchema, outputSchema }) => ({
+      name: definition.name,
+      description: definition.description,
+      inputSchema,
+      ...(outputSchema ? { outputSchema } : {}),
+      capability: definition.capability,
+    }));
+  }
+}
+
+export const toolRegistry = new ToolRegistry();
+
+// ============================================================================
+// Third-Party Tool Modules
+// ============================================================================
+
+function isToolDefinition(value: unknown): value is ToolDefinition {
+  const v = value as Partial<ToolDefinition> | null;
+  return !!v
+    && typeof v.name === 'string'
+    && typeof v.description === 'string'
+    && typeof v.handler === 'function'
+    && typeof (v.schema as { safeParse?: unknown } | undefined)?.safeParse === 'function';
+}
+
+/**
+ * Load tool modules from a directory into the registry
+ * NEVER throws - a broken module is logged and skipped
+ * @returns Names of the tools that were registered
+ */
+export async function loadToolModules(dir: string, registry: ToolRegistry = toolRegistry): Promise<string[]> {
+  const loaded: string[] = [];
+  const absoluteDir = resolve(dir);
+
+  let files: string[];
+  try {
+    files = (await readdir(absoluteDir)).filter(f => ['.js', '.mjs'].includes(extname(f))).sort();
+  } catch (error) {
+    console.error(`[Tools] Cannot read tools directory ${absoluteDir}: ${classifyError(error).message}`);
+    return loaded;
+  }
+
+  for (const file of files) {
+    const modulePath = join(absoluteDir, file);
+    try {
+      const mod = await import(pathToFileURL(modulePath).href) as { default?: unknown; tools?: unknown };
+      const exported = mod.tools ?? mod.default;
+      const candidates = Array.isArray(exported) ? exported : [exported];
+
+      for (const candidate of candidates) {
+        if (!isToolDefinition(candidate)) {
+          console.error(`[Tools] ${file}: export is not a valid tool definition (needs name, description, zod schema, handler)`);
+          continue;
+        }
+        registry.register(candidate);
+        loaded.push(candidate.name);
+      }
+    } catch (error) {
+      console.error(`[Tools] Failed to load ${file}: ${classifyError(error).message}`);
+    }
+  }
+
+  return loaded;
+}
@@ -3,18 +3,19 @@
  * Implements robust error handling that NEVER crashes
  */
 
-import type { DeepResearchParams } from '../schemas/deep-research.js';
+import type { DeepResearchParams, DeepResearchOutput } from '../schemas/deep-research.js';
 import { ResearchClient, type ResearchResponse } from '../clients/research.js';
 import { FileAttachmentService } from '../services/file-attachment.js';
 import { RESEARCH } from '../config/index.js';
 import { classifyError } from '../utils/errors.js';
 
 // Constants
-const TOTAL_TOKEN_BUDGET = 32000;
 const MIN_QUESTIONS = 1; // Allow single question for flexibility
 const MAX_QUESTIONS = 10;
 
 interface ResearchOptions {
+  apiKey?: string;
+  signal?: AbortSignal;
   sessionId?: string;
   logger?: (level: 'info' | 'error' | 'debug', message: string, sessionId: string) => Promise<void>;
 }
@@ -27,9 +28,27 @@ interface QuestionResult {
   tokensUsed?: number;
 }
 
+/**
+ * Output for a batch that failed before any question ran
+ */
+function createBatchError(message: string, totalQuestions: number): { content: string; structuredContent: DeepResearchOutput } {
+  return {
+    content: `# ❌ Error\n\n${message}`,
+    structuredContent: {
+      totalQuestions,
+      successful: 0,
+      failed: totalQuestions,
+      tokensPerQuestion: 0,
+      totalTokensUsed: 0,
+      results: [],
+      error: message,
+    },
+  };
+}
+
 function calculateTokenAllocation(questionCount: number): number {
-  if (questionCount <= 0) return TOTAL_TOKEN_BUDGET;
-  return Math.floor(TOTAL_TOKEN_BUDGET / questionCount);
+  if (questionCount <= 0) return RESEARCH.TOKEN_BUDGET;
+  return Math.floor(RESEARCH.TOKEN_BUDGET / questionCount);
 }
 
 /**
@@ -73,22 +92,16 @@ Be dense with insights, light on filler. Use examples and citations.`;
 export async function handleDeepResearch(
   params: DeepResearchParams,
   options: ResearchOptions = {}
-): Promise<{ content: string; structuredContent: object }> {
-  const { sessionId, logger } = options;
+): Promise<{ content: string; structuredContent: DeepResearchOutput }> {
+  const { apiKey, signal, sessionId, logger } = options;
   const questions = params.questions || [];
 
   // Validation
   if (questions.length < MIN_QUESTIONS) {
-    return {
-      content: `# ❌ Error\n\nMinimum ${MIN_QUESTIONS} research question(s) required. Received: ${questions.length}`,
-      structuredContent: { error: true, message: `Minimum ${MIN_QUESTIONS} question(s) required` },
-    };
+    return createBatchError(`Minimum ${MIN_QUESTIONS} research question(s) required. Received: ${questions.length}`, questions.length);
   }
   if (questions.length > MAX_QUESTIONS) {
-    return {
-      content: `# ❌ Error\n\nMaximum ${MAX_QUESTIONS} research questions allowed. Received: ${questions.length}`,
-      structuredContent: { error: true, message: `Maximum ${MAX_QUESTIONS} questions allowed` },
-    };
+    return createBatchError(`Maximum ${MAX_QUESTIONS} research questions allowed. Received: ${questions.length}`, questions.length);
   }
 
   const tokensPerQuestion = calculateTokenAllocation(questions.length);
@@ -98,20 +111,18 @@ export async function handleDeepResearch(
   // Initialize client safely
   let client: ResearchClient;
   try {
-    client = new ResearchClient();
+    client = new ResearchClient(apiKey);
   } catch (error) {
     const err = classifyError(error);
-    return {
-      content: `# ❌ Error\n\nFailed to initialize research client: ${err.message}`,
-      structuredContent: { error: true, message: `Failed to initialize: ${err.message}` },
-    };
+    return createBatchError(`Failed to initialize research client: ${err.message}`, questions.length);
   }
 
   const fileService = new FileAttachmentService();
   const results: QuestionResult[] = [];
+  let completed = 0;
 
   // Process all questions in parallel - each handler NEVER throws
-  const researchPromises = questions.map(async (q, index): Promise<QuestionResult> => {
+  const researchQuestion = async (q: DeepResearchParams['questions'][number], index: number): Promise<QuestionResult> => {
     try {
       // Enhance question with file attachments if present
       let enhancedQuestion = q.question;
@@ -132,6 +143,9 @@ export async function handleDeepResearch(
         reasoningEffort: RESEARCH.REASONING_EFFORT,
         maxSearchResults: Math.min(RESEARCH.MAX_URLS, 20),
         maxTokens: tokensPerQuestion,
+      }, {
+        signal,
+        onStatus: (message) => void safeLog(logger, sessionId, 'info', `[Question ${index + 1}/${questions.length}] ${message}`),
       });
 
       // Check if response contains an error
@@ -161,6 +175,16 @@ export async function handleDeepResearch(
         error: structuredError.message,
       };
     }
+  };
+
+  const researchPromises = questions.map(async (q, index) => {
+    const result = await researchQuestion(q, index);
+    completed++;
+    await safeLog(
+      logger, sessionId, result.success ? 'info' : 'error',
+      `[${completed}/${questions.length} done] Question ${index + 1} ${result.success ? 'complete' : `failed: ${result.error}`}`
+    );
+    return result;
   });
 
   const allResults = await Promise.all(researchPromises);
@@ -172,7 +196,7 @@ export async function handleDeepResearch(
   const totalTokens = successful.reduce((sum, r) => sum + (r.tokensUsed || 0), 0);
 
   let markdown = `# Deep Research Results (${questions.length} questions)\n\n`;
-  markdown += `**Token Allocation:** ${tokensPerQuestion.toLocaleString()} tokens/question (${questions.length} questions, ${TOTAL_TOKEN_BUDGET.toLocaleString()} total budget)\n`;
+  markdown += `**Token Allocation:** ${tokensPerQuestion.toLocaleString()} tokens/question (${questions.length} questions, ${RESEARCH.TOKEN_BUDGET.toLocaleString()} total budget)\n`;
   markdown += `**Status:** ✅ ${successful.length} successful | ❌ ${failed.length} failed | 📊 ${totalTokens.toLocaleString()} tokens used\n\n`;
   markdown += `---\n\n`;
 
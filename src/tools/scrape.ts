@@ -8,10 +8,14 @@ import { ScraperClient } from '../clients/scraper.js';
 import { MarkdownCleaner } from '../services/markdown-cleaner.js';
 import { createLLMProcessor, processContentWithLLM } from '../services/llm-processor.js';
 import { removeMetaTags } from '../utils/markdown-formatter.js';
+import { markCached } from '../utils/url-aggregator.js';
 import { SCRAPER } from '../config/index.js';
 import { classifyError } from '../utils/errors.js';
 
 interface ToolOptions {
+  apiKey?: string;
+  llmApiKey?: string;
+  signal?: AbortSignal;
   sessionId?: string;
   logger?: (level: 'info' | 'error' | 'debug', message: string, sessionId: string) => Promise<void>;
 }
@@ -52,14 +56,13 @@ export async function handleScrapeLinks(
   params: ScrapeLinksParams,
   options: ToolOptions = {}
 ): Promise<{ content: string; structuredContent: ScrapeLinksOutput }> {
-  const { sessionId, logger } = options;
+  const { apiKey, llmApiKey, signal, sessionId, logger } = options;
   const startTime = Date.now();
 
   // Helper to create error response
   const createErrorResponse = (message: string, executionTime: number): { content: string; structuredContent: ScrapeLinksOutput } => ({
     content: `# ❌ Scraping Failed\n\n${message}`,
     structuredContent: {
-      content: `# ❌ Scraping Failed\n\n${message}`,
       metadata: {
         total_urls: params.urls?.length || 0,
         successful: 0,
@@ -67,6 +70,7 @@ export async function handleScrapeLinks(
         total_credits: 0,
         execution_time_ms: executionTime,
       },
+      results: (params.urls || []).map(url => ({ url, success: false, credits: 0, error: message })),
     },
   });
 
@@ -74,6 +78,12 @@ export async function handleScrapeLinks(
   if (!params.urls || params.urls.length === 0) {
     return createErrorResponse('No URLs provided', Date.now() - startTime);
   }
+  if (params.urls.length < SCRAPER.MIN_URLS) {
+    return createErrorResponse(`Minimum ${SCRAPER.MIN_URLS} URLs required. Received: ${params.urls.length}`, Date.now() - startTime);
+  }
+  if (params.urls.length > SCRAPER.MAX_URLS) {
+    return createErrorResponse(`Maximum ${SCRAPER.MAX_URLS} URLs allowed. Received: ${params.urls.length}. Please remove ${params.urls.length - SCRAPER.MAX_URLS} URL(s) and retry.`, Date.now() - startTime);
+  }
 
   // Filter out invalid URLs early
   const validUrls: string[] = [];
@@ -100,34 +110,52 @@ export async function handleScrapeLinks(
   // Initialize clients safely
   let client: ScraperClient;
   try {
-    client = new ScraperClient();
+    client = new ScraperClient(apiKey);
   } catch (error) {
     const err = classifyError(error);
     return createErrorResponse(`Failed to initialize scraper: ${err.message}`, Date.now() - startTime);
   }
 
   const markdownCleaner = new MarkdownCleaner();
-  const llmProcessor = createLLMProcessor(); // Returns null if not configured
+  const llmProcessor = createLLMProcessor(llmApiKey); // Returns null if not configured
 
   const enhancedInstruction = params.use_llm
     ? enhanceExtractionInstruction(params.what_to_extract)
     : undefined;
 
   // Scrape URLs - scrapeMultiple NEVER throws
-  const results = await client.scrapeMultiple(validUrls, { timeout: params.timeout });
+  let scraped = 0;
+  const results = await client.scrapeMultiple(
+    validUrls,
+    {
+      timeout: params.timeout,
+      signal,
+      fresh: params.fresh,
+      onFallback: (url, description, reason) => void safeLog(logger, sessionId, 'info', `${url}: ${reason} - retrying with ${description}`),
+      onUrlComplete: (url, result) => {
+        scraped++;
+        const ok = result.statusCode >= 200 && result.statusCode < 300 && !result.error;
+        void safeLog(logger, sessionId, ok ? 'info' : 'error', `[${scraped}/${validUrls.length} scraped] ${url} ${ok ? 'done' : `failed: ${result.error?.message || `HTTP ${result.statusCode}`}`}`);
+      },
+    },
+    (batchNum, batches, processed) => void safeLog(logger, sessionId, 'info', `Batch ${batchNum}/${batches} complete (${processed}/${validUrls.length} URLs)`)
+  );
 
   await safeLog(logger, sessionId, 'info', `Scraping complete. Processing ${results.length} results...`);
 
   let successful = 0;
   let failed = 0;
   let totalCredits = 0;
+  let cacheHits = 0;
   let llmErrors = 0;
   const contents: string[] = [];
+  const urlResults: ScrapeLinksOutput['results'] = [];
 
   // Add invalid URLs to failed count
   for (const invalidUrl of invalidUrls) {
     failed++;
     contents.push(`## ${invalidUrl}\n\n❌ Invalid URL format`);
+    urlResults.push({ url: invalidUrl, success: false, credits: 0, error: 'Invalid URL format' });
   }
 
   // Process each result
@@ -146,6 +174,7 @@ export async function handleScrapeLinks(
       failed++;
       const errorMsg = result.error?.message || result.content || `HTTP ${result.statusCode}`;
       contents.push(`## ${result.url}\n\n❌ Failed to scrape: ${errorMsg}`);
+      urlResults.push({ url: result.url, success: false, status_code: result.statusCode, credits: 0, error: errorMsg });
 
       await safeLog(logger, sessionId, 'error', `[${i + 1}/${results.length}] Failed: ${errorMsg}`);
       continue;
@@ -154,6 +183,7 @@ export async function handleScrapeLinks(
     // Success case
     successful++;
     totalCredits += result.credits;
+    if (result.cached) cacheHits++;
 
     // Process content safely
     let content: string;
@@ -165,17 +195,20 @@ export async function handleScrapeLinks(
     }
 
     // Apply LLM extraction if enabled - processContentWithLLM NEVER throws
+    let llmExtracted = false;
     if (params.use_llm && llmProcessor) {
       await safeLog(logger, sessionId, 'info', `[${i + 1}/${results.length}] Applying LLM extraction (${tokensPerUrl} tokens)...`);
 
       const llmResult = await processContentWithLLM(
         content,
         { use_llm: params.use_llm, what_to_extract: enhancedInstruction, max_tokens: tokensPerUrl },
-        llmProcessor
+        llmProcessor,
+        signal
       );
 
       if (llmResult.processed) {
         content = llmResult.content;
+        llmExtracted = true;
         await safeLog(logger, sessionId, 'info', `[${i + 1}/${results.length}] LLM extraction complete`);
       } else {
         llmErrors++;
@@ -191,7 +224,16 @@ export async function handleScrapeLinks(
       // If this fails, just use the content as-is
     }
 
-    contents.push(`## ${result.url}\n\n${content}`);
+    contents.push(`## ${result.url}${markCached(result.cachedAt)}\n\n${content}`);
+    urlResults.push({
+      url: result.url,
+      success: true,
+      status_code: result.statusCode,
+      credits: result.credits,
+      content,
+      llm_extracted: llmExtracted,
+      ...(result.cached ? { cached: result.cached, cached_at: result.cachedAt } : {}),
+    });
   }
 
   const executionTime = Date.now() - startTime;
@@ -201,7 +243,10 @@ export async function handleScrapeLinks(
   // Build response
   const allocationHeader = `**Token Allocation:** ${tokensPerUrl.toLocaleString()} tokens/URL (${params.urls.length} URLs, ${SCRAPER.MAX_TOKENS_BUDGET.toLocaleString()} total budget)`;
   const statusHeader = `**Status:** ✅ ${successful} successful | ❌ ${failed} failed | 📦 ${totalBatches} batch(es)${llmErrors > 0 ? ` | ⚠️ ${llmErrors} LLM extraction failures` : ''}`;
-  const formattedContent = `# Scraped Content (${params.urls.length} URLs)\n\n${allocationHeader}\n${statusHeader}\n\n---\n\n${contents.join('\n\n---\n\n')}`;
+  const cacheNote = cacheHits > 0
+    ? `\n> *${cacheHits} of ${params.urls.length} URLs served from cache - pass \`fresh: true\` to scrape again.*\n`
+    : '';
+  const formattedContent = `# Scraped Content (${params.urls.length} URLs)\n\n${allocationHeader}\n${statusHeader}\n${cacheNote}\n---\n\n${contents.join('\n\n---\n\n')}`;
 
   const metadata = {
     total_urls: params.urls.length,
@@ -212,7 +257,8 @@ export async function handleScrapeLinks(
     tokens_per_url: tokensPerUrl,
     total_token_budget: SCRAPER.MAX_TOKENS_BUDGET,
     batches_processed: totalBatches,
+    cache_hits: cacheHits,
   };
 
-  return { content: formattedContent, structuredContent: { content: formattedContent, metadata } };
+  return { content: formattedContent, structuredContent: { metadata, results: urlResults } };
 }
@@ -4,43 +4,185 @@
  */
 
 import type { WebSearchParams, WebSearchOutput } from '../schemas/web-search.js';
-import { SearchClient } from '../clients/search.js';
+import { SearchClient, localeKey, type KeywordSearchResult } from '../clients/search.js';
+import type { SearchLocale, SearchResult } from '../clients/search-providers.js';
+import { expandTopic, mergeQueries, type QueryExpansion } from '../services/query-expander.js';
 import {
   aggregateAndRank,
   buildUrlLookup,
   lookupUrl,
+  generateDirectAnswers,
   generateEnhancedOutput,
   markConsensus,
+  markCached,
+  markLocale,
+  formatTopicExpansion,
+  getCtrWeight,
 } from '../utils/url-aggregator.js';
-import { CTR_WEIGHTS } from '../config/index.js';
-import { classifyError, MCP_ERROR_CODES, type McpErrorCodeType } from '../utils/errors.js';
+import type { EnvConfig, SearchVertical } from '../config/index.js';
+import { classifyError, ErrorCode, MCP_ERROR_CODES, type McpErrorCodeType } from '../utils/errors.js';
+
+// Same cap as the keywords input
+const MAX_KEYWORDS = 100;
 
 interface ToolOptions {
+  // Search provider keys (defaults to the server's)
+  env?: EnvConfig;
+  signal?: AbortSignal;
   sessionId?: string;
   logger?: (level: 'info' | 'error' | 'debug', message: string, sessionId: string) => Promise<void>;
 }
 
-function getPositionScore(position: number): number {
-  if (position >= 1 && position <= 10) {
-    return CTR_WEIGHTS[position] ?? 0;
+// Heading word per vertical
+const VERTICAL_LABELS: Record<SearchVertical, string> = {
+  web: 'Search',
+  news: 'News',
+  scholar: 'Scholar',
+  images: 'Image',
+  videos: 'Video',
+  places: 'Places',
+  shopping: 'Shopping',
+};
+
+/**
+ * Recency marker for a heading - e.g. " _(past week)_", empty without a filter
+ */
+function markDateFilter(params: WebSearchParams): string {
+  if (params.time_range) return ` _(past ${params.time_range})_`;
+  if (params.date_after && params.date_before) return ` _(${params.date_after} to ${params.date_before})_`;
+  if (params.date_after) return ` _(after ${params.date_after})_`;
+  if (params.date_before) return ` _(before ${params.date_before})_`;
+  return '';
+}
+
+/**
+ * Summary of the related-search rounds - which keywords each round added and what they found
+ */
+function formatRelatedRounds(searches: KeywordSearchResult[], foundByRelated: number): string {
+  const rounds = new Map<number, string[]>();
+  for (const search of searches) {
+    if (!search.round) continue;
+    rounds.set(search.round, [...rounds.get(search.round) ?? [], search.keyword]);
+  }
+  if (rounds.size === 0) {
+    return `> 🔁 *No new related searches to follow.*\n\n`;
   }
-  return Math.max(0, 10 - (position - 10) * 0.5);
+
+  const summary = [...rounds]
+    .map(([round, keywords]) => `round ${round}: ${keywords.map(keyword => `\`${keyword}\``).join(', ')}`)
+    .join('; ');
+  return `> 🔁 **Related searches:** ${summary} — ${foundByRelated} ranked URL(s) came only from related searches.\n\n`;
+}
+
+function joinParts(parts: Array<string | false | undefined>): string {
+  return parts.filter(Boolean).join(' · ');
+}
+
+/**
+ * Detail lines under a result - what matters for the vertical
+ */
+function formatDetails(result: SearchResult, type: SearchVertical): string[] {
+  let snippet = result.snippet;
+  if (snippet.length > 150) {
+    snippet = snippet.substring(0, 147) + '...';
+  }
+  const rating = result.rating !== undefined
+    ? `⭐ ${result.rating}${result.ratingCount !== undefined ? ` (${result.ratingCount})` : ''}`
+    : undefined;
+  const withSnippet = (meta: string) => meta && snippet ? `${meta} — ${snippet}` : meta || snippet;
+
+  let lines: string[];
+  switch (type) {
+    case 'news':
+      lines = [withSnippet(joinParts([result.source && `**${result.source}**`, result.date && `*${result.date}*`]))];
+      break;
+    case 'scholar':
+      lines = [
+        joinParts([
+          result.publication,
+          !result.publication?.includes(result.date ?? '') && result.date,
+          result.citedBy !== undefined && `Cited by ${result.citedBy}`,
+          result.pdfUrl && `[PDF](${result.pdfUrl})`,
+        ]),
+        snippet,
+      ];
+      break;
+    case 'images': {
+      const size = result.imageWidth && result.imageHeight ? `${result.imageWidth}×${result.imageHeight}` : 'image';
+      lines = [joinParts([result.imageUrl && `🖼️ [${size}](${result.imageUrl})`, result.source])];
+      break;
+    }
+    case 'videos':
+      lines = [withSnippet(joinParts([result.source && `**${result.source}**`, result.duration && `⏱ ${result.duration}`, result.date && `*${result.date}*`]))];
+      break;
+    case 'places':
+      lines = [joinParts([result.category, rating]), joinParts([result.address, result.phone]), snippet];
+      break;
+    case 'shopping':
+      lines = [joinParts([result.price && `**${result.price}**`, result.source, rating]), snippet];
+      break;
+    default:
+      lines = [result.date && snippet ? `*${result.date}* — ${snippet}` : snippet];
+  }
+  return lines.filter(Boolean);
 }
 
 export async function handleWebSearch(
   params: WebSearchParams,
   options: ToolOptions = {}
 ): Promise<{ content: string; structuredContent: WebSearchOutput }> {
-  const { sessionId, logger } = options;
+  const { env, signal, sessionId, logger } = options;
   const startTime = Date.now();
+  const locale: SearchLocale = { country: params.country, language: params.language, location: params.location };
+  const market = localeKey(locale) ? { locale } : {};
+  let keywords = params.keywords ?? [];
+  let expansion: QueryExpansion | undefined;
+  // Echoed in metadata so callers can see (and reuse) what was searched
+  const topicMetadata = () => params.topic ? {
+    topic: params.topic,
+    ...(expansion?.queries.length ? { generated_keywords: expansion.queries } : {}),
+    ...(expansion?.error ? { expansion_error: expansion.error.message } : {}),
+  } : {};
 
   try {
+    if (params.topic) {
+      if (sessionId && logger) {
+        await logger('info', `Generating keywords for topic "${params.topic}"`, sessionId);
+      }
+      expansion = await expandTopic(params.topic, 'web', env, signal);
+      keywords = mergeQueries(keywords, expansion.queries, MAX_KEYWORDS);
+    }
+
+    if (keywords.length === 0) {
+      const errorCode = expansion?.error?.code ?? ErrorCode.INVALID_INPUT;
+      return {
+        content: `# ❌ web_search: No Keywords\n\n${formatTopicExpansion(params.topic, expansion, 'keywords')}**Tip:** Pass \`keywords\` directly, or set OPENROUTER_API_KEY for topic expansion.`,
+        structuredContent: {
+          metadata: { total_keywords: 0, type: params.type, ...topicMetadata(), ...market, total_results: 0, execution_time_ms: Date.now() - startTime, errorCode },
+          ranked_urls: [],
+          searches: [],
+        },
+      };
+    }
+
     if (sessionId && logger) {
-      await logger('info', `Searching for ${params.keywords.length} keyword(s)`, sessionId);
+      await logger('info', `Searching for ${keywords.length} keyword(s)`, sessionId);
     }
 
-    const client = new SearchClient();
-    const response = await client.searchMultiple(params.keywords);
+    const client = new SearchClient(env);
+    const searchOptions = {
+      fresh: params.fresh,
+      vertical: params.type,
+      depth: params.depth,
+      locale,
+      dateAfter: params.date_after,
+      dateBefore: params.date_before,
+      timeRange: params.time_range,
+    };
+    const response = params.follow_related > 0
+      ? await client.searchWithRelated(keywords, params.follow_related, signal, searchOptions)
+      : await client.searchMultiple(keywords, signal, searchOptions);
+    const relatedKeywords = response.searches.filter(search => search.round).map(search => search.keyword);
 
     const aggregation = aggregateAndRank(response.searches, 5);
     const urlLookup = buildUrlLookup(aggregation.rankedUrls);
@@ -49,20 +191,28 @@ export async function handleWebSearch(
       url => url.frequency >= aggregation.frequencyThreshold
     );
 
-    let markdown = '';
+    let markdown = formatTopicExpansion(params.topic, expansion, 'keywords');
+    if (params.follow_related > 0) {
+      markdown += formatRelatedRounds(response.searches, aggregation.rankedUrls.filter(url => url.round).length);
+    }
 
     if (consensusUrls.length > 0) {
       markdown += generateEnhancedOutput(
         consensusUrls,
-        params.keywords,
+        response.searches.map(search => search.keyword),
         aggregation.totalUniqueUrls,
         aggregation.frequencyThreshold,
-        aggregation.thresholdNote
+        aggregation.thresholdNote,
+        response.searches
       );
       markdown += '\n---\n\n';
     } else {
       markdown += `## The Perfect Search Results (Aggregated from ${response.totalKeywords} Queries)\n\n`;
       markdown += `> *No high-consensus URLs found across searches. Results may be highly diverse.*\n\n`;
+      const directAnswers = generateDirectAnswers(response.searches);
+      if (directAnswers) {
+        markdown += `${directAnswers}\n`;
+      }
       markdown += `---\n\n`;
     }
 
@@ -72,7 +222,7 @@ export async function handleWebSearch(
     const queriesToShow = response.searches.slice(0, MAX_QUERIES_SHOWN);
     const queriesOmitted = response.searches.length - queriesToShow.length;
 
-    markdown += `## 📊 Full Search Results by Query`;
+    markdown += `## 📊 Full ${VERTICAL_LABELS[params.type]} Results by Query${markLocale(locale)}${markDateFilter(params)}`;
     if (queriesOmitted > 0) {
       markdown += ` (showing ${queriesToShow.length} of ${response.searches.length})`;
     }
@@ -81,13 +231,20 @@ export async function handleWebSearch(
     let totalResults = 0;
 
     queriesToShow.forEach((search, index) => {
-      markdown += `### Query ${index + 1}: "${search.keyword}"\n\n`;
+      const related = search.round ? ` _(related, round ${search.round})_` : '';
+      markdown += `### Query ${index + 1}: "${search.keyword}"${related}${markCached(search.cachedAt)}\n\n`;
 
-      search.results.slice(0, MAX_RESULTS_PER_QUERY).forEach((result, resultIndex) => {
-        const position = resultIndex + 1;
-        const positionScore = getPositionScore(position);
+      if (search.error) {
+        markdown += search.results.length > 0
+          ? `> ⚠️ *Partial results - ${search.error.message}*\n\n`
+          : `> ⚠️ *Search failed: ${search.error.message}*\n\n`;
+      }
 
-        const rankedUrl = lookupUrl(result.link, urlLookup);
+      search.results.slice(0, MAX_RESULTS_PER_QUERY).forEach(result => {
+        const position = result.position;
+        const positionScore = getCtrWeight(position);
+
+        const rankedUrl = lookupUrl(result.link, urlLookup, search.locale);
         const frequency = rankedUrl?.frequency ?? 1;
         const consensusMark = markConsensus(frequency);
         const consensusInfo = rankedUrl
@@ -96,23 +253,18 @@ export async function handleWebSearch(
 
         markdown += `${position}. **[${result.title}](${result.link})** — Position ${position} | Score: ${positionScore.toFixed(1)} | Consensus: ${consensusInfo}\n`;
 
-        if (result.snippet) {
-          let snippet = result.snippet;
-          if (snippet.length > 150) {
-            snippet = snippet.substring(0, 147) + '...';
-          }
-
-          if (result.date) {
-            markdown += `   - *${result.date}* — ${snippet}\n`;
-          } else {
-            markdown += `   - ${snippet}\n`;
-          }
+        for (const line of formatDetails(result, params.type)) {
+          markdown += `   - ${line}\n`;
         }
 
         markdown += '\n';
         totalResults++;
       });
 
+      if (search.results.length > MAX_RESULTS_PER_QUERY) {
+        markdown += `*${search.results.length - MAX_RESULTS_PER_QUERY} more results (down to position ${search.results[search.results.length - 1]!.position}) count toward the ranking above - all are in structuredContent.*\n\n`;
+      }
+
       if (search.related && search.related.length > 0) {
         const relatedSuggestions = search.related
           .slice(0, 5)
@@ -122,11 +274,25 @@ export async function handleWebSearch(
         markdown += `*Related:* ${relatedSuggestions}\n\n`;
       }
 
+      // People Also Ask doubles as follow-up queries
+      if (search.peopleAlsoAsk && search.peopleAlsoAsk.length > 0) {
+        const questions = search.peopleAlsoAsk
+          .slice(0, 5)
+          .map(item => `\`${item.question}\``)
+          .join(', ');
+
+        markdown += `*People also ask:* ${questions}\n\n`;
+      }
+
       if (index < queriesToShow.length - 1) {
         markdown += `---\n\n`;
       }
     });
 
+    if (response.cacheHits > 0) {
+      markdown += `\n> *${response.cacheHits} of ${response.totalKeywords} keywords served from cache - pass \`fresh: true\` to refetch.*\n`;
+    }
+
     if (queriesOmitted > 0) {
       markdown += `\n---\n\n> *${queriesOmitted} additional queries not shown. Consensus URLs above include all ${response.searches.length} queries.*\n`;
     }
@@ -143,14 +309,70 @@ export async function handleWebSearch(
 
     const metadata = {
       total_keywords: response.totalKeywords,
+      ...topicMetadata(),
+      type: params.type,
+      depth: params.depth,
+      ...(params.follow_related > 0 ? { follow_related: params.follow_related, related_keywords: relatedKeywords } : {}),
+      ...market,
+      ...(params.time_range ? { time_range: params.time_range } : {}),
+      ...(params.date_after ? { date_after: params.date_after } : {}),
+      ...(params.date_before ? { date_before: params.date_before } : {}),
       total_results: totalResults,
       execution_time_ms: executionTime,
       total_unique_urls: aggregation.totalUniqueUrls,
       consensus_url_count: consensusUrls.length,
       frequency_threshold: aggregation.frequencyThreshold,
+      cache_hits: response.cacheHits,
     };
 
-    return { content: markdown, structuredContent: { content: markdown, metadata } };
+    const rankedUrls = aggregation.rankedUrls.map(url => ({
+      rank: url.rank,
+      url: url.url,
+      title: url.title,
+      date: url.date,
+      round: url.round,
+      score: url.score,
+      frequency: url.frequency,
+      best_position: url.bestPosition,
+      queries: url.queries,
+      is_consensus: url.isConsensus,
+    }));
+
+    const searches = response.searches.map(search => ({
+      keyword: search.keyword,
+      ...(search.round !== undefined ? { round: search.round } : {}),
+      results: search.results.map(result => ({
+        position: result.position,
+        title: result.title,
+        url: result.link,
+        snippet: result.snippet,
+        date: result.date,
+        source: result.source,
+        image_url: result.imageUrl,
+        image_width: result.imageWidth,
+        image_height: result.imageHeight,
+        duration: result.duration,
+        publication: result.publication,
+        cited_by: result.citedBy,
+        pdf_url: result.pdfUrl,
+        address: result.address,
+        category: result.category,
+        phone: result.phone,
+        rating: result.rating,
+        rating_count: result.ratingCount,
+        price: result.price,
+      })),
+      related: search.related,
+      ...(search.answerBox ? { answer_box: search.answerBox } : {}),
+      ...(search.knowledgeGraph ? { knowledge_graph: search.knowledgeGraph } : {}),
+      ...(search.peopleAlsoAsk ? { people_also_ask: search.peopleAlsoAsk } : {}),
+      ...(search.topStories ? { top_stories: search.topStories } : {}),
+      ...(search.provider ? { provider: search.provider } : {}),
+      ...(search.cachedAt ? { cached_at: search.cachedAt } : {}),
+      ...(search.error ? { error: search.error.message } : {}),
+    }));
+
+    return { content: markdown, structuredContent: { metadata, ranked_urls: rankedUrls, searches } };
   } catch (error) {
     // Classify error for better reporting
     const structuredError = classifyError(error);
@@ -164,18 +386,22 @@ export async function handleWebSearch(
     const retryHint = structuredError.retryable 
       ? '\n\n💡 This error may be temporary. Try again in a moment.' 
       : '';
-    const errorContent = `# ❌ web_search: Search Failed\n\n**${errorCode}:** ${structuredError.message}${retryHint}\n\n**Tip:** Make sure SERPER_API_KEY is set in your environment variables.`;
+    const errorContent = `# ❌ web_search: Search Failed\n\n**${errorCode}:** ${structuredError.message}${retryHint}\n\n**Tip:** Make sure SERPER_API_KEY (or another search provider's key) is set in your environment variables.`;
 
     return {
       content: errorContent,
       structuredContent: {
-        content: errorContent,
         metadata: {
-          total_keywords: params.keywords.length,
+          total_keywords: keywords.length,
+          ...topicMetadata(),
+          type: params.type,
+          ...market,
           total_results: 0,
           execution_time_ms: executionTime,
           errorCode, // Include error code for programmatic handling
         },
+        ranked_urls: [],
+        searches: [],
       },
     };
   }
@@ -0,0 +1,102 @@
+/**
+ * Server Status Tool Handler
+ * Diagnostics an agent can read itself: version, capabilities, models, budgets, recent errors
+ * NEVER throws - only reads in-memory state
+ */
+
+import type { ServerStatusOutput } from '../schemas/server-status.js';
+import { SERVER, RESEARCH, SEARCH, SCRAPER, REDDIT, LLM_EXTRACTION, CAPABILITY_NAMES, getSearchProviders, getQueryExpansionModel } from '../config/index.js';
+import { getUnavailableReason, type CallerContext } from '../config/clients.js';
+import { describeSettings } from '../config/settings.js';
+import { getErrorStats } from '../services/error-stats.js';
+import { getRedditTokenCacheState } from '../clients/reddit.js';
+
+function formatStatus(status: ServerStatusOutput): string {
+  const { server, capabilities, models, budgets, errors, reddit_token_cache } = status;
+  const lines: string[] = [
+    `# ${server.name} v${server.version}`,
+    '',
+    `**Uptime:** ${server.uptime_seconds}s | **Settings:** ${server.settings} | **Client:** \`${status.client_id}\``,
+    '',
+    '## Capabilities',
+    '',
+    ...capabilities.map(c => c.enabled ? `- ✅ ${c.name}` : `- ❌ ${c.name} - ${c.reason}`),
+    '',
+    '## Models',
+    '',
+    `- Research: \`${models.research}\` (fallback \`${models.research_fallback}\`)`,
+    `- LLM extraction: \`${models.llm_extraction}\``,
+    `- Search: ${models.search_providers.length > 0 ? models.search_providers.map(p => `\`${p}\``).join(' → ') : 'none configured'}`,
+    '',
+    '## Budgets',
+    '',
+    `- deep_research: ${budgets.research_tokens.toLocaleString()} tokens, ${budgets.research_max_urls} URLs, reasoning ${budgets.research_reasoning_effort}`,
+    `- scrape_links: ${budgets.scrape_tokens.toLocaleString()} tokens (LLM extraction max ${budgets.llm_extraction_max_tokens.toLocaleString()})`,
+    `- get_reddit_post: ${budgets.reddit_comments.toLocaleString()} comments (max ${budgets.reddit_comments_per_post}/post)`,
+    `- Retries: search ${budgets.search_max_retries}, scraper ${budgets.scraper_retry_count}, reddit ${budgets.reddit_retry_count}, research ${budgets.research_max_retries}`,
+    '',
+    `## Recent Errors (last ${errors.window_minutes} min)`,
+    '',
+  ];
+
+  const codes = Object.entries(errors.by_code);
+  if (codes.length === 0) {
+    lines.push('No API failures recorded.');
+  } else {
+    lines.push('| Code | Count | Services | Last error |', '|---|---|---|---|');
+    for (const [code, stats] of codes) {
+      const services = Object.entries(stats.services).map(([service, count]) => `${service} ×${count}`).join(', ');
+      lines.push(`| ${code} | ${stats.count} | ${services} | ${stats.last_message.replace(/\|/g, '\\|')} (${stats.last_at}) |`);
+    }
+  }
+
+  lines.push('', '## Reddit Token Cache', '');
+  if (reddit_token_cache.length === 0) {
+    lines.push('Empty - the next Reddit call authenticates.');
+  } else {
+    for (const entry of reddit_token_cache) {
+      lines.push(`- \`${entry.client_id}\`: ${entry.valid ? 'valid' : 'expired'} until ${entry.expires_at}`);
+    }
+  }
+
+  return lines.join('\n');
+}
+
+export function handleServerStatus(caller: CallerContext): { content: string; structuredContent: ServerStatusOutput } {
+  const structuredContent: ServerStatusOutput = {
+    server: {
+      name: SERVER.NAME,
+      version: SERVER.VERSION,
+      uptime_seconds: Math.round(process.uptime()),
+      settings: describeSettings(),
+    },
+    client_id: caller.clientId,
+    capabilities: CAPABILITY_NAMES.map(name => caller.capabilities[name]
+      ? { name, enabled: true }
+      : { name, enabled: false, reason: getUnavailableReason(caller, name) }),
+    models: {
+      research: RESEARCH.MODEL,
+      research_fallback: RESEARCH.FALLBACK_MODEL,
+      llm_extraction: LLM_EXTRACTION.MODEL,
+      query_expansion: getQueryExpansionModel(),
+      search_providers: getSearchProviders(caller.env),
+    },
+    budgets: {
+      research_tokens: RESEARCH.TOKEN_BUDGET,
+      research_max_urls: RESEARCH.MAX_URLS,
+      research_reasoning_effort: RESEARCH.REASONING_EFFORT,
+      scrape_tokens: SCRAPER.MAX_TOKENS_BUDGET,
+      reddit_comments: REDDIT.MAX_COMMENT_BUDGET,
+      reddit_comments_per_post: REDDIT.MAX_COMMENTS_PER_POST,
+      llm_extraction_max_tokens: LLM_EXTRACTION.MAX_TOKENS,
+      search_max_retries: SEARCH.MAX_RETRIES,
+      scraper_retry_count: SCRAPER.RETRY_COUNT,
+      reddit_retry_count: REDDIT.RETRY_COUNT,
+      research_max_retries: RESEARCH.MAX_RETRIES,
+    },
+    errors: getErrorStats(caller.clientId),
+    reddit_token_cache: getRedditTokenCacheState(),
+  };
+
+  return { content: formatStatus(structuredContent), structuredContent };
+}
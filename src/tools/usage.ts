@@ -0,0 +1,74 @@
+/**
+ * Usage Report Tool Handler
+ * Provider spending per tool and per client from the usage ledger
+ * NEVER throws - only reads the ledger
+ */
+
+import type { UsageReportOutput } from '../schemas/usage-report.js';
+import { getUsageReport, type UsagePeriod } from '../services/usage-ledger.js';
+import { USAGE_PROVIDERS, USAGE_UNITS, type UsageProvider } from '../config/index.js';
+
+const PROVIDER_LABELS: Record<UsageProvider, string> = {
+  serper: 'Serper',
+  brave: 'Brave',
+  tavily: 'Tavily',
+  bing: 'Bing',
+  scrapedo: 'Scrape.do',
+  openrouter: 'OpenRouter',
+};
+
+// Always shown - the alternative search providers only get a column once they have been used
+const DEFAULT_COLUMNS: readonly UsageProvider[] = ['serper', 'scrapedo', 'openrouter'];
+
+function formatCap(used: number, cap: number): string {
+  return cap ? `${used.toLocaleString()} / ${cap.toLocaleString()} (${Math.round((used / cap) * 100)}%)` : `${used.toLocaleString()} (no cap)`;
+}
+
+function formatReport(report: UsageReportOutput): string {
+  const lines: string[] = [
+    `# 💳 Usage Report: ${report.period}`,
+    '',
+    `**Ledger:** ${report.ledger}`,
+    '',
+    '## Providers (all clients)',
+    '',
+    '| Provider | Unit | Today | This month |',
+    '|---|---|---|---|',
+    ...report.providers.map(p => `| ${p.provider} | ${p.unit} | ${formatCap(p.today, p.daily_cap)} | ${formatCap(p.this_month, p.monthly_cap)} |`),
+  ];
+
+  const columns = USAGE_PROVIDERS.filter(provider =>
+    DEFAULT_COLUMNS.includes(provider) || report.by_tool.some(row => row[provider] > 0)
+  );
+
+  const table = (title: string, label: string, rows: Array<{ name: string; calls: number } & Record<UsageProvider, number>>) => {
+    lines.push('', `## ${title}`, '');
+    if (rows.length === 0) {
+      lines.push('_No tool calls recorded in this period._');
+      return;
+    }
+    lines.push(
+      `| ${label} | Calls | ${columns.map(provider => `${PROVIDER_LABELS[provider]} ${USAGE_UNITS[provider]}`).join(' | ')} |`,
+      `|---|---|${columns.map(() => '---').join('|')}|`
+    );
+    for (const row of rows) {
+      lines.push(`| ${row.name} | ${row.calls} | ${columns.map(provider => row[provider].toLocaleString()).join(' | ')} |`);
+    }
+  };
+
+  table('By Tool', 'Tool', report.by_tool.map(({ tool, ...counters }) => ({ name: tool, ...counters })));
+  table('By Client', 'Client', report.by_client.map(({ client_id, ...counters }) => ({ name: client_id, ...counters })));
+
+  return lines.join('\n');
+}
+
+/**
+ * @param clientId - Limit the tool/client breakdown to one client (undefined = everyone)
+ */
+export async function handleUsageReport(
+  period: UsagePeriod,
+  clientId?: string
+): Promise<{ content: string; structuredContent: UsageReportOutput }> {
+  const structuredContent = await getUsageReport(period, clientId);
+  return { content: formatReport(structuredContent), structuredContent };
+}
@@ -0,0 +1,306 @@
+/**
+ * Streamable HTTP Transport
+ * Serves the MCP server over HTTP with per-session Server instances
+ * Implements robust error handling - a bad request NEVER takes the server down
+ */
+
+import { createServer as createHttpServer, type IncomingMessage, type ServerResponse, type Server as NodeHttpServer } from 'node:http';
+import { randomUUID } from 'node:crypto';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+import type { AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js';
+
+import { createServer } from '../server.js';
+import { HTTP } from '../config/index.js';
+import { loadClientProfiles, isAuthEnabled, authenticateToken } from '../config/clients.js';
+import { classifyError } from '../utils/errors.js';
+
+interface HttpServerOptions {
+  host?: string;
+  port?: number;
+}
+
+type AuthenticatedRequest = IncomingMessage & { auth?: AuthInfo };
+
+interface Session {
+  transport: StreamableHTTPServerTransport;
+  // Client that initialized the session - other tokens may not reuse it
+  clientId?: string;
+  close: () => Promise<void>;
+  lastActivity: number;
+  // Responses still open (tool calls streaming their result, GET event streams) - never reaped while > 0
+  inFlight: number;
+}
+
+export interface RunningHttpServer {
+  url: string;
+  close: () => Promise<void>;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Read and parse a JSON request body with a size limit
+ * Rejects on oversized or malformed bodies
+ */
+function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > HTTP.MAX_BODY_BYTES) {
+        reject(new Error(`Request body exceeds ${HTTP.MAX_BODY_BYTES} bytes`));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+
+    req.on('end', () => {
+      try {
+        const raw = Buffer.concat(chunks).toString('utf-8');
+        resolve(raw ? JSON.parse(raw) : undefined);
+      } catch (error) {
+        reject(error);
+      }
+    });
+
+    req.on('error', reject);
+  });
+}
+
+/**
+ * Write a JSON-RPC error response (used before a transport exists)
+ */
+function sendJsonRpcError(res: ServerResponse, httpStatus: number, code: number, message: string): void {
+  if (res.headersSent) return;
+  res.writeHead(httpStatus, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify({ jsonrpc: '2.0', error: { code, message }, id: null }));
+}
+
+/**
+ * Extract the bearer token from the Authorization header
+ */
+function getBearerToken(req: IncomingMessage): string | undefined {
+  const header = req.headers.authorization;
+  if (!header) return undefined;
+  const match = header.match(/^Bearer\s+(.+)$/i);
+  return match?.[1]?.trim();
+}
+
+function sendUnauthorized(res: ServerResponse, message: string): void {
+  if (res.headersSent) return;
+  res.writeHead(401, {
+    'Content-Type': 'application/json',
+    'WWW-Authenticate': 'Bearer realm="mcp"',
+  });
+  res.end(JSON.stringify({ jsonrpc: '2.0', error: { code: -32001, message }, id: null }));
+}
+
+function isLoopback(host: string): boolean {
+  return host === '127.0.0.1' || host === '::1' || host === 'localhost';
+}
+
+function getSessionId(req: IncomingMessage): string | undefined {
+  const header = req.headers['mcp-session-id'];
+  return Array.isArray(header) ? header[0] : header;
+}
+
+// ============================================================================
+// HTTP Server
+// ============================================================================
+
+/**
+ * Start the Streamable HTTP server
+ * Each initialize request creates a new session with its own Server instance
+ */
+export async function startHttpServer(options: HttpServerOptions = {}): Promise<RunningHttpServer> {
+  const host = options.host ?? HTTP.HOST;
+  const port = options.port ?? HTTP.PORT;
+  const sessions = new Map<string, Session>();
+
+  // Throws on an invalid clients file - never fall back to an open server
+  const profileCount = loadClientProfiles();
+  if (profileCount > 0) {
+    console.error(`[HTTP] Bearer authentication enabled (${profileCount} client profile(s))`);
+  } else if (!isLoopback(host)) {
+    console.error(`[HTTP] ⚠️ No MCP_AUTH_TOKEN or MCP_AUTH_CLIENTS_FILE set - anyone who can reach ${host}:${port} can spend your API credits`);
+  }
+
+  const closeSession = async (sessionId: string): Promise<void> => {
+    const session = sessions.get(sessionId);
+    if (!session) return;
+    sessions.delete(sessionId);
+    try {
+      await session.close();
+    } catch (error) {
+      console.error(`[HTTP] Error closing session ${sessionId}:`, classifyError(error).message);
+    }
+  };
+
+  /**
+   * Create a transport + server pair for a new session
+   */
+  const createSession = async (clientId?: string): Promise<StreamableHTTPServerTransport> => {
+    const server = createServer();
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: (sessionId) => {
+        sessions.set(sessionId, {
+          transport,
+          clientId,
+          close: () => server.close(),
+          lastActivity: Date.now(),
+          inFlight: 0,
+        });
+        console.error(`[HTTP] Session ${sessionId} initialized (${sessions.size} active)`);
+      },
+    });
+
+    transport.onclose = () => {
+      if (transport.sessionId && sessions.delete(transport.sessionId)) {
+        console.error(`[HTTP] Session ${transport.sessionId} closed (${sessions.size} active)`);
+      }
+    };
+
+    await server.connect(transport);
+    return transport;
+  };
+
+  /**
+   * Count a response as in flight until it closes - idle time starts when the last one ends
+   */
+  const trackResponse = (session: Session, res: ServerResponse): void => {
+    session.inFlight++;
+    session.lastActivity = Date.now();
+    res.once('close', () => {
+      session.inFlight--;
+      session.lastActivity = Date.now();
+    });
+  };
+
+  const handleMcpRequest = async (req: AuthenticatedRequest, res: ServerResponse): Promise<void> => {
+    let clientId: string | undefined;
+
+    if (isAuthEnabled()) {
+      const token = getBearerToken(req);
+      if (!token) {
+        sendUnauthorized(res, 'Unauthorized: Bearer token required');
+        return;
+      }
+      clientId = authenticateToken(token) ?? undefined;
+      if (!clientId) {
+        sendUnauthorized(res, 'Unauthorized: Invalid bearer token');
+        return;
+      }
+      // Surfaces as extra.authInfo in request handlers
+      req.auth = { token, clientId, scopes: [] };
+    }
+
+    const sessionId = getSessionId(req);
+    const existing = sessionId ? sessions.get(sessionId) : undefined;
+
+    if (existing && existing.clientId !== clientId) {
+      sendJsonRpcError(res, 403, -32001, 'Forbidden: Session belongs to a different client');
+      return;
+    }
+
+    if (req.method === 'POST') {
+      let body: unknown;
+      try {
+        body = await readJsonBody(req);
+      } catch (error) {
+        sendJsonRpcError(res, 400, -32700, `Parse error: ${classifyError(error).message}`);
+        return;
+      }
+
+      if (existing) {
+        trackResponse(existing, res);
+        await existing.transport.handleRequest(req, res, body);
+        return;
+      }
+
+      if (!sessionId && isInitializeRequest(body)) {
+        const transport = await createSession(clientId);
+        await transport.handleRequest(req, res, body);
+        return;
+      }
+
+      if (sessionId) {
+        sendJsonRpcError(res, 404, -32001, 'Session not found');
+      } else {
+        sendJsonRpcError(res, 400, -32000, 'Bad Request: No valid session ID provided');
+      }
+      return;
+    }
+
+    if (req.method === 'GET' || req.method === 'DELETE') {
+      if (!existing) {
+        sendJsonRpcError(res, sessionId ? 404 : 400, -32000, sessionId ? 'Session not found' : 'Bad Request: Mcp-Session-Id header is required');
+        return;
+      }
+      trackResponse(existing, res);
+      await existing.transport.handleRequest(req, res);
+      return;
+    }
+
+    res.writeHead(405, { Allow: 'GET, POST, DELETE' }).end();
+  };
+
+  const httpServer: NodeHttpServer = createHttpServer((req, res) => {
+    const { pathname } = new URL(req.url || '/', `http://${req.headers.host || 'localhost'}`);
+
+    if (pathname === '/health' && req.method === 'GET') {
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ status: 'ok', sessions: sessions.size }));
+      return;
+    }
+
+    if (pathname !== HTTP.ENDPOINT) {
+      res.writeHead(404).end();
+      return;
+    }
+
+    handleMcpRequest(req, res).catch((error) => {
+      const err = classifyError(error);
+      console.error(`[HTTP] Request failed: ${err.message}`);
+      sendJsonRpcError(res, 500, -32603, 'Internal server error');
+    });
+  });
+
+  // Reap idle sessions so abandoned clients don't leak Server instances - a session with a call in flight is busy, not idle
+  const reaper = setInterval(() => {
+    const cutoff = Date.now() - HTTP.SESSION_IDLE_TIMEOUT_MS;
+    for (const [sessionId, session] of sessions) {
+      if (session.inFlight === 0 && session.lastActivity < cutoff) {
+        console.error(`[HTTP] Session ${sessionId} idle, closing`);
+        void closeSession(sessionId);
+      }
+    }
+  }, 60000);
+  reaper.unref();
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once('error', reject);
+    httpServer.listen(port, host, () => {
+      httpServer.off('error', reject);
+      resolve();
+    });
+  });
+
+  return {
+    url: `http://${host}:${port}${HTTP.ENDPOINT}`,
+    close: async () => {
+      clearInterval(reaper);
+      await Promise.all([...sessions.keys()].map(closeSession));
+      await new Promise<void>((resolve) => {
+        httpServer.close(() => resolve());
+        httpServer.closeAllConnections();
+      });
+    },
+  };
+}
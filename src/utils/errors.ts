@@ -19,6 +19,7 @@ export const ErrorCode = {
   INVALID_INPUT: 'INVALID_INPUT',
   NOT_FOUND: 'NOT_FOUND',
   QUOTA_EXCEEDED: 'QUOTA_EXCEEDED',
+  CANCELLED: 'CANCELLED',
   
   // Internal errors
   INTERNAL_ERROR: 'INTERNAL_ERROR',
@@ -196,6 +197,14 @@ function classifyHttpError(status: number, message: string): StructuredError {
 // Retry Logic with Exponential Backoff
 // ============================================================================
 
+/**
+ * Error for work stopped because the MCP client cancelled the request
+ * Never retryable - retry loops must stop as soon as they see it
+ */
+export function createCancelledError(): StructuredError {
+  return { code: ErrorCode.CANCELLED, message: 'Request cancelled by client', retryable: false };
+}
+
 /**
  * Calculate delay with exponential backoff and jitter
  */
@@ -215,12 +224,17 @@ export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
       return;
     }
 
-    const timeout = setTimeout(resolve, ms);
-
-    signal?.addEventListener('abort', () => {
+    const onAbort = () => {
       clearTimeout(timeout);
       reject(new DOMException('Aborted', 'AbortError'));
-    }, { once: true });
+    };
+    // Retry loops share one request signal - a listener left behind per backoff would pile up
+    const timeout = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+
+    signal?.addEventListener('abort', onAbort, { once: true });
   });
 }
 
@@ -271,28 +285,6 @@ async function withRetry<T>(
   return { success: false, error: lastError, attempts: opts.maxRetries + 1 };
 }
 
-/**
- * Wrap a fetch call with timeout via AbortController
- */
-export function fetchWithTimeout(
-  url: string,
-  options: RequestInit & { timeoutMs?: number } = {}
-): Promise<Response> {
-  const { timeoutMs = 30000, signal: externalSignal, ...fetchOptions } = options;
-
-  const controller = new AbortController();
-  const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
-
-  // Combine with external signal if provided
-  if (externalSignal) {
-    externalSignal.addEventListener('abort', () => controller.abort(), { once: true });
-  }
-
-  return fetch(url, { ...fetchOptions, signal: controller.signal }).finally(() => {
-    clearTimeout(timeoutId);
-  });
-}
-
 // ============================================================================
 // Safe Execution Wrappers
 // ============================================================================
@@ -6,14 +6,22 @@
 
 import { CTR_WEIGHTS } from '../config/index.js';
 import type { KeywordSearchResult, RedditSearchResult } from '../clients/search.js';
+import type { SearchLocale } from '../clients/search-providers.js';
+import type { QueryExpansion } from '../services/query-expander.js';
 
 /**
  * Aggregated URL data structure
  */
 interface AggregatedUrl {
   url: string;
+  // Market key - the same URL from another market is a separate entry
+  locale?: string;
   title: string;
   snippet: string;
+  // Publication date, when a provider reported one
+  date?: string;
+  // Earliest related-search round that found the URL (0 = the requested keywords)
+  round?: number;
   frequency: number;
   positions: number[];
   queries: string[];
@@ -26,8 +34,11 @@ interface AggregatedUrl {
  */
 interface RankedUrl {
   url: string;
+  locale?: string;
   title: string;
   snippet: string;
+  date?: string;
+  round?: number;
   rank: number;
   score: number;
   frequency: number;
@@ -49,28 +60,35 @@ interface AggregationResult {
 }
 
 /**
- * Get CTR weight for a position (1-10)
- * Positions beyond 10 get minimal weight
+ * Get CTR weight for a position - CTR_WEIGHTS for 1-10
+ * Deeper positions get a small weight that keeps falling but never reaches 0 (5 at #20, 2 at #50)
  */
-function getCtrWeight(position: number): number {
+export function getCtrWeight(position: number): number {
   if (position >= 1 && position <= 10) {
     return CTR_WEIGHTS[position] ?? 0;
   }
-  // Positions beyond 10 get diminishing returns
-  return Math.max(0, 10 - (position - 10) * 0.5);
+  return position > 10 ? 100 / position : 0;
+}
+
+/**
+ * Aggregation key - normalized URL, prefixed with the market when results are localized
+ */
+function urlKey(url: string, locale?: string): string {
+  const normalized = normalizeUrl(url);
+  return locale ? `${locale} ${normalized}` : normalized;
 }
 
 /**
  * Aggregate results from multiple searches
- * Flattens all results, deduplicates by URL, and tracks frequency/positions
+ * Flattens all results, deduplicates by URL (per market), and tracks frequency/positions
  */
 function aggregateResults(searches: KeywordSearchResult[]): Map<string, AggregatedUrl> {
   const urlMap = new Map<string, AggregatedUrl>();
 
   for (const search of searches) {
     for (const result of search.results) {
-      const normalizedUrl = normalizeUrl(result.link);
-      const existing = urlMap.get(normalizedUrl);
+      const key = urlKey(result.link, search.locale);
+      const existing = urlMap.get(key);
 
       if (existing) {
         existing.frequency += 1;
@@ -83,11 +101,18 @@ function aggregateResults(searches: KeywordSearchResult[]): Map<string, Aggregat
           existing.title = result.title;
           existing.snippet = result.snippet;
         }
+        existing.date ??= result.date;
+        if (search.round !== undefined) {
+          existing.round = Math.min(existing.round ?? search.round, search.round);
+        }
       } else {
-        urlMap.set(normalizedUrl, {
+        urlMap.set(key, {
           url: result.link,
+          ...(search.locale ? { locale: search.locale } : {}),
           title: result.title,
           snippet: result.snippet,
+          ...(result.date ? { date: result.date } : {}),
+          ...(search.round !== undefined ? { round: search.round } : {}),
           frequency: 1,
           positions: [result.position],
           queries: [search.keyword],
@@ -151,8 +176,11 @@ function calculateWeightedScores(urls: AggregatedUrl[]): RankedUrl[] {
   // Map to ranked URLs with normalized scores
   return sorted.map((url, index) => ({
     url: url.url,
+    ...(url.locale ? { locale: url.locale } : {}),
     title: url.title,
     snippet: url.snippet,
+    ...(url.date ? { date: url.date } : {}),
+    ...(url.round !== undefined ? { round: url.round } : {}),
     rank: index + 1,
     score: maxScore > 0 ? (url.totalScore / maxScore) * 100 : 0,
     frequency: url.frequency,
@@ -171,6 +199,37 @@ export function markConsensus(frequency: number): string {
   return frequency >= 3 ? '✓' : '✗';
 }
 
+/**
+ * Cache-hit marker for a query heading - e.g. " _(cached 3h ago)_", empty for fresh results
+ */
+export function markCached(cachedAt: string | undefined): string {
+  if (!cachedAt) return '';
+  const minutes = Math.max(0, Math.round((Date.now() - Date.parse(cachedAt)) / 60000));
+  if (minutes === 0) return ' _(cached just now)_';
+  const age = minutes < 60 ? `${minutes}m` : minutes < 2880 ? `${Math.round(minutes / 60)}h` : `${Math.round(minutes / 1440)}d`;
+  return ` _(cached ${age} ago)_`;
+}
+
+/**
+ * Market marker for a heading - e.g. " _(market: jp · ja)_", empty for the default locale
+ */
+export function markLocale(locale: SearchLocale | undefined): string {
+  const parts = [locale?.country, locale?.language, locale?.location].filter(Boolean);
+  return parts.length > 0 ? ` _(market: ${parts.join(' · ')})_` : '';
+}
+
+/**
+ * Note listing the queries generated from a topic (or why none were), empty without a topic
+ */
+export function formatTopicExpansion(topic: string | undefined, expansion: QueryExpansion | undefined, noun: string): string {
+  if (!topic || !expansion) return '';
+  if (expansion.error) {
+    return `> ⚠️ *Could not generate ${noun} from topic "${topic}": ${expansion.error.message}*\n\n`;
+  }
+  const queries = expansion.queries.map(query => `\`${query}\``).join(', ');
+  return `> 🧭 **Topic:** "${topic}" → ${expansion.queries.length} generated ${noun}: ${queries}\n\n`;
+}
+
 /**
  * Generate justification for why a URL is ranked at its position
  */
@@ -194,15 +253,77 @@ function generateJustification(url: RankedUrl, rank: number): string {
   return parts.join(', ') + '.';
 }
 
+function truncate(text: string, max: number): string {
+  return text.length > max ? text.substring(0, max - 3) + '...' : text;
+}
+
+/**
+ * "Direct answers" section - answer boxes, knowledge graphs, People Also Ask and top stories
+ * per keyword, so agents don't have to scrape for a fact Google already shows.
+ * Empty when no search had any of them
+ */
+export function generateDirectAnswers(searches: KeywordSearchResult[]): string {
+  const lines: string[] = [];
+  const seenGraphs = new Set<string>();
+
+  for (const search of searches) {
+    const entry: string[] = [];
+    const { answerBox, knowledgeGraph, peopleAlsoAsk, topStories } = search;
+
+    if (answerBox) {
+      const answer = answerBox.answer ? `**${answerBox.answer}**` : '';
+      const snippet = answerBox.snippet ? truncate(answerBox.snippet, 300) : '';
+      const source = answerBox.link ? ` ([${answerBox.title ?? 'source'}](${answerBox.link}))` : '';
+      entry.push(`- **Answer:** ${[answer, snippet].filter(Boolean).join(' — ')}${source}`);
+    }
+
+    // The same entity often comes back for several keywords - show it once
+    if (knowledgeGraph && !seenGraphs.has(knowledgeGraph.title.toLowerCase())) {
+      seenGraphs.add(knowledgeGraph.title.toLowerCase());
+      const type = knowledgeGraph.type ? ` (${knowledgeGraph.type})` : '';
+      const description = knowledgeGraph.description ? ` — ${truncate(knowledgeGraph.description, 300)}` : '';
+      const link = knowledgeGraph.link ? ` ([source](${knowledgeGraph.link}))` : '';
+      entry.push(`- **Knowledge graph:** **${knowledgeGraph.title}**${type}${description}${link}`);
+      const attributes = Object.entries(knowledgeGraph.attributes).slice(0, 8);
+      if (attributes.length > 0) {
+        entry.push(`  - ${attributes.map(([name, value]) => `${name}: ${value}`).join(' · ')}`);
+      }
+    }
+
+    for (const question of (peopleAlsoAsk ?? []).slice(0, 3)) {
+      const snippet = question.snippet ? ` — ${truncate(question.snippet, 200)}` : '';
+      const link = question.link ? ` ([source](${question.link}))` : '';
+      entry.push(`- **Q:** ${question.question}${snippet}${link}`);
+    }
+
+    if (topStories && topStories.length > 0) {
+      const stories = topStories.slice(0, 3).map(story => {
+        const meta = [story.source, story.date].filter(Boolean).join(', ');
+        return `[${story.title}](${story.link})${meta ? ` (${meta})` : ''}`;
+      });
+      entry.push(`- **Top stories:** ${stories.join('; ')}`);
+    }
+
+    if (entry.length > 0) {
+      lines.push(`**"${search.keyword}"**`, ...entry, '');
+    }
+  }
+
+  if (lines.length === 0) return '';
+  return ['### 💡 Direct Answers', '', ...lines].join('\n');
+}
+
 /**
  * Generate enhanced narrative output for consensus URLs
+ * Direct answers (see generateDirectAnswers) go first when `searches` is given
  */
 export function generateEnhancedOutput(
   rankedUrls: RankedUrl[],
   allKeywords: string[],
   totalUniqueUrls: number,
   frequencyThreshold: number,
-  thresholdNote?: string
+  thresholdNote?: string,
+  searches?: KeywordSearchResult[]
 ): string {
   const lines: string[] = [];
   
@@ -216,6 +337,11 @@ export function generateEnhancedOutput(
     lines.push(`> ${thresholdNote}`);
     lines.push('');
   }
+
+  const directAnswers = searches ? generateDirectAnswers(searches) : '';
+  if (directAnswers) {
+    lines.push(directAnswers);
+  }
   
   // Top Consensus Resources
   lines.push('### 🥇 Top Consensus Resources');
@@ -231,6 +357,14 @@ export function generateEnhancedOutput(
     
     // Best ranking
     lines.push(`- **Best ranking:** Position ${url.bestPosition}`);
+
+    if (url.date) {
+      lines.push(`- **Published:** ${url.date}`);
+    }
+
+    if (url.round) {
+      lines.push(`- **Found in:** related-search round ${url.round}`);
+    }
     
     // Description (truncated snippet)
     const description = url.snippet.length > 200 
@@ -317,21 +451,21 @@ export function buildUrlLookup(rankedUrls: RankedUrl[]): Map<string, RankedUrl>
   const lookup = new Map<string, RankedUrl>();
   
   for (const url of rankedUrls) {
-    const normalized = normalizeUrl(url.url);
-    lookup.set(normalized, url);
+    lookup.set(urlKey(url.url, url.locale), url);
     // Also store original URL
-    lookup.set(url.url.toLowerCase(), url);
+    const original = url.url.toLowerCase();
+    lookup.set(url.locale ? `${url.locale} ${original}` : original, url);
   }
 
   return lookup;
 }
 
 /**
- * Look up a URL in the ranked results
+ * Look up a URL (from a search in `locale`) in the ranked results
  */
-export function lookupUrl(url: string, lookup: Map<string, RankedUrl>): RankedUrl | undefined {
-  const normalized = normalizeUrl(url);
-  return lookup.get(normalized) || lookup.get(url.toLowerCase());
+export function lookupUrl(url: string, lookup: Map<string, RankedUrl>, locale?: string): RankedUrl | undefined {
+  const original = url.toLowerCase();
+  return lookup.get(urlKey(url, locale)) || lookup.get(locale ? `${locale} ${original}` : original);
 }
 
 // ============================================================================
@@ -519,13 +653,15 @@ export function aggregateAndRankReddit(
 export function generateRedditEnhancedOutput(
   aggregation: RedditAggregationResult,
   allQueries: string[],
-  rawResults?: Map<string, RedditSearchResult[]>
+  rawResults?: Map<string, RedditSearchResult[]>,
+  cachedAt?: Map<string, string>,
+  locale?: SearchLocale
 ): string {
   const { rankedUrls, totalUniqueUrls, frequencyThreshold, thresholdNote } = aggregation;
   const lines: string[] = [];
 
   // Header
-  lines.push(`# 🔍 Reddit Search Results (Aggregated from ${allQueries.length} Queries)`);
+  lines.push(`# 🔍 Reddit Search Results (Aggregated from ${allQueries.length} Queries)${markLocale(locale)}`);
   lines.push('');
   lines.push(`**Total Unique Posts:** ${totalUniqueUrls} | **Consensus Threshold:** ≥${frequencyThreshold} appearances`);
   lines.push('');
@@ -583,7 +719,7 @@ export function generateRedditEnhancedOutput(
     lines.push('');
 
     for (const [query, results] of rawResults) {
-      lines.push(`### 🔎 Query: "${query}"`);
+      lines.push(`### 🔎 Query: "${query}"${markCached(cachedAt?.get(query))}`);
       lines.push(`**Results:** ${results.length} posts`);
       lines.push('');
 
@@ -613,6 +749,9 @@ export function generateRedditEnhancedOutput(
   lines.push(`- **Queries:** ${allQueries.map(q => `"${q}"`).join(', ')}`);
   lines.push(`- **Unique Posts Found:** ${totalUniqueUrls}`);
   lines.push(`- **High-Consensus Posts:** ${consensusUrls.length}`);
+  if (cachedAt && cachedAt.size > 0) {
+    lines.push(`- **Served from cache:** ${cachedAt.size} of ${allQueries.length} queries (pass \`fresh: true\` to refetch)`);
+  }
   lines.push('');
 
   return lines.join('\n');
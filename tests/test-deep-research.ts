@@ -9,6 +9,8 @@ import 'dotenv/config';
 import { writeFileSync, mkdirSync, existsSync } from 'fs';
 import { join } from 'path';
 import OpenAI from 'openai';
+import { FIXTURES } from '../src/config/index.js';
+import { openAIFetch } from '../src/services/fixtures.js';
 
 // Setup
 const LOG_DIR = join(process.cwd(), 'test-logs');
@@ -193,6 +195,9 @@ async function researchQuestion(
     } catch (error) {
       const errorMsg = error instanceof Error ? error.message : String(error);
       
+      // Nothing recorded for this request (see isReplayMiss) - retrying replays the same miss
+      const replayMiss = error instanceof OpenAI.APIError && error.headers?.['x-fixture-miss'] !== undefined;
+      
       // Check for rate limiting
       const isRateLimit = errorMsg.includes('429') || 
                           errorMsg.toLowerCase().includes('rate limit') ||
@@ -206,7 +211,7 @@ async function researchQuestion(
       }
       
       // For other errors, still try retry
-      if (attempt < RETRY_CONFIG.maxRetries - 1) {
+      if (!replayMiss && attempt < RETRY_CONFIG.maxRetries - 1) {
         const delayMs = calculateDelay(attempt);
         trackRetry(opId, attempt + 1, delayMs, errorMsg);
         await delay(delayMs);
@@ -323,7 +328,8 @@ async function main(): Promise<void> {
   console.log('🔄 Retry: exponential backoff (2x, max 10s, 20 retries)');
   console.log('='.repeat(60) + '\n');
   
-  const apiKey = process.env.OPENROUTER_API_KEY;
+  // Replayed fixtures need no key
+  const apiKey = process.env.OPENROUTER_API_KEY || (FIXTURES.MODE === 'replay' ? 'replay' : undefined);
   if (!apiKey) {
     console.error('❌ OPENROUTER_API_KEY not set');
     process.exit(1);
@@ -338,6 +344,7 @@ async function main(): Promise<void> {
   const client = new OpenAI({
     apiKey,
     baseURL: baseUrl,
+    fetch: openAIFetch,
   });
   
   const questions = generateCapitalCityQuestions();
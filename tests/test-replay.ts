@@ -0,0 +1,178 @@
+#!/usr/bin/env tsx
+/**
+ * Replay Test
+ * Runs web_search, scrape_links, get_reddit_post and deep_research through their tool handlers
+ * against the fixtures in tests/fixtures/ - offline, no API keys needed (CI)
+ *
+ * Re-record against the live APIs (real keys from .env):
+ *   MCP_FIXTURES=record npm run test:replay
+ */
+
+import { strict as assert } from 'node:assert';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { dirname, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+// ============================================================================
+// Environment (before any server module reads it)
+// ============================================================================
+
+process.env.MCP_FIXTURES ??= 'replay';
+process.env.MCP_FIXTURES_DIR ??= join(dirname(fileURLToPath(import.meta.url)), 'fixtures');
+// A cache of this run's own - the cache tests must not see results from earlier runs
+const cacheDir = mkdtempSync(join(tmpdir(), 'research-powerpack-replay-'));
+process.env.MCP_CACHE_DIR = cacheDir;
+
+// Pin everything that shapes a request, so recorded and replayed requests match
+// Brave is only used by the tests that pass a BRAVE_API_KEY - Serper is the only provider otherwise
+process.env.SEARCH_PROVIDERS = 'brave,serper';
+process.env.RESEARCH_MODEL = 'x-ai/grok-4-fast';
+process.env.DEFAULT_REASONING_EFFORT = 'low';
+
+if (process.env.MCP_FIXTURES === 'replay') {
+  // Keys travel in headers or redacted parameters - any value replays
+  for (const key of ['SERPER_API_KEY', 'SCRAPEDO_API_KEY', 'REDDIT_CLIENT_ID', 'REDDIT_CLIENT_SECRET', 'OPENROUTER_API_KEY']) {
+    process.env[key] = 'replay';
+  }
+  delete process.env.BRAVE_API_KEY;
+} else {
+  await import('dotenv/config');
+}
+
+const { parseEnv, FIXTURES } = await import('../src/config/index.js');
+const { handleWebSearch } = await import('../src/tools/search.js');
+const { handleScrapeLinks } = await import('../src/tools/scrape.js');
+const { handleGetRedditPosts } = await import('../src/tools/reddit.js');
+const { handleDeepResearch } = await import('../src/tools/research.js');
+const { webSearchParamsSchema } = await import('../src/schemas/web-search.js');
+const { scrapeLinksParamsSchema } = await import('../src/schemas/scrape-links.js');
+const { deepResearchParamsSchema } = await import('../src/schemas/deep-research.js');
+
+// ============================================================================
+// Runner
+// ============================================================================
+
+let failures = 0;
+
+async function test(name: string, run: () => Promise<void>): Promise<void> {
+  const start = Date.now();
+  try {
+    await run();
+    console.log(`✅ ${name} (${Date.now() - start}ms)`);
+  } catch (error) {
+    failures++;
+    console.log(`❌ ${name} (${Date.now() - start}ms)`);
+    console.log(`   ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+// ============================================================================
+// Tests
+// ============================================================================
+
+console.log(`\n🎞️  Replay test (MCP_FIXTURES=${FIXTURES.MODE}, ${FIXTURES.DIR})\n`);
+
+const env = parseEnv();
+
+await test('web_search aggregates results across keywords', async () => {
+  const params = webSearchParamsSchema.parse({ keywords: ['bun vs node', 'bun production'] });
+  const { content, structuredContent } = await handleWebSearch(params, { env });
+
+  assert.equal(structuredContent.metadata.errorCode, undefined);
+  assert.equal(structuredContent.searches.length, 2);
+  assert.ok(structuredContent.searches.every(search => search.provider === 'serper' && search.results.length > 0));
+  // bun.sh appears for both keywords - it must lead the consensus list
+  assert.equal(structuredContent.ranked_urls[0]?.url, 'https://bun.sh/');
+  assert.equal(structuredContent.ranked_urls[0]?.frequency, 2);
+  assert.ok(content.includes('Direct Answers'), 'answer box should be rendered');
+});
+
+await test('scrape_links extracts page content', async () => {
+  const params = scrapeLinksParamsSchema.parse({ urls: ['https://example.com/', 'https://example.org/missing'] });
+  const { content, structuredContent } = await handleScrapeLinks(params, { apiKey: env.SCRAPER_API_KEY });
+
+  assert.equal(structuredContent.metadata.total_urls, 2);
+  // The 404 is reported per URL, not retried
+  assert.equal(structuredContent.metadata.successful, 1);
+  assert.equal(structuredContent.metadata.failed, 1);
+  assert.ok(content.includes('Example Domain'));
+  assert.ok(content.includes('404'));
+});
+
+await test('get_reddit_post fetches posts with comments', async () => {
+  const urls = [
+    'https://www.reddit.com/r/node/comments/abc123/bun_in_production/',
+    'https://www.reddit.com/r/javascript/comments/def456/bun_vs_node/',
+  ];
+  const { content, structuredContent } = await handleGetRedditPosts(urls, env.REDDIT_CLIENT_ID!, env.REDDIT_CLIENT_SECRET!, 100);
+
+  assert.equal(structuredContent.metadata.successful, 2);
+  assert.ok(structuredContent.posts.every(post => post.success && (post.comments?.length ?? 0) > 0));
+  assert.ok(content.includes('Bun in production'));
+});
+
+await test('deep_research answers a question', async () => {
+  const params = deepResearchParamsSchema.parse({
+    questions: [{ question: 'What is the capital of France? Answer in one sentence and cite one source.' }],
+  });
+  const { content, structuredContent } = await handleDeepResearch(params, { apiKey: env.RESEARCH_API_KEY });
+
+  assert.equal(structuredContent.successful, 1);
+  assert.ok(content.includes('Paris'));
+});
+
+await test('a request without a fixture fails at once instead of retrying', async () => {
+  if (FIXTURES.MODE !== 'replay') return;
+  const params = webSearchParamsSchema.parse({ keywords: ['no fixture for this keyword'] });
+  const start = Date.now();
+  const { structuredContent } = await handleWebSearch(params, { env });
+
+  assert.equal(structuredContent.metadata.total_results, 0);
+  assert.match(structuredContent.searches[0]?.error ?? '', /Bad request/);
+  assert.ok(Date.now() - start < 1000, 'replay misses must not be retried');
+});
+
+await test('time_range hour skips providers without an hour filter', async () => {
+  const params = webSearchParamsSchema.parse({ keywords: ['bun 1.2 release'], time_range: 'hour' });
+  // Brave comes first in SEARCH_PROVIDERS but only filters by day
+  const { structuredContent } = await handleWebSearch(params, { env: { ...env, BRAVE_API_KEY: 'replay' } });
+
+  assert.equal(structuredContent.searches[0]?.provider, 'serper');
+  assert.ok((structuredContent.searches[0]?.results.length ?? 0) > 0);
+});
+
+await test('time_range hour fails clearly when no provider can apply it', async () => {
+  const params = webSearchParamsSchema.parse({ keywords: ['bun 1.3 release'], time_range: 'hour' });
+  const { structuredContent } = await handleWebSearch(params, { env: { ...env, SEARCH_API_KEY: undefined, BRAVE_API_KEY: 'replay' } });
+
+  assert.equal(structuredContent.metadata.total_results, 0);
+  assert.match(structuredContent.searches[0]?.error ?? '', /can apply time_range hour/);
+});
+
+await test('a deep search whose second page failed is cached only as deep as its first page', async () => {
+  // Brave fetches page by page - the fixture for page 2 is a 422
+  const braveEnv = { ...env, SEARCH_API_KEY: undefined, BRAVE_API_KEY: 'replay' };
+  const deep = webSearchParamsSchema.parse({ keywords: ['bun test runner'], depth: 20 });
+
+  const first = await handleWebSearch(deep, { env: braveEnv });
+  const search = first.structuredContent.searches[0];
+  assert.equal(search?.provider, 'brave');
+  assert.ok((search?.results.length ?? 0) > 0, 'page 1 results are kept');
+  assert.match(search?.error ?? '', /Page 2 of 2 failed/);
+  assert.ok(first.content.includes('Partial results'));
+
+  // Depth 20 isn't cached - the missing page is fetched again
+  const again = await handleWebSearch(deep, { env: braveEnv });
+  assert.equal(again.structuredContent.searches[0]?.cached_at, undefined);
+
+  // Depth 10 is
+  const shallow = await handleWebSearch(webSearchParamsSchema.parse({ keywords: ['bun test runner'] }), { env: braveEnv });
+  assert.ok(shallow.structuredContent.searches[0]?.cached_at, 'page 1 should be served from the cache');
+  assert.equal(shallow.structuredContent.searches[0]?.error, undefined);
+});
+
+rmSync(cacheDir, { recursive: true, force: true });
+
+console.log(failures === 0 ? '\n✅ All replay tests passed\n' : `\n❌ ${failures} replay test(s) failed\n`);
+process.exit(failures === 0 ? 0 : 1);
@@ -9,6 +9,8 @@
 import 'dotenv/config';
 import { writeFileSync, mkdirSync, existsSync } from 'fs';
 import { join } from 'path';
+import { FIXTURES } from '../src/config/index.js';
+import { fixtureFetch } from '../src/services/fixtures.js';
 
 // Setup
 const LOG_DIR = join(process.cwd(), 'test-logs');
@@ -180,7 +182,7 @@ async function scrapeUrl(
         timeout: '30000',
       });
       
-      const response = await fetch(`https://api.scrape.do?${params.toString()}`, {
+      const response = await fixtureFetch(`https://api.scrape.do?${params.toString()}`, {
         method: 'GET',
         headers: { Accept: 'text/html,application/json,text/plain' },
       });
@@ -510,7 +512,8 @@ async function main(): Promise<void> {
   console.log('🔄 Retry: exponential backoff (2x, max 10s, 20 retries)');
   console.log('='.repeat(60) + '\n');
   
-  const apiKey = process.env.SCRAPEDO_API_KEY;
+  // Replayed fixtures need no key
+  const apiKey = process.env.SCRAPEDO_API_KEY || (FIXTURES.MODE === 'replay' ? 'replay' : undefined);
   if (!apiKey) {
     console.error('❌ SCRAPEDO_API_KEY not set');
     process.exit(1);
@@ -0,0 +1,240 @@
+#!/usr/bin/env tsx
+/**
+ * Unit Test
+ * Settings validation, the usage ledger, artifact and error-stats isolation, CTR weights,
+ * date-filter provider selection and query parsing - offline, no API keys, no network
+ *
+ *   npm run test:unit
+ */
+
+import { strict as assert } from 'node:assert';
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+// ============================================================================
+// Environment (before any server module reads it)
+// ============================================================================
+
+const tempDir = mkdtempSync(join(tmpdir(), 'research-powerpack-unit-'));
+const ledgerFile = join(tempDir, 'usage.json');
+
+delete process.env.MCP_FIXTURES;
+process.env.MCP_USAGE_FILE = ledgerFile;
+process.env.USAGE_CAP_SERPER_DAILY = '10';
+
+const { parseEnv } = await import('../src/config/index.js');
+const { loadSettings } = await import('../src/config/settings.js');
+const { runWithUsage, flushUsage, checkQuota, reserveQuota, getUsageReport } = await import('../src/services/usage-ledger.js');
+const { ArtifactStore } = await import('../src/services/artifact-store.js');
+const { recordError, getErrorStats } = await import('../src/services/error-stats.js');
+const { getCtrWeight, aggregateAndRank } = await import('../src/utils/url-aggregator.js');
+const { createSearchProvider } = await import('../src/clients/search-providers.js');
+const { parseQueries } = await import('../src/services/query-expander.js');
+const { ErrorCode } = await import('../src/utils/errors.js');
+
+// ============================================================================
+// Runner
+// ============================================================================
+
+let failures = 0;
+
+async function test(name: string, run: () => Promise<void> | void): Promise<void> {
+  const start = Date.now();
+  try {
+    await run();
+    console.log(`✅ ${name} (${Date.now() - start}ms)`);
+  } catch (error) {
+    failures++;
+    console.log(`❌ ${name} (${Date.now() - start}ms)`);
+    console.log(`   ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+function settingsFile(name: string, settings: unknown): string {
+  const file = join(tempDir, name);
+  writeFileSync(file, JSON.stringify(settings));
+  return file;
+}
+
+function ledgerWith(serper: number): string {
+  const today = new Date().toISOString().slice(0, 10);
+  return JSON.stringify({ version: 1, days: { [today]: { 'other-process': { web_search: { calls: 1, serper } } } } });
+}
+
+// ============================================================================
+// Tests
+// ============================================================================
+
+console.log('\n🧪 Unit test\n');
+
+// --- Settings (user-011) ---
+
+await test('settings reject retry_count 0', () => {
+  const file = settingsFile('retry.json', { scraper: { retry_count: 0 } });
+  assert.throws(() => loadSettings({ file }), /scraper\.retry_count/);
+});
+
+await test('settings reject min_urls above max_urls', () => {
+  const file = settingsFile('urls.json', { scraper: { min_urls: 20, max_urls: 5 } });
+  assert.throws(() => loadSettings({ file }), /min_urls \(20\) must not exceed max_urls \(5\)/);
+});
+
+await test('settings check a min against the built-in max it is paired with', () => {
+  const file = settingsFile('posts.json', { reddit: { min_posts: 60 } });
+  assert.throws(() => loadSettings({ file }), /min_posts \(60\) must not exceed max_posts \(50\)/);
+});
+
+await test('settings reject a profile whose merged limits cross', () => {
+  const file = settingsFile('profile.json', { scraper: { min_urls: 10 }, profiles: { narrow: { scraper: { max_urls: 5 } } } });
+  assert.throws(() => loadSettings({ file }), /profiles\.narrow\.scraper: min_urls \(10\) must not exceed max_urls \(5\)/);
+});
+
+await test('settings accept ordered limits', () => {
+  const file = settingsFile('ok.json', { scraper: { min_urls: 5, max_urls: 5, retry_count: 1 }, profiles: { wide: { scraper: { max_urls: 40 } } } });
+  loadSettings({ file, profile: 'wide' });
+  loadSettings({});
+});
+
+// --- Usage ledger (user-014) ---
+
+await test('caps count spending another process flushed to the ledger', async () => {
+  writeFileSync(ledgerFile, ledgerWith(4));
+
+  const { error } = await reserveQuota({ serper: 7 });
+  assert.equal(error?.code, ErrorCode.QUOTA_EXCEEDED);
+  assert.equal(await checkQuota({ serper: 6 }), undefined);
+});
+
+await test('reservations hold headroom until recorded or released', async () => {
+  const first = await reserveQuota({ serper: 6 });
+  assert.ok(first.reservation);
+  // 4 spent + 6 reserved - nothing left
+  assert.equal((await reserveQuota({ serper: 1 })).error?.code, ErrorCode.QUOTA_EXCEEDED);
+  // A zero estimate (cached results) always passes
+  assert.equal(await checkQuota({ serper: 0 }), undefined);
+
+  await runWithUsage({ tool: 'web_search', clientId: 'client-a' }, async () => {
+    first.reservation.record({ serper: 2 });
+    first.reservation.release();
+  });
+
+  // 6 spent, the unspent 4 are free again
+  const second = await reserveQuota({ serper: 4 });
+  assert.ok(second.reservation);
+  second.reservation.release();
+});
+
+await test('flushed usage keeps other processes\' spending', async () => {
+  await flushUsage();
+  const days = JSON.parse(readFileSync(ledgerFile, 'utf-8')).days;
+  const today = Object.values(days)[0] as Record<string, Record<string, { serper?: number }>>;
+  assert.equal(today['other-process']?.web_search?.serper, 4);
+  assert.equal(today['client-a']?.web_search?.serper, 2);
+
+  const report = await getUsageReport('day', 'client-a');
+  assert.equal(report.providers.find(row => row.provider === 'serper')?.today, 6);
+  assert.deepEqual(report.by_client.map(row => row.client_id), ['client-a']);
+});
+
+await test('caps re-read the ledger once it may be stale', async () => {
+  writeFileSync(ledgerFile, ledgerWith(9));
+  await new Promise(resolve => setTimeout(resolve, 1100));
+  assert.equal((await checkQuota({ serper: 2 }))?.code, ErrorCode.QUOTA_EXCEEDED);
+});
+
+// --- Artifacts (user-008) ---
+
+await test('artifacts are only visible to the client that created them', () => {
+  const store = new ArtifactStore(10, 1_000_000);
+  const artifact = store.save({ kind: 'search', tool: 'web_search', title: 'bun', text: '# bun', clientId: 'client-a' });
+
+  assert.equal(store.get(artifact.uri, 'client-a')?.text, '# bun');
+  assert.equal(store.get(artifact.uri, 'client-b'), undefined);
+  assert.deepEqual(store.list('client-b'), []);
+});
+
+await test('artifact eviction drops the oldest and keeps the one just saved', () => {
+  const store = new ArtifactStore(2, 100);
+  const first = store.save({ kind: 'search', tool: 'web_search', title: '1', text: 'one', clientId: 'client-a' });
+  const second = store.save({ kind: 'search', tool: 'web_search', title: '2', text: 'two', clientId: 'client-a' });
+  const third = store.save({ kind: 'search', tool: 'web_search', title: '3', text: 'three', clientId: 'client-a' });
+  assert.deepEqual(store.list('client-a').map(a => a.uri), [third.uri, second.uri]);
+  assert.equal(store.get(first.uri, 'client-a'), undefined);
+
+  // Over the byte limit on its own - still kept, everything older goes
+  const big = store.save({ kind: 'scrape', tool: 'scrape_links', title: 'big', text: 'x'.repeat(200), clientId: 'client-a' });
+  assert.deepEqual(store.list('client-a').map(a => a.uri), [big.uri]);
+});
+
+// --- Error stats (user-013) ---
+
+await test('error stats only show a client its own failures', async () => {
+  const failure = (message: string) => ({ code: ErrorCode.SERVICE_UNAVAILABLE, message, retryable: true });
+  await runWithUsage({ tool: 'web_search', clientId: 'stats-a' }, async () => {
+    recordError('search', failure('serper 503 for "secret query"'));
+    recordError('search', failure('serper 503 again'));
+  });
+  await runWithUsage({ tool: 'scrape_links', clientId: 'stats-b' }, async () => {
+    recordError('scraper', failure('scrape.do 502'));
+  });
+  // Outside a tool call - nobody's
+  recordError('llm', failure('openrouter 503'));
+
+  const a = getErrorStats('stats-a');
+  assert.equal(a.total, 2);
+  assert.deepEqual(a.by_code[ErrorCode.SERVICE_UNAVAILABLE]?.services, { search: 2 });
+  assert.equal(getErrorStats('stats-b').total, 1);
+  assert.equal(getErrorStats('stats-c').total, 0);
+});
+
+// --- CTR weights (user-021) ---
+
+await test('results past the first page keep a small CTR weight', () => {
+  assert.ok(getCtrWeight(10) > getCtrWeight(11));
+  assert.equal(getCtrWeight(20), 5);
+  assert.equal(getCtrWeight(50), 2);
+  assert.equal(getCtrWeight(0), 0);
+
+  const result = (link: string, position: number) => ({ title: link, link, snippet: '', position });
+  const { rankedUrls } = aggregateAndRank([
+    { keyword: 'a', results: [result('https://a.example/', 1), result('https://deep.example/', 15)], totalResults: 2, related: [] },
+    { keyword: 'b', results: [result('https://deep.example/', 18)], totalResults: 1, related: [] },
+  ], 1);
+  const deep = rankedUrls.find(url => url.url === 'https://deep.example/');
+  assert.deepEqual(deep?.positions, [15, 18]);
+  assert.ok((deep?.score ?? 0) > 0);
+});
+
+// --- Date filters (user-022) ---
+
+await test('only providers with an hour filter take time_range hour', () => {
+  const env = {
+    ...parseEnv(),
+    SEARCH_API_KEY: 'key', BRAVE_API_KEY: 'key', TAVILY_API_KEY: 'key', BING_API_KEY: 'key', SEARXNG_URL: 'http://localhost:8888',
+  };
+  const hour = { timeRange: 'hour' as const };
+  const day = { timeRange: 'day' as const };
+
+  for (const name of ['serper', 'brave', 'tavily', 'bing', 'searxng'] as const) {
+    const provider = createSearchProvider(name, env);
+    assert.ok(provider, `${name} should be configured`);
+    assert.equal(provider.supportsDates('web', hour), name === 'serper', `${name} with time_range hour`);
+    assert.equal(provider.supportsDates('web', day), true, `${name} with time_range day`);
+  }
+});
+
+// --- Query expansion (user-024) ---
+
+await test('parseQueries reads a JSON array, or one query per line', () => {
+  assert.deepEqual(parseQueries('Sure: ["bun vs node", "bun production", 3]'), ['bun vs node', 'bun production']);
+  assert.deepEqual(
+    parseQueries('Here are 3 queries:\n```\n1. "bun vs node",\n- bun production\n* `bun test runner`\n```\nThese cover speed, deployment and testing from several angles for you.'),
+    ['bun vs node', 'bun production', 'bun test runner']
+  );
+});
+
+rmSync(tempDir, { recursive: true, force: true });
+
+console.log(failures === 0 ? '\n✅ All unit tests passed\n' : `\n❌ ${failures} unit test(s) failed\n`);
+process.exit(failures === 0 ? 0 : 1);
@@ -7,6 +7,8 @@
 import 'dotenv/config';
 import { writeFileSync, mkdirSync, existsSync } from 'fs';
 import { join } from 'path';
+import { FIXTURES } from '../src/config/index.js';
+import { fixtureFetch, isReplayMiss } from '../src/services/fixtures.js';
 
 // Setup
 const LOG_DIR = join(process.cwd(), 'test-logs');
@@ -85,7 +87,12 @@ async function fetchWithRetry(
 ): Promise<Response> {
   for (let attempt = 0; attempt < RETRY_CONFIG.maxRetries; attempt++) {
     try {
-      const response = await fetch(url, options);
+      const response = await fixtureFetch(url, options);
+      
+      // Nothing recorded for this request - retrying replays the same miss
+      if (isReplayMiss(response)) {
+        return response;
+      }
       
       if (response.status === 429) {
         const delayMs = calculateDelay(attempt);
@@ -248,7 +255,8 @@ async function main(): Promise<void> {
   console.log('🔄 Retry: exponential backoff (2x, max 10s, 20 retries)');
   console.log('='.repeat(60) + '\n');
   
-  const apiKey = process.env.SERPER_API_KEY;
+  // Replayed fixtures need no key
+  const apiKey = process.env.SERPER_API_KEY || (FIXTURES.MODE === 'replay' ? 'replay' : undefined);
   if (!apiKey) {
     console.error('❌ SERPER_API_KEY not set');
     process.exit(1);